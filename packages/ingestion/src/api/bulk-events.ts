@@ -0,0 +1,77 @@
+import type { AppConfig, RawEvent } from '../types.js';
+import { CircuitOpenError, HttpError } from '../types.js';
+import type { HttpClient, HttpResponse } from './http-client.js';
+import type { RateLimiter } from './middleware/rate-limit.js';
+import { withRetry } from './middleware/retry.js';
+import type { RetryBudget } from './middleware/retry.js';
+import { isOutage } from './middleware/circuit-breaker.js';
+import type { CircuitBreaker } from './middleware/circuit-breaker.js';
+import { getAuthHeaders } from './middleware/auth.js';
+import { normalizePage } from '../mappers.js';
+import type { Logger } from '../logger.js';
+
+// Rate limit bucket; the bulk endpoint has its own quota
+const BULK_ENDPOINT = 'bulk';
+
+export interface BulkEventsClient {
+  readonly fetchByIds: (ids: readonly string[]) => Promise<readonly RawEvent[]>;
+}
+
+/**
+ * Client for `POST /api/v1/events/bulk`, which returns the events with the
+ * given ids. Shares the rate limiter, retry policy and circuit breaker with
+ * page fetches, but paces against its own bucket and circuit.
+ */
+export function createBulkEventsClient(
+  httpClient: HttpClient,
+  rateLimiter: RateLimiter,
+  config: AppConfig,
+  logger: Logger,
+  retryBudget?: RetryBudget,
+  circuitBreaker?: CircuitBreaker,
+): BulkEventsClient {
+  const url = `${config.apiBaseUrl}/events/bulk`;
+
+  async function fetchByIds(ids: readonly string[]): Promise<readonly RawEvent[]> {
+    if (ids.length === 0) return [];
+
+    const send = async (): Promise<HttpResponse> => {
+      await rateLimiter.acquire(BULK_ENDPOINT);
+      let response: HttpResponse;
+      try {
+        response = await httpClient.post(url, { ids }, getAuthHeaders(config));
+      } catch (err) {
+        if (err instanceof HttpError && err.headers) rateLimiter.updateFromHeaders(BULK_ENDPOINT, err.headers);
+        if (err instanceof HttpError && err.status === 429) rateLimiter.record429(BULK_ENDPOINT);
+        if (err instanceof HttpError && err.status === 0) rateLimiter.recordTimeout();
+        throw err;
+      }
+      rateLimiter.updateFromHeaders(BULK_ENDPOINT, response.headers);
+      rateLimiter.recordSuccess(BULK_ENDPOINT);
+      return response;
+    };
+    const request = (): Promise<HttpResponse> => (
+      circuitBreaker ? circuitBreaker.execute(BULK_ENDPOINT, send) : send()
+    );
+
+    let response: HttpResponse;
+    for (;;) {
+      try {
+        response = await withRetry(request, config, logger, 'bulk-fetch', retryBudget)();
+        break;
+      } catch (err) {
+        // Wait out an open circuit rather than failing the repair
+        const circuitOpen = err instanceof CircuitOpenError ||
+          (isOutage(err) && (circuitBreaker?.isOpen(BULK_ENDPOINT) ?? false));
+        if (!circuitOpen) throw err;
+        await circuitBreaker!.whenReady(BULK_ENDPOINT);
+      }
+    }
+
+    // Same envelope as event pages, or a bare array of events
+    const body = Array.isArray(response.body) ? { data: response.body } : response.body;
+    return normalizePage(body).events;
+  }
+
+  return { fetchByIds };
+}
@@ -1,132 +1,323 @@
-import type { AppConfig, NormalizedPage } from '../types.js';
-import { HttpError } from '../types.js';
+import type {
+  AppConfig,
+  NormalizedPage,
+  ResponseFormat,
+  SourceState,
+  SourceSwitch,
+  SourceSwitchReason,
+} from '../types.js';
+import { CircuitOpenError, HttpError } from '../types.js';
 import type { HttpClient, HttpResponse } from './http-client.js';
 import type { StreamAccessManager } from './stream-access.js';
 import type { RateLimiter } from './middleware/rate-limit.js';
 import { withRetry } from './middleware/retry.js';
-import { getAuthHeaders } from './middleware/auth.js';
-import { normalizePage } from '../mappers.js';
+import type { RetryBudget } from './middleware/retry.js';
+import { isOutage } from './middleware/circuit-breaker.js';
+import type { CircuitBreaker } from './middleware/circuit-breaker.js';
+import { createSourceStrategies } from './source-strategies.js';
+import type { SourceStrategy } from './source-strategies.js';
+import { decodePage } from './response-formats.js';
 import type { Logger } from '../logger.js';
+import type { Metrics } from '../core/metrics.js';
 
-const FEED_PATH = '/api/v1/events/d4ta/x7k9/feed';
+const MAX_SWITCHES = 20;
 
 export interface FetchPageParams {
   readonly limit: number;
   readonly cursor?: string | null;
   readonly since?: number;
   readonly until?: number;
+  readonly format?: ResponseFormat; // Defaults to RESPONSE_FORMAT
 }
 
 export interface EventsSource {
   readonly fetchPage: (params: FetchPageParams) => Promise<NormalizedPage>;
 }
 
+export interface StrategyBenchmark {
+  readonly name: string;
+  readonly ok: boolean;
+  readonly medianMs: number | null;
+  readonly error: string | null;
+}
+
+export interface StrategyEventsSource extends EventsSource {
+  readonly benchmark: () => Promise<readonly StrategyBenchmark[]>;
+  readonly getActiveStrategy: () => string;
+  readonly getState: () => SourceState;
+}
+
+// Errors that say nothing about the transport: 400 is an expired cursor the
+// worker rebuilds, 429 is a rate limit every strategy shares
+function isStrategyFailure(err: unknown): boolean {
+  return !(err instanceof HttpError && (err.status === 400 || err.status === 429));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Events source backed by the strategies named in `SOURCE_STRATEGIES`.
+ *
+ * `benchmark()` times a few pages per strategy and activates the fastest one
+ * that works. When the active strategy fails (after retries and one auth
+ * refresh) it is marked failed, the remaining strategies are benchmarked
+ * again, and the page is retried on the new winner. Without a benchmark the
+ * first strategy in preference order is used.
+ *
+ * Failed strategies are half-open: once `SOURCE_RECOVERY_MS` has passed,
+ * the next `fetchPage` starts one background probe that drops cached auth
+ * (a fresh stream token) and reads a page. A successful probe re-enables the
+ * strategy and re-runs the benchmark, so the source switches back when the
+ * recovered strategy is faster; a failed probe restarts the cooldown.
+ *
+ * With a circuit breaker, each strategy has its own circuit. An open circuit
+ * counts as a strategy failure while another strategy is up; when none is,
+ * `fetchPage` waits for the circuit's half-open probe instead of failing.
+ *
+ * Pages are requested in `RESPONSE_FORMAT` unless the caller asks for
+ * another format, and decoded by the format the response actually came in.
+ * They are validated per `PAGE_VALIDATION`. In strict mode a page that
+ * doesn't match the schema fails its strategy like a transport error would;
+ * in lenient mode it is used as read and its anomalies are counted.
+ */
 export function createEventsSource(
   httpClient: HttpClient,
   streamManager: StreamAccessManager,
   rateLimiter: RateLimiter,
   config: AppConfig,
   logger: Logger,
-): EventsSource {
-  let streamDisabled = false;
-
-  async function fetchStreamPage(params: FetchPageParams): Promise<HttpResponse> {
-    const access = await streamManager.get();
-    const origin = new URL(config.apiBaseUrl).origin;
-    const url = new URL(`${origin}${access.endpoint || FEED_PATH}`);
-
-    url.searchParams.set('limit', String(params.limit));
-    if (params.cursor) url.searchParams.set('cursor', params.cursor);
-    if (params.since) url.searchParams.set('since', String(params.since));
-    if (params.until) url.searchParams.set('until', String(params.until));
-
-    return httpClient.get(url.toString(), {
-      [access.tokenHeader]: access.token,
-      'X-API-Key': config.apiKey,
-      'Origin': origin,
-      'Referer': `${origin}/`,
-    });
+  metrics?: Pick<Metrics, 'recordSource' | 'recordPageAnomalies'>,
+  retryBudget?: RetryBudget,
+  circuitBreaker?: CircuitBreaker,
+): StrategyEventsSource {
+  const strategies = createSourceStrategies(config.sourceStrategies, { httpClient, streamManager, config });
+  const failed = new Map<string, number>(); // Strategy name -> disabled at
+  const switches: SourceSwitch[] = [];
+  let active: SourceStrategy = strategies[0]!;
+  let evaluating: Promise<readonly StrategyBenchmark[]> | null = null;
+  let probing = false;
+  let probes = 0;
+  let recoveries = 0;
+
+  function getState(): SourceState {
+    return {
+      active: active.name,
+      disabled: strategies.filter((s) => failed.has(s.name)).map((s) => s.name),
+      probes,
+      recoveries,
+      switches: [...switches],
+    };
   }
 
-  async function fetchFallbackPage(params: FetchPageParams): Promise<HttpResponse> {
-    const url = new URL(`${config.apiBaseUrl}/events`);
-    url.searchParams.set('limit', String(params.limit));
-    if (params.cursor) url.searchParams.set('cursor', params.cursor);
+  function publish(): void {
+    metrics?.recordSource(getState());
+  }
 
-    return httpClient.get(url.toString(), getAuthHeaders(config));
+  function switchTo(strategy: SourceStrategy, reason: SourceSwitchReason): void {
+    if (strategy === active) return;
+    const entry: SourceSwitch = { atMs: Date.now(), from: active.name, to: strategy.name, reason };
+    switches.push(entry);
+    if (switches.length > MAX_SWITCHES) switches.shift();
+    logger.info({ ...entry }, 'Source strategy switched');
+    active = strategy;
   }
 
-  async function fetchPage(params: FetchPageParams): Promise<NormalizedPage> {
-    // Pre-request rate limit delay
-    const delay = rateLimiter.getPreRequestDelayMs();
-    if (delay > 0) {
-      await sleep(delay);
-    }
+  // Requests to a strategy go through its circuit, when there is a breaker
+  function guarded<T>(strategy: SourceStrategy, fn: () => Promise<T>): Promise<T> {
+    return circuitBreaker ? circuitBreaker.execute(strategy.name, fn) : fn();
+  }
 
-    let response: HttpResponse;
+  // Every attempt, retries included, takes a token from the strategy's bucket.
+  // 429s and timeouts are recorded per attempt, not just the ones that
+  // exhaust withRetry, so the limiter and concurrency controller react early
+  function observed(endpoint: string, fn: () => Promise<HttpResponse>): () => Promise<HttpResponse> {
+    return async () => {
+      await rateLimiter.acquire(endpoint);
+      let response: HttpResponse;
+      try {
+        response = await fn();
+      } catch (err) {
+        // A 429 says when the window resets; wait for that, not just a backoff
+        if (err instanceof HttpError && err.headers) rateLimiter.updateFromHeaders(endpoint, err.headers);
+        if (err instanceof HttpError && err.status === 429) rateLimiter.record429(endpoint);
+        if (err instanceof HttpError && err.status === 0) rateLimiter.recordTimeout();
+        throw err;
+      }
+      rateLimiter.updateFromHeaders(endpoint, response.headers);
+      rateLimiter.recordSuccess(endpoint);
+      return response;
+    };
+  }
+
+  function fetchWith(strategy: SourceStrategy, params: FetchPageParams): Promise<HttpResponse> {
+    return withRetry(
+      () => guarded(strategy, observed(strategy.name, () => strategy.fetch(params))),
+      config,
+      logger,
+      `${strategy.name}-fetch`,
+      retryBudget,
+    )();
+  }
 
+  async function fetchWithAuthRefresh(strategy: SourceStrategy, params: FetchPageParams): Promise<HttpResponse> {
     try {
-      if (!streamDisabled) {
-        const fetchFn = withRetry(
-          () => fetchStreamPage(params),
-          config,
-          logger,
-          'stream-fetch',
-        );
-        response = await fetchFn();
-      } else {
-        const fetchFn = withRetry(
-          () => fetchFallbackPage(params),
-          config,
-          logger,
-          'fallback-fetch',
-        );
-        response = await fetchFn();
-      }
+      return await fetchWith(strategy, params);
     } catch (err) {
-      if (err instanceof HttpError && (err.status === 401 || err.status === 403) && !streamDisabled) {
-        // Stream auth failed — invalidate and try to refresh
-        streamManager.invalidate();
-        try {
-          const fetchFn = withRetry(
-            () => fetchStreamPage(params),
-            config,
-            logger,
-            'stream-fetch-retry',
-          );
-          response = await fetchFn();
-        } catch (retryErr) {
-          // Fall back to standard endpoint
-          streamDisabled = true;
-          const reason = retryErr instanceof Error ? retryErr.message : String(retryErr);
-          logger.warn({ reason }, 'Stream disabled, falling back to /api/v1/events');
-
-          const fetchFn = withRetry(
-            () => fetchFallbackPage(params),
-            config,
-            logger,
-            'fallback-fetch',
-          );
-          response = await fetchFn();
-        }
-      } else if (err instanceof HttpError && err.status === 429) {
-        rateLimiter.record429();
-        throw err;
-      } else {
-        throw err;
+      const authFailure = err instanceof HttpError && (err.status === 401 || err.status === 403);
+      if (!authFailure || !strategy.invalidateAuth) throw err;
+      strategy.invalidateAuth();
+      return fetchWith(strategy, params);
+    }
+  }
+
+  async function measure(strategy: SourceStrategy, requests: number): Promise<StrategyBenchmark> {
+    const timings: number[] = [];
+    try {
+      for (let i = 0; i < requests; i++) {
+        const { response, latencyMs } = await guarded(strategy, async () => {
+          await rateLimiter.acquire(strategy.name);
+          const startedAt = Date.now();
+          const response = await strategy.fetch({ limit: config.batchSize, cursor: null, format: config.responseFormat });
+          return { response, latencyMs: Date.now() - startedAt };
+        });
+        timings.push(latencyMs);
+        rateLimiter.updateFromHeaders(strategy.name, response.headers);
+        // A strategy must return pages we can read
+        decodePage(response, config.responseFormat, config.pageValidation);
       }
+    } catch (err) {
+      return { name: strategy.name, ok: false, medianMs: null, error: errorMessage(err) };
+    }
+    timings.sort((a, b) => a - b);
+    const medianMs = timings[Math.floor(timings.length / 2)] ?? 0;
+    return { name: strategy.name, ok: true, medianMs, error: null };
+  }
+
+  async function runBenchmark(reason: SourceSwitchReason): Promise<readonly StrategyBenchmark[]> {
+    const results: StrategyBenchmark[] = [];
+    // Sequential so strategies don't compete for the same rate limit
+    for (const strategy of strategies) {
+      if (failed.has(strategy.name)) continue;
+      results.push(await measure(strategy, config.sourceBenchmarkRequests));
     }
 
-    // Update rate limiter from response headers
-    rateLimiter.updateFromHeaders(response.headers);
-    rateLimiter.recordSuccess();
+    const working = results
+      .filter((r) => r.ok)
+      .sort((a, b) => a.medianMs! - b.medianMs!);
+    const winner = working[0];
+    if (winner) {
+      switchTo(strategies.find((s) => s.name === winner.name)!, reason);
+    } else {
+      // Nothing answered the benchmark; keep preference order and let retries decide
+      switchTo(strategies.find((s) => !failed.has(s.name)) ?? active, reason);
+    }
+    publish();
 
-    return normalizePage(response.body);
+    logger.info({
+      active: active.name,
+      results: results.map((r) => ({ name: r.name, ok: r.ok, medianMs: r.medianMs, error: r.error })),
+    }, 'Source strategies benchmarked');
+    return results;
   }
 
-  return { fetchPage };
-}
+  function evaluate(reason: SourceSwitchReason): Promise<readonly StrategyBenchmark[]> {
+    // Concurrent callers share one evaluation
+    evaluating ??= runBenchmark(reason).finally(() => {
+      evaluating = null;
+    });
+    return evaluating;
+  }
+
+  async function reevaluate(strategy: SourceStrategy, err: unknown): Promise<boolean> {
+    if (!failed.has(strategy.name)) {
+      failed.set(strategy.name, Date.now());
+      logger.warn({ strategy: strategy.name, reason: errorMessage(err) }, 'Source strategy failed, re-evaluating');
+      publish();
+    }
+    if (active === strategy) {
+      if (strategies.every((s) => failed.has(s.name))) return false;
+      await evaluate('failure');
+    }
+    return !failed.has(active.name);
+  }
+
+  async function probe(strategy: SourceStrategy): Promise<void> {
+    probes++;
+    // A stale token is the usual cause, so always probe with fresh credentials
+    strategy.invalidateAuth?.();
+    const result = await measure(strategy, 1);
+    if (!result.ok) {
+      failed.set(strategy.name, Date.now());
+      logger.info({ strategy: strategy.name, reason: result.error }, 'Source strategy still failing');
+      publish();
+      return;
+    }
+
+    failed.delete(strategy.name);
+    recoveries++;
+    logger.info({ strategy: strategy.name, latencyMs: result.medianMs }, 'Source strategy recovered');
+    await evaluate('recovered');
+  }
+
+  // Half-open: probe at most one cooled-down strategy at a time, off the fetch path
+  function maybeProbe(): void {
+    if (config.sourceRecoveryMs <= 0 || probing || evaluating !== null || failed.size === 0) return;
+    const now = Date.now();
+    const candidate = strategies.find((s) => {
+      const disabledAt = failed.get(s.name);
+      return disabledAt !== undefined && now - disabledAt >= config.sourceRecoveryMs;
+    });
+    if (!candidate) return;
+
+    probing = true;
+    probe(candidate)
+      .catch((err: unknown) => {
+        logger.warn({ strategy: candidate.name, err }, 'Source strategy probe failed');
+      })
+      .finally(() => {
+        probing = false;
+      });
+  }
+
+  async function fetchPage(requested: FetchPageParams): Promise<NormalizedPage> {
+    maybeProbe();
+    const params = { ...requested, format: requested.format ?? config.responseFormat };
+
+    for (;;) {
+      const strategy = active;
+      try {
+        const response = await fetchWithAuthRefresh(strategy, params);
+        const page = decodePage(response, params.format, config.pageValidation);
+        if (page.anomalies) {
+          logger.warn({
+            strategy: strategy.name,
+            cursor: params.cursor ?? null,
+            anomalies: page.anomalies,
+          }, 'Events page does not match the schema');
+          metrics?.recordPageAnomalies(page.anomalies);
+        }
+        return page;
+      } catch (err) {
+        // The failure that opened the circuit, or a request it held back
+        const circuitOpen = err instanceof CircuitOpenError ||
+          (isOutage(err) && (circuitBreaker?.isOpen(strategy.name) ?? false));
+        if (circuitOpen) {
+          // Fail over while another strategy is up; wait only when none is
+          if (!(await reevaluate(strategy, err))) await circuitBreaker!.whenReady(strategy.name);
+          continue;
+        }
+        if (!isStrategyFailure(err) || !(await reevaluate(strategy, err))) throw err;
+      }
+    }
+  }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  publish();
+  return {
+    fetchPage,
+    benchmark: () => evaluate('benchmark'),
+    getActiveStrategy: () => active.name,
+    getState,
+  };
 }
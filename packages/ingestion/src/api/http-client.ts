@@ -1,6 +1,7 @@
 import { Agent } from 'undici';
 import { HttpError } from '../types.js';
 import type { AppConfig } from '../types.js';
+import { readJsonStream } from './json-stream.js';
 
 export interface HttpResponse {
   readonly status: number;
@@ -57,7 +58,10 @@ export function createHttpClient(config: AppConfig): HttpClient {
 
       let responseBody: unknown;
       const contentType = response.headers.get('content-type') ?? '';
-      if (contentType.includes('application/json')) {
+      if (contentType.includes('application/json') && config.streamJson && response.body) {
+        // Events parsed one at a time as the page arrives
+        responseBody = await readJsonStream(response.body);
+      } else if (contentType.includes('application/json')) {
         responseBody = await response.json();
       } else {
         responseBody = await response.text();
@@ -69,6 +73,8 @@ export function createHttpClient(config: AppConfig): HttpClient {
           response.status,
           method,
           url,
+          response.headers,
+          responseBody,
         );
       }
 
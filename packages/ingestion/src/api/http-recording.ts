@@ -0,0 +1,151 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { HttpError } from '../types.js';
+import type { Logger } from '../logger.js';
+import { streamedEventReplacer } from '../mappers.js';
+import type { HttpClient, HttpResponse } from './http-client.js';
+
+/**
+ * One recorded request/response pair, stored as a JSON file. Request
+ * headers (credentials, tokens) are not recorded.
+ */
+export interface HttpFixture {
+  readonly seq: number; // Recording order
+  readonly key: string; // Request identity that replay matches on
+  readonly request: {
+    readonly method: string;
+    readonly url: string;
+    readonly body: unknown;
+  };
+  readonly response: {
+    readonly status: number; // 0 when no response arrived
+    readonly headers: readonly (readonly [string, string])[];
+    readonly body: unknown;
+  };
+  readonly error: string | null; // HttpError message for failed requests
+}
+
+/**
+ * What a request is matched on: method, path, sorted query and body. The
+ * origin is left out so a capture replays against any `API_BASE_URL`.
+ */
+export function requestKey(method: string, url: string, body: unknown): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  const key = `${method} ${parsed.pathname}${parsed.search}`;
+  return body === undefined ? key : `${key} ${JSON.stringify(body)}`;
+}
+
+function fixtureFileName(seq: number, method: string, url: string): string {
+  const slug = new URL(url).pathname.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${String(seq).padStart(6, '0')}-${method}-${slug}.json`;
+}
+
+/**
+ * Wrap `inner` so every exchange, failures included, is saved to `dir` as
+ * an `HttpFixture`. Responses and errors are passed through unchanged.
+ */
+export function createRecordingHttpClient(inner: HttpClient, dir: string, logger: Logger): HttpClient {
+  let seq = 0;
+  let ready: Promise<unknown> | null = null;
+
+  async function save(fixture: HttpFixture): Promise<void> {
+    ready ??= mkdir(dir, { recursive: true });
+    await ready;
+    const file = fixtureFileName(fixture.seq, fixture.request.method, fixture.request.url);
+    // Streamed pages hold events as stubs; write the full events they came from
+    await writeFile(join(dir, file), `${JSON.stringify(fixture, streamedEventReplacer, 2)}\n`, 'utf-8');
+  }
+
+  async function recorded(
+    method: string,
+    url: string,
+    body: unknown,
+    send: () => Promise<HttpResponse>,
+  ): Promise<HttpResponse> {
+    const base = { seq: ++seq, key: requestKey(method, url, body), request: { method, url, body } };
+    let response: HttpResponse;
+    try {
+      response = await send();
+    } catch (err) {
+      if (err instanceof HttpError) {
+        await save({
+          ...base,
+          response: { status: err.status, headers: err.headers ? [...err.headers] : [], body: err.body },
+          error: err.message,
+        }).catch((saveErr: unknown) => logger.warn({ err: saveErr, url }, 'Failed to record HTTP exchange'));
+      }
+      throw err;
+    }
+    await save({
+      ...base,
+      response: { status: response.status, headers: [...response.headers], body: response.body },
+      error: null,
+    }).catch((saveErr: unknown) => logger.warn({ err: saveErr, url }, 'Failed to record HTTP exchange'));
+    return response;
+  }
+
+  return {
+    get: (url, headers) => recorded('GET', url, undefined, () => inner.get(url, headers)),
+    post: (url, body, headers) => recorded('POST', url, body, () => inner.post(url, body, headers)),
+  };
+}
+
+/**
+ * Read the fixtures recorded into `dir`, in recording order.
+ */
+export async function loadHttpFixtures(dir: string): Promise<HttpFixture[]> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.json'));
+  const fixtures = await Promise.all(files.map(async (file) => (
+    JSON.parse(await readFile(join(dir, file), 'utf-8')) as HttpFixture
+  )));
+  return fixtures.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * An `HttpClient` that serves recorded fixtures instead of calling the API.
+ *
+ * Requests are matched on `requestKey`. A request recorded several times
+ * (the same cursor re-read, token refreshes) gets its responses in
+ * recording order, then the last one again, so a replay never depends on
+ * how many times the original run asked. Recorded failures are thrown as
+ * the same `HttpError`; a request that was never recorded throws an
+ * `Error` naming it, which retries won't hide.
+ */
+export function createReplayHttpClient(fixtures: readonly HttpFixture[], logger: Logger): HttpClient {
+  const queues = new Map<string, HttpFixture[]>();
+  for (const fixture of fixtures) {
+    const queue = queues.get(fixture.key) ?? [];
+    queue.push(fixture);
+    queues.set(fixture.key, queue);
+  }
+
+  async function replay(method: string, url: string, body: unknown): Promise<HttpResponse> {
+    const key = requestKey(method, url, body);
+    const queue = queues.get(key);
+    if (!queue || queue.length === 0) {
+      logger.warn({ method, url }, 'No recorded response for request');
+      throw new Error(`No recorded response for ${key}`);
+    }
+    const fixture = queue.length > 1 ? queue.shift()! : queue[0]!;
+    logger.debug({ method, url, seq: fixture.seq, status: fixture.response.status }, 'Replaying HTTP exchange');
+
+    const headers = new Headers(fixture.response.headers as [string, string][]);
+    if (fixture.error !== null) {
+      throw new HttpError(
+        fixture.error,
+        fixture.response.status,
+        method,
+        url,
+        fixture.response.status === 0 ? null : headers,
+        fixture.response.body,
+      );
+    }
+    return { status: fixture.response.status, headers, body: fixture.response.body };
+  }
+
+  return {
+    get: (url) => replay('GET', url, undefined),
+    post: (url, body) => replay('POST', url, body),
+  };
+}
@@ -0,0 +1,214 @@
+import { parseEventJson } from '../mappers.js';
+
+// Event arrays of the flat ({ data: [...] }) and nested ({ data: { data: [...] } }) page shapes
+const EVENT_ARRAY_PATHS = new Set(['data', 'data.data']);
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+interface Frame {
+  readonly isObject: boolean;
+  readonly path: string;
+  key: string | null; // Key of the member being read (objects only)
+}
+
+export interface JsonPageParser {
+  readonly write: (text: string) => void;
+  readonly end: () => unknown;
+}
+
+/**
+ * Incremental parser for JSON response bodies.
+ *
+ * Text is fed in chunks as it arrives. Elements of an events array (`data`
+ * or `data.data` of the root object) are cut out as raw JSON text at their
+ * top-level commas and handed to `onItem` one at a time, which returns the
+ * value to put in the array; everything else (pagination, meta) is kept as
+ * a small skeleton that `end()` parses and puts the items back into. The
+ * body is never held as one string or parsed as a whole.
+ *
+ * Malformed input surfaces as a `SyntaxError` from `JSON.parse`, in
+ * `onItem` or in `end()`.
+ */
+export function createJsonPageParser(onItem: (text: string) => unknown): JsonPageParser {
+  const stack: Frame[] = [];
+  const skeleton: string[] = [];
+  const placed = new Map<string, unknown[]>(); // Events array path -> items
+  let inString = false;
+  let escaped = false;
+  let expectKey = false;
+  let key: string | null = null; // Text of the object key being read
+  let keyFrom = 0;
+
+  let items: unknown[] | null = null; // Set while inside an events array
+  let itemParts: string[] = [];
+  let depth = 0; // Nesting inside the current item
+
+  function childPath(): string {
+    const parent = stack[stack.length - 1];
+    if (!parent) return '';
+    if (!parent.isObject) return `${parent.path}[]`;
+    return parent.path === '' ? parent.key ?? '' : `${parent.path}.${parent.key ?? ''}`;
+  }
+
+  function emitItem(text: string): void {
+    const trimmed = text.trim();
+    if (trimmed.length > 0) items!.push(onItem(trimmed));
+  }
+
+  // Inside an events array: split items at commas outside strings and nesting.
+  // Returns where the array's `]` is, or the end of the text
+  function scanItems(text: string, from: number): number {
+    let start = from;
+    for (let i = from; i < text.length; i++) {
+      if (inString) {
+        const quote = closingQuote(text, i);
+        if (quote === -1) break;
+        inString = false;
+        i = quote;
+        continue;
+      }
+      const c = text.charCodeAt(i);
+      if (c === QUOTE) {
+        inString = true;
+      } else if (c === OPEN_BRACE || c === OPEN_BRACKET) {
+        depth++;
+      } else if (depth > 0 && (c === CLOSE_BRACE || c === CLOSE_BRACKET)) {
+        depth--;
+      } else if (depth === 0 && (c === COMMA || c === CLOSE_BRACKET)) {
+        const tail = text.slice(start, i);
+        emitItem(itemParts.length > 0 ? itemParts.join('') + tail : tail);
+        itemParts = [];
+        start = i + 1;
+        if (c === CLOSE_BRACKET) {
+          placed.set(stack[stack.length - 1]!.path, items!);
+          items = null;
+          return i;
+        }
+      }
+    }
+    if (start < text.length) itemParts.push(text.slice(start));
+    return text.length;
+  }
+
+  // Index of the quote closing the string that `from` is inside, or -1 when
+  // the string runs past the end of the text. Skips string contents with
+  // indexOf, since most of an event's text is inside strings
+  function closingQuote(text: string, from: number): number {
+    let i = from;
+    if (escaped) {
+      escaped = false;
+      i++;
+    }
+    for (;;) {
+      const quote = text.indexOf('"', i);
+      const end = quote === -1 ? text.length : quote;
+      let backslashes = 0;
+      while (end - backslashes - 1 >= i && text.charCodeAt(end - backslashes - 1) === BACKSLASH) backslashes++;
+      if (quote === -1) {
+        escaped = backslashes % 2 === 1; // The next text starts with an escaped character
+        return -1;
+      }
+      if (backslashes % 2 === 0) return quote;
+      i = quote + 1;
+    }
+  }
+
+  // Outside events arrays: track containers and keys to find the arrays.
+  // Returns just past an events array's `[`, or the end of the text
+  function scanSkeleton(text: string, from: number): number {
+    if (key !== null) keyFrom = from;
+    for (let i = from; i < text.length; i++) {
+      const c = text.charCodeAt(i);
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (c === BACKSLASH) {
+          escaped = true;
+        } else if (c === QUOTE) {
+          inString = false;
+          if (key !== null) {
+            stack[stack.length - 1]!.key = JSON.parse(`"${key}${text.slice(keyFrom, i)}"`) as string;
+            key = null;
+          }
+        }
+        continue;
+      }
+
+      if (c === QUOTE) {
+        inString = true;
+        if (expectKey) {
+          key = '';
+          keyFrom = i + 1;
+        }
+      } else if (c === OPEN_BRACE || c === OPEN_BRACKET) {
+        const path = childPath();
+        stack.push({ isObject: c === OPEN_BRACE, path, key: null });
+        expectKey = c === OPEN_BRACE;
+        if (c === OPEN_BRACKET && stack[0]!.isObject && EVENT_ARRAY_PATHS.has(path)) {
+          items = [];
+          depth = 0;
+          return i + 1;
+        }
+      } else if (c === CLOSE_BRACE || c === CLOSE_BRACKET) {
+        stack.pop();
+        expectKey = false;
+      } else if (c === COMMA) {
+        expectKey = stack[stack.length - 1]?.isObject ?? false;
+      } else if (c === COLON) {
+        expectKey = false;
+      }
+    }
+    if (key !== null) key += text.slice(keyFrom);
+    return text.length;
+  }
+
+  function write(text: string): void {
+    let i = 0;
+    while (i < text.length) {
+      if (items !== null) {
+        i = scanItems(text, i);
+      } else {
+        const start = i;
+        i = scanSkeleton(text, i);
+        skeleton.push(text.slice(start, i));
+      }
+    }
+  }
+
+  function end(): unknown {
+    if (items !== null) throw new SyntaxError('Unexpected end of JSON input');
+    const root: unknown = JSON.parse(skeleton.join(''));
+    for (const [path, list] of placed) {
+      const parts = path.split('.');
+      let target = root as Record<string, unknown>;
+      for (const part of parts.slice(0, -1)) target = target[part] as Record<string, unknown>;
+      target[parts[parts.length - 1]!] = list;
+    }
+    return root;
+  }
+
+  return { write, end };
+}
+
+/**
+ * Parse a JSON body from its byte stream with `createJsonPageParser`. Each
+ * event is parsed on its own and only its source text, `id` and `timestamp`
+ * are kept (see `parseEventJson`), so mapping it to a row doesn't serialize
+ * it again.
+ */
+export async function readJsonStream(body: AsyncIterable<Uint8Array>): Promise<unknown> {
+  const decoder = new TextDecoder();
+  const parser = createJsonPageParser(parseEventJson);
+  for await (const chunk of body) {
+    parser.write(decoder.decode(chunk, { stream: true }));
+  }
+  parser.write(decoder.decode());
+  return parser.end();
+}
@@ -0,0 +1,174 @@
+import { CircuitOpenError, HttpError } from '../../types.js';
+import type { AppConfig, CircuitState, CircuitStatus } from '../../types.js';
+import type { Logger } from '../../logger.js';
+import type { Metrics } from '../../core/metrics.js';
+
+const WINDOW_SIZE = 20; // Most recent outcomes the failure rate is taken over
+
+interface Circuit {
+  readonly endpoint: string;
+  outcomes: boolean[]; // true = failed, oldest first
+  openedAtMs: number | null;
+  probing: boolean;
+  opens: number;
+  rejected: number;
+  waiters: (() => void)[];
+}
+
+export interface CircuitBreaker {
+  readonly execute: <T>(endpoint: string, fn: () => Promise<T>) => Promise<T>;
+  readonly whenReady: (endpoint: string) => Promise<void>;
+  readonly isOpen: (endpoint: string) => boolean;
+  readonly getState: () => readonly CircuitState[];
+}
+
+// The API is down or unreachable; anything else means the endpoint answered
+export function isOutage(err: unknown): boolean {
+  return err instanceof HttpError && (err.status === 0 || err.status >= 500);
+}
+
+/**
+ * Circuit breakers for the API, one per endpoint, shared by every worker.
+ *
+ * A circuit opens once at least `CIRCUIT_MIN_REQUESTS` of its last 20
+ * requests were made and `CIRCUIT_FAILURE_PERCENT` of them failed with a 5xx,
+ * timeout or network error. While open, `execute` rejects immediately with
+ * `CircuitOpenError` so callers can fail over or wait on `whenReady` instead
+ * of spending their retries. After `CIRCUIT_OPEN_MS` the circuit is
+ * half-open: the next request goes through as a single probe, closing the
+ * circuit on success and re-opening it on failure.
+ */
+export function createCircuitBreaker(
+  config: Pick<AppConfig, 'circuitFailurePercent' | 'circuitMinRequests' | 'circuitOpenMs'>,
+  logger: Logger,
+  metrics?: Pick<Metrics, 'trackCircuits'>,
+): CircuitBreaker {
+  const circuits = new Map<string, Circuit>();
+
+  function circuitFor(endpoint: string): Circuit {
+    let circuit = circuits.get(endpoint);
+    if (!circuit) {
+      circuit = { endpoint, outcomes: [], openedAtMs: null, probing: false, opens: 0, rejected: 0, waiters: [] };
+      circuits.set(endpoint, circuit);
+    }
+    return circuit;
+  }
+
+  function statusOf(circuit: Circuit, now = Date.now()): CircuitStatus {
+    if (circuit.openedAtMs === null) return 'closed';
+    return now - circuit.openedAtMs >= config.circuitOpenMs ? 'half-open' : 'open';
+  }
+
+  function wake(circuit: Circuit): void {
+    const waiters = circuit.waiters;
+    circuit.waiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  function open(circuit: Circuit): void {
+    circuit.openedAtMs = Date.now();
+    circuit.opens++;
+    logger.warn({
+      endpoint: circuit.endpoint,
+      failures: circuit.outcomes.filter(Boolean).length,
+      requests: circuit.outcomes.length,
+      openMs: config.circuitOpenMs,
+    }, 'Circuit opened, pausing requests');
+    wake(circuit); // Waiters re-arm against the new open period
+  }
+
+  function close(circuit: Circuit): void {
+    const openForMs = Date.now() - circuit.openedAtMs!;
+    circuit.openedAtMs = null;
+    circuit.outcomes = [];
+    logger.info({ endpoint: circuit.endpoint, openForMs }, 'Circuit closed, resuming requests');
+    wake(circuit);
+  }
+
+  function record(circuit: Circuit, failed: boolean): void {
+    circuit.outcomes.push(failed);
+    if (circuit.outcomes.length > WINDOW_SIZE) circuit.outcomes.shift();
+    if (!failed || circuit.openedAtMs !== null) return;
+
+    const failures = circuit.outcomes.filter(Boolean).length;
+    if (
+      circuit.outcomes.length >= config.circuitMinRequests &&
+      failures * 100 >= circuit.outcomes.length * config.circuitFailurePercent
+    ) {
+      open(circuit);
+    }
+  }
+
+  async function execute<T>(endpoint: string, fn: () => Promise<T>): Promise<T> {
+    const circuit = circuitFor(endpoint);
+    const status = statusOf(circuit);
+    const probe = status === 'half-open' && !circuit.probing;
+    if (status === 'open' || (status === 'half-open' && !probe)) {
+      circuit.rejected++;
+      const retryAtMs = status === 'open' ? circuit.openedAtMs! + config.circuitOpenMs : null;
+      throw new CircuitOpenError(`Circuit for ${endpoint} is open`, endpoint, retryAtMs);
+    }
+
+    if (probe) {
+      circuit.probing = true;
+      logger.info({ endpoint }, 'Circuit half-open, probing');
+    }
+    try {
+      const result = await fn();
+      if (probe) close(circuit);
+      else record(circuit, false);
+      return result;
+    } catch (err) {
+      if (probe) {
+        if (isOutage(err)) open(circuit);
+        else close(circuit); // The endpoint answered, even if not with a page
+      } else {
+        record(circuit, isOutage(err));
+      }
+      throw err;
+    } finally {
+      if (probe) circuit.probing = false;
+    }
+  }
+
+  /**
+   * Resolves once a request to `endpoint` may be admitted again: when the
+   * circuit closes, or when it turns half-open. A caller that then loses the
+   * race for the probe gets `CircuitOpenError` and waits again.
+   */
+  function whenReady(endpoint: string): Promise<void> {
+    const circuit = circuitFor(endpoint);
+    const status = statusOf(circuit);
+    if (status === 'closed' || (status === 'half-open' && !circuit.probing)) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      circuit.waiters.push(resolve);
+      if (status === 'open') {
+        const timer = setTimeout(resolve, circuit.openedAtMs! + config.circuitOpenMs - Date.now());
+        timer.unref();
+      }
+    });
+  }
+
+  // Open or half-open: requests to the endpoint are being held back
+  function isOpen(endpoint: string): boolean {
+    return statusOf(circuitFor(endpoint)) !== 'closed';
+  }
+
+  function getState(): readonly CircuitState[] {
+    const now = Date.now();
+    return Array.from(circuits.values(), (circuit) => ({
+      endpoint: circuit.endpoint,
+      status: statusOf(circuit, now),
+      recentRequests: circuit.outcomes.length,
+      recentFailures: circuit.outcomes.filter(Boolean).length,
+      openedAtMs: circuit.openedAtMs,
+      opens: circuit.opens,
+      rejected: circuit.rejected,
+    }));
+  }
+
+  metrics?.trackCircuits(getState);
+
+  return { execute, whenReady, isOpen, getState };
+}
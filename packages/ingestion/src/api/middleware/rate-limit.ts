@@ -1,113 +1,245 @@
+import type { RateLimitBucketState } from '../../types.js';
 import type { Logger } from '../../logger.js';
+import type { Metrics } from '../../core/metrics.js';
 
 export interface RateLimitState {
-  remaining: number | null;
+  total429s: number; // Every 429 seen, including deduplicated bursts
+  totalTimeouts: number; // Timeouts and network errors (HTTP status 0)
+  buckets: readonly RateLimitBucketState[];
+}
+
+interface Bucket {
+  readonly endpoint: string;
   limit: number | null;
+  remaining: number | null;
   resetAtMs: number | null;
+  windowMs: number | null;
+  tokens: number;
+  refilledAtMs: number;
   adaptiveDelayMs: number;
   consecutive429s: number;
+  total429s: number;
+  last429AtMs: number;
 }
 
+const PACING_FACTOR = 0.9; // Refill just under the advertised limit
+const MIN_WINDOW_MS = 1000;
 const ADAPTIVE_MULTIPLIER = 1.3;
 const ADAPTIVE_DECAY = 0.5;
 const ADAPTIVE_MIN_MS = 1000;
 const ADAPTIVE_MAX_MS = 8000;
 const LAST_429_DEDUP_WINDOW_MS = 2000;
 
-export function createRateLimiter(logger: Logger): {
-  readonly getPreRequestDelayMs: () => number;
-  readonly updateFromHeaders: (headers: Headers) => void;
-  readonly record429: () => void;
-  readonly recordSuccess: () => void;
+/**
+ * Token bucket per endpoint, shared by every worker.
+ *
+ * A bucket holds `X-RateLimit-Limit` tokens and refills at 90% of the limit
+ * per window; the window length is the longest `X-RateLimit-Reset` horizon
+ * seen. Each response clamps the tokens to the server's `remaining`, so
+ * other clients on the same key are accounted for. `acquire` reserves a
+ * token and waits until it exists, which paces requests evenly instead of
+ * spending the quota and waiting out 429s. Until an endpoint has sent its
+ * headers it is unlimited, except for the adaptive delay that 429s add
+ * for headerless endpoints.
+ */
+export function createRateLimiter(
+  logger: Logger,
+  metrics?: Pick<Metrics, 'recordRateLimits'>,
+): {
+  readonly acquire: (endpoint: string) => Promise<void>;
+  readonly updateFromHeaders: (endpoint: string, headers: Headers) => void;
+  readonly record429: (endpoint: string) => void;
+  readonly recordTimeout: () => void;
+  readonly recordSuccess: (endpoint: string) => void;
   readonly getState: () => Readonly<RateLimitState>;
 } {
-  const state: RateLimitState = {
-    remaining: null,
-    limit: null,
-    resetAtMs: null,
-    adaptiveDelayMs: 0,
-    consecutive429s: 0,
-  };
+  const buckets = new Map<string, Bucket>();
+  let total429s = 0;
+  let totalTimeouts = 0;
+
+  function bucketFor(endpoint: string): Bucket {
+    let bucket = buckets.get(endpoint);
+    if (!bucket) {
+      bucket = {
+        endpoint,
+        limit: null,
+        remaining: null,
+        resetAtMs: null,
+        windowMs: null,
+        tokens: 0,
+        refilledAtMs: Date.now(),
+        adaptiveDelayMs: 0,
+        consecutive429s: 0,
+        total429s: 0,
+        last429AtMs: 0,
+      };
+      buckets.set(endpoint, bucket);
+    }
+    return bucket;
+  }
 
-  let last429AtMs = 0;
+  // Tokens per ms, or null while the endpoint's limit is unknown
+  function refillRate(bucket: Bucket): number | null {
+    if (bucket.limit === null || bucket.windowMs === null) return null;
+    return (bucket.limit * PACING_FACTOR) / bucket.windowMs;
+  }
 
-  function getPreRequestDelayMs(): number {
-    const now = Date.now();
+  function refill(bucket: Bucket, now: number): void {
+    const rate = refillRate(bucket);
+    if (rate !== null) {
+      bucket.tokens = Math.min(bucket.limit!, bucket.tokens + (now - bucket.refilledAtMs) * rate);
+    }
+    bucket.refilledAtMs = now;
+  }
 
-    // Header-based: if remaining is low, wait until reset
-    if (state.remaining !== null && state.remaining <= 1 && state.resetAtMs !== null) {
-      const waitMs = state.resetAtMs - now;
-      if (waitMs > 0) return waitMs + 100; // small buffer
+  function delayFor(bucket: Bucket, now: number): number {
+    const rate = refillRate(bucket);
+    // Only headerless endpoints fall back to backing off after 429s
+    if (rate === null) return bucket.adaptiveDelayMs;
+    let delayMs = bucket.tokens < 0 ? Math.ceil(-bucket.tokens / rate) : 0;
+    // The server says the window is spent: nothing refills before reset
+    if (bucket.remaining === 0 && bucket.resetAtMs !== null && bucket.resetAtMs > now) {
+      delayMs = Math.max(delayMs, bucket.resetAtMs - now + 100); // small buffer
     }
+    return delayMs;
+  }
+
+  async function acquire(endpoint: string): Promise<void> {
+    const bucket = bucketFor(endpoint);
+    const now = Date.now();
+    refill(bucket, now);
+    // Reserve the token now so concurrent callers queue behind each other
+    if (refillRate(bucket) !== null) bucket.tokens -= 1;
 
-    // Adaptive backoff for headerless endpoints
-    return state.adaptiveDelayMs;
+    const delayMs = delayFor(bucket, now);
+    if (delayMs > 0) await sleep(delayMs);
   }
 
-  function updateFromHeaders(headers: Headers): void {
-    const remaining = headers.get('x-ratelimit-remaining');
-    const limit = headers.get('x-ratelimit-limit');
-    const reset = headers.get('x-ratelimit-reset');
+  function parseHeader(headers: Headers, name: string): number | null {
+    const raw = headers.get(name);
+    if (raw === null) return null;
+    const val = Number(raw);
+    return Number.isFinite(val) ? val : null;
+  }
 
-    if (remaining !== null) {
-      const val = Number(remaining);
-      if (Number.isFinite(val)) state.remaining = val;
-    }
-    if (limit !== null) {
-      const val = Number(limit);
-      if (Number.isFinite(val)) state.limit = val;
-    }
+  function updateFromHeaders(endpoint: string, headers: Headers): void {
+    const bucket = bucketFor(endpoint);
+    const now = Date.now();
+    const remaining = parseHeader(headers, 'x-ratelimit-remaining');
+    const limit = parseHeader(headers, 'x-ratelimit-limit');
+    const reset = parseHeader(headers, 'x-ratelimit-reset');
+    if (remaining === null && limit === null && reset === null) return;
+
+    refill(bucket, now);
     if (reset !== null) {
-      const resetVal = Number(reset);
-      if (Number.isFinite(resetVal)) {
-        // Could be epoch seconds or delta seconds
-        state.resetAtMs = resetVal > 1_000_000_000
-          ? resetVal * 1000 // epoch seconds → ms
-          : Date.now() + resetVal * 1000; // delta seconds → future ms
+      // Could be epoch seconds or delta seconds
+      bucket.resetAtMs = reset > 1_000_000_000
+        ? reset * 1000 // epoch seconds → ms
+        : now + reset * 1000; // delta seconds → future ms
+      const horizonMs = bucket.resetAtMs - now;
+      if (horizonMs > 0) {
+        bucket.windowMs = Math.max(bucket.windowMs ?? MIN_WINDOW_MS, horizonMs);
       }
     }
+    if (limit !== null && limit > 0) {
+      if (bucket.limit === null) bucket.tokens = limit; // First sight: start full, then clamp
+      bucket.limit = limit;
+    }
+    if (remaining !== null) {
+      bucket.remaining = remaining;
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+    }
+    // Without a reset header, assume the common one-minute window
+    if (bucket.limit !== null && bucket.windowMs === null) bucket.windowMs = 60_000;
+
+    publish();
   }
 
-  function record429(): void {
+  function record429(endpoint: string): void {
+    const bucket = bucketFor(endpoint);
+    total429s++;
+    bucket.total429s++;
     const now = Date.now();
     // Deduplicate bursts
-    if (now - last429AtMs < LAST_429_DEDUP_WINDOW_MS) return;
-    last429AtMs = now;
+    if (now - bucket.last429AtMs < LAST_429_DEDUP_WINDOW_MS) return;
+    bucket.last429AtMs = now;
 
-    state.consecutive429s++;
-    if (state.adaptiveDelayMs === 0) {
-      state.adaptiveDelayMs = ADAPTIVE_MIN_MS;
+    bucket.consecutive429s++;
+    if (bucket.adaptiveDelayMs === 0) {
+      bucket.adaptiveDelayMs = ADAPTIVE_MIN_MS;
     } else {
-      state.adaptiveDelayMs = Math.min(
-        state.adaptiveDelayMs * ADAPTIVE_MULTIPLIER,
+      bucket.adaptiveDelayMs = Math.min(
+        bucket.adaptiveDelayMs * ADAPTIVE_MULTIPLIER,
         ADAPTIVE_MAX_MS,
       );
     }
 
     logger.warn(
-      { consecutive429s: state.consecutive429s, adaptiveDelayMs: state.adaptiveDelayMs },
+      { endpoint, consecutive429s: bucket.consecutive429s, adaptiveDelayMs: bucket.adaptiveDelayMs },
       'Rate limit hit, increasing adaptive delay',
     );
+    publish();
+  }
+
+  function recordTimeout(): void {
+    totalTimeouts++;
   }
 
-  function recordSuccess(): void {
-    if (state.consecutive429s > 0) {
-      state.consecutive429s = 0;
-      state.adaptiveDelayMs = Math.max(
-        state.adaptiveDelayMs * ADAPTIVE_DECAY,
+  function recordSuccess(endpoint: string): void {
+    const bucket = bucketFor(endpoint);
+    if (bucket.consecutive429s > 0) {
+      bucket.consecutive429s = 0;
+      bucket.adaptiveDelayMs = Math.max(
+        bucket.adaptiveDelayMs * ADAPTIVE_DECAY,
         0,
       );
-      if (state.adaptiveDelayMs < 100) {
-        state.adaptiveDelayMs = 0;
+      if (bucket.adaptiveDelayMs < 100) {
+        bucket.adaptiveDelayMs = 0;
       }
     }
   }
 
+  function toBucketState(bucket: Bucket): RateLimitBucketState {
+    const rate = refillRate(bucket);
+    return {
+      endpoint: bucket.endpoint,
+      limit: bucket.limit,
+      remaining: bucket.remaining,
+      resetAtMs: bucket.resetAtMs,
+      tokens: rate !== null ? Math.max(0, Math.floor(bucket.tokens)) : null,
+      refillPerSecond: rate !== null ? Number((rate * 1000).toFixed(3)) : null,
+      adaptiveDelayMs: bucket.adaptiveDelayMs,
+      consecutive429s: bucket.consecutive429s,
+      total429s: bucket.total429s,
+    };
+  }
+
   function getState(): Readonly<RateLimitState> {
-    return { ...state };
+    const now = Date.now();
+    for (const bucket of buckets.values()) refill(bucket, now);
+    return {
+      total429s,
+      totalTimeouts,
+      buckets: Array.from(buckets.values(), toBucketState),
+    };
+  }
+
+  function publish(): void {
+    metrics?.recordRateLimits(getState().buckets);
   }
 
-  return { getPreRequestDelayMs, updateFromHeaders, record429, recordSuccess, getState };
+  return {
+    acquire,
+    updateFromHeaders,
+    record429,
+    recordTimeout,
+    recordSuccess,
+    getState,
+  };
 }
 
 export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
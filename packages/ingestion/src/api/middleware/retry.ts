@@ -5,6 +5,11 @@ import type { HttpResponse } from '../http-client.js';
 
 type FetchFn = () => Promise<HttpResponse>;
 
+type RetryReason = 'retry-after' | 'rate-limited' | 'server-error' | 'network';
+type GiveUpReason = 'not-retryable' | 'attempts-exhausted' | 'budget-exhausted';
+
+const BUDGET_WINDOW_MS = 10_000;
+
 function isRetryable(status: number): boolean {
   return status === 429 || status >= 500 || status === 0;
 }
@@ -29,29 +34,123 @@ export function parseRetryAfter(headers: Headers): number | null {
   return null;
 }
 
+export interface RetryBudgetState {
+  readonly requests: number; // First attempts in the current window
+  readonly retries: number; // Retries in the current window
+  readonly allowed: number; // Retries the window allows
+  readonly rejected: number; // Retries refused since startup
+}
+
+export interface RetryBudget {
+  readonly recordRequest: () => void;
+  readonly tryRetry: () => boolean;
+  readonly getState: () => RetryBudgetState;
+}
+
+/**
+ * Process-wide cap on retries, shared by every `withRetry` caller. Over a
+ * sliding 10s window, retries may add up to `RETRY_BUDGET_PERCENT` of the
+ * first attempts, with `RETRY_BUDGET_MIN` always allowed so a quiet process
+ * can still retry. When an endpoint starts failing for all eight workers,
+ * the retries stop at the budget instead of multiplying the load.
+ */
+export function createRetryBudget(
+  config: Pick<AppConfig, 'retryBudgetPercent' | 'retryBudgetMin'>,
+): RetryBudget {
+  const requests: number[] = []; // Timestamps, oldest first
+  const retries: number[] = [];
+  let rejected = 0;
+
+  function prune(times: number[], now: number): void {
+    while (times.length > 0 && now - times[0]! >= BUDGET_WINDOW_MS) times.shift();
+  }
+
+  function allowed(): number {
+    return Math.max(config.retryBudgetMin, Math.floor(requests.length * config.retryBudgetPercent / 100));
+  }
+
+  function recordRequest(): void {
+    const now = Date.now();
+    prune(requests, now);
+    requests.push(now);
+  }
+
+  function tryRetry(): boolean {
+    const now = Date.now();
+    prune(requests, now);
+    prune(retries, now);
+    if (retries.length >= allowed()) {
+      rejected++;
+      return false;
+    }
+    retries.push(now);
+    return true;
+  }
+
+  function getState(): RetryBudgetState {
+    const now = Date.now();
+    prune(requests, now);
+    prune(retries, now);
+    return { requests: requests.length, retries: retries.length, allowed: allowed(), rejected };
+  }
+
+  return { recordRequest, tryRetry, getState };
+}
+
+function retryReason(err: HttpError, retryAfterMs: number | null): RetryReason {
+  if (retryAfterMs !== null) return 'retry-after';
+  if (err.status === 429) return 'rate-limited';
+  if (err.status === 0) return 'network';
+  return 'server-error';
+}
+
+/**
+ * Retries 429s, 5xx and network errors up to `MAX_RETRIES` attempts. A
+ * `Retry-After` header on the error response sets the delay, capped at
+ * `RETRY_MAX_MS`; otherwise it's exponential backoff (with jitter except for
+ * 429s). With a budget, each
+ * retry must also fit the process-wide retry budget, except 429s that
+ * carry `Retry-After`. Every decision to retry or give up is logged with
+ * its reason.
+ */
 export function withRetry(
   fn: FetchFn,
   config: AppConfig,
   logger: Logger,
   operationName: string,
+  budget?: RetryBudget,
 ): () => Promise<HttpResponse> {
   return async (): Promise<HttpResponse> => {
     let lastError: HttpError | null = null;
+    budget?.recordRequest();
 
     for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
       try {
         return await fn();
       } catch (err) {
-        if (!(err instanceof HttpError) || !isRetryable(err.status)) {
+        if (!(err instanceof HttpError)) throw err;
+        if (!isRetryable(err.status)) {
+          giveUp(err, attempt, 'not-retryable');
           throw err;
         }
-
         lastError = err;
-        let delayMs: number;
 
-        if (err.status === 429) {
-          // For rate limits, we'll get retry info from the middleware layer
-          // Here just use exponential backoff as baseline
+        if (attempt === config.maxRetries) break;
+        const retryAfterMs = err.headers ? parseRetryAfter(err.headers) : null;
+        // A 429 with Retry-After is the server pacing us, not a failure;
+        // spending the budget on it would leave none for real outages
+        const budgeted = !(err.status === 429 && retryAfterMs !== null);
+        if (budgeted && budget && !budget.tryRetry()) {
+          giveUp(err, attempt, 'budget-exhausted');
+          throw err;
+        }
+
+        let delayMs: number;
+        if (retryAfterMs !== null) {
+          // The server said when to come back; that beats any backoff guess,
+          // up to retryMaxMs so a bogus or huge value can't park the worker
+          delayMs = Math.min(retryAfterMs, config.retryMaxMs);
+        } else if (err.status === 429) {
           delayMs = Math.min(
             config.retryBaseMs * Math.pow(2, attempt - 1),
             config.retryMaxMs,
@@ -63,17 +162,35 @@ export function withRetry(
           delayMs = Math.min(base + jitter, config.retryMaxMs);
         }
 
-        logger.warn(
-          { operationName, attempt, maxRetries: config.maxRetries, status: err.status, delayMs },
-          'Retrying operation',
-        );
+        logger.warn({
+          operationName,
+          attempt,
+          maxRetries: config.maxRetries,
+          status: err.status,
+          reason: retryReason(err, retryAfterMs),
+          delayMs,
+        }, 'Retrying operation');
 
         await sleep(delayMs);
       }
     }
 
-    throw lastError ?? new HttpError('Max retries exceeded', 0, 'UNKNOWN', '');
+    if (lastError) {
+      giveUp(lastError, config.maxRetries, 'attempts-exhausted');
+      throw lastError;
+    }
+    throw new HttpError('Max retries exceeded', 0, 'UNKNOWN', '');
   };
+
+  function giveUp(err: HttpError, attempt: number, reason: GiveUpReason): void {
+    const fields = { operationName, attempt, maxRetries: config.maxRetries, status: err.status, reason };
+    // Client errors are the caller's to handle (expired cursors, auth refresh)
+    if (reason === 'not-retryable') {
+      logger.debug(fields, 'Not retrying operation');
+    } else {
+      logger.warn(fields, 'Giving up on operation');
+    }
+  }
 }
 
 function sleep(ms: number): Promise<void> {
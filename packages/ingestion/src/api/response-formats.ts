@@ -0,0 +1,281 @@
+import { normalizePage } from '../mappers.js';
+import type { NormalizedPage, PageValidation, ResponseFormat } from '../types.js';
+import type { HttpResponse } from './http-client.js';
+
+const ACCEPT: Record<ResponseFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+};
+
+// Pagination for formats without an envelope
+const HAS_MORE_HEADER = 'x-has-more';
+const NEXT_CURSOR_HEADER = 'x-next-cursor';
+const TOTAL_HEADER = 'x-total-count';
+
+interface Pagination {
+  hasMore?: unknown;
+  nextCursor?: unknown;
+  total?: unknown;
+}
+
+/**
+ * Request headers asking for `format`. JSON is the default and needs none.
+ */
+export function acceptHeaders(format: ResponseFormat | undefined): Record<string, string> {
+  return format && format !== 'json' ? { 'Accept': ACCEPT[format] } : {};
+}
+
+/**
+ * The format a response is actually in. Servers that ignore `format=`
+ * answer in JSON, which arrives already parsed; text bodies are told apart
+ * by content type, falling back to the format that was requested.
+ */
+export function responseFormat(response: HttpResponse, requested: ResponseFormat): ResponseFormat {
+  if (typeof response.body !== 'string') return 'json';
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('csv')) return 'csv';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+  return requested;
+}
+
+/**
+ * Decode a page in any response format into a `NormalizedPage`.
+ *
+ * CSV and NDJSON bodies are turned into the flat JSON page shape and go
+ * through `normalizePage`, so they are validated and their bad rows
+ * rejected the same way. Their pagination comes from `X-Has-More`,
+ * `X-Next-Cursor` and `X-Total-Count` headers, overridden by a trailer
+ * line when the body has one: an NDJSON object without an `id` that
+ * carries `hasMore`/`nextCursor` (at its root or under `pagination`), or a
+ * CSV line of `# key=value` pairs. Without `hasMore`, a next cursor means
+ * there is more.
+ */
+export function decodePage(
+  response: HttpResponse,
+  requested: ResponseFormat,
+  validation: PageValidation,
+): NormalizedPage {
+  const format = responseFormat(response, requested);
+  if (format === 'json') return normalizePage(response.body, validation);
+
+  const text = typeof response.body === 'string' ? response.body : '';
+  const { rows, trailer } = format === 'csv' ? decodeCsv(text) : decodeNdjson(text);
+  const pagination: Pagination = { ...headerPagination(response.headers), ...trailer };
+  if (pagination.hasMore === undefined && pagination.nextCursor !== undefined) {
+    pagination.hasMore = typeof pagination.nextCursor === 'string' && pagination.nextCursor.length > 0;
+  }
+
+  return normalizePage({
+    data: rows,
+    hasMore: pagination.hasMore,
+    nextCursor: pagination.nextCursor ?? null,
+    meta: { total: pagination.total ?? null },
+  }, validation);
+}
+
+function headerPagination(headers: Headers): Pagination {
+  const pagination: Pagination = {};
+  const hasMore = headers.get(HAS_MORE_HEADER);
+  if (hasMore !== null) pagination.hasMore = parseBoolean(hasMore);
+  const nextCursor = headers.get(NEXT_CURSOR_HEADER);
+  if (nextCursor !== null) pagination.nextCursor = nextCursor;
+  const total = headers.get(TOTAL_HEADER);
+  if (total !== null && Number.isFinite(Number(total))) pagination.total = Number(total);
+  return pagination;
+}
+
+// Anything but true/false stays as sent, for page validation to report
+function parseBoolean(value: string): unknown {
+  const lower = value.trim().toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  return value;
+}
+
+// ── NDJSON ──
+
+function isRecord(val: unknown): val is Record<string, unknown> {
+  return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+function trailerOf(value: unknown): Pagination | null {
+  if (!isRecord(value) || 'id' in value) return null;
+  const source = isRecord(value['pagination']) ? value['pagination'] : value;
+  if (!('hasMore' in source) && !('nextCursor' in source)) return null;
+
+  const trailer: Pagination = {};
+  if ('hasMore' in source) trailer.hasMore = source['hasMore'];
+  if ('nextCursor' in source) trailer.nextCursor = source['nextCursor'];
+  const total = isRecord(value['meta']) ? value['meta']['total'] : source['total'];
+  if (total !== undefined) trailer.total = total;
+  return trailer;
+}
+
+/**
+ * One event per line. A line that isn't valid JSON is kept as its text, so
+ * it is rejected (and quarantined) like any other item that isn't an event.
+ */
+function decodeNdjson(text: string): { rows: unknown[]; trailer: Pagination } {
+  const rows: unknown[] = [];
+  let trailer: Pagination = {};
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      rows.push(trimmed);
+      continue;
+    }
+    const pagination = trailerOf(value);
+    if (pagination) trailer = pagination;
+    else rows.push(value);
+  }
+  return { rows, trailer };
+}
+
+// ── CSV ──
+
+interface CsvField {
+  readonly text: string;
+  readonly quoted: boolean; // Written in double quotes
+}
+
+/**
+ * RFC 4180 records: comma-separated, fields optionally double-quoted with
+ * `""` for a quote, and quoted fields may span lines. Lines starting with
+ * `#` outside a record are comments and returned separately.
+ */
+function parseCsvRecords(text: string): { records: CsvField[][]; comments: string[] } {
+  const records: CsvField[][] = [];
+  const comments: string[] = [];
+  let record: CsvField[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let quoted = false;
+  let atRecordStart = true;
+
+  function endField(): void {
+    record.push({ text: field, quoted: fieldQuoted });
+    field = '';
+    fieldQuoted = false;
+  }
+
+  function endRecord(): void {
+    endField();
+    if (record.length > 1 || record[0]!.text !== '') records.push(record);
+    record = [];
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (atRecordStart && c === '#') {
+      const end = text.indexOf('\n', i);
+      comments.push(text.slice(i + 1, end === -1 ? text.length : end).trim());
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+    atRecordStart = false;
+
+    if (c === '"') {
+      quoted = true;
+      fieldQuoted = true;
+    } else if (c === ',') {
+      endField();
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      atRecordStart = true;
+    } else {
+      field += c;
+    }
+  }
+  endRecord();
+  return { records, comments };
+}
+
+// Cells written from JSON values: numbers, booleans, null and nested
+// objects or arrays (as JSON text)
+const JSON_LITERAL = /^(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)$/;
+
+// Cells that read as a JSON value other than a string get their type back,
+// so a CSV page maps to the same events as the JSON page; the rest, and
+// event ids, stay strings. A quoted number, boolean or null is a string
+// that looks like one; objects and arrays are quoted whenever they hold a
+// comma or quote, so those are parsed either way
+function csvValue(column: string, cell: CsvField): unknown {
+  const { text } = cell;
+  if (column === 'id') return text;
+  const first = text.trimStart()[0];
+  const literal = !cell.quoted && JSON_LITERAL.test(text);
+  if (first !== '{' && first !== '[' && !literal) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Trailer values may be percent-encoded; take malformed ones as sent
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function csvTrailer(comments: readonly string[]): Pagination {
+  const trailer: Pagination = {};
+  for (const comment of comments) {
+    for (const pair of comment.split(/\s+/)) {
+      const eq = pair.indexOf('=');
+      if (eq <= 0) continue;
+      const key = pair.slice(0, eq);
+      const value = decodeComponent(pair.slice(eq + 1));
+      if (key === 'hasMore') trailer.hasMore = parseBoolean(value);
+      else if (key === 'nextCursor') trailer.nextCursor = value === '' || value === 'null' ? null : value;
+      else if (key === 'total' && Number.isFinite(Number(value))) trailer.total = Number(value);
+    }
+  }
+  return trailer;
+}
+
+/**
+ * A header row names the columns; each following row becomes an event
+ * keyed by column name. Rows with a different number of cells than the
+ * header are kept as their cells, so they are rejected rather than misread.
+ */
+function decodeCsv(text: string): { rows: unknown[]; trailer: Pagination } {
+  const { records, comments } = parseCsvRecords(text);
+  const [header, ...body] = records;
+  const columns = header?.map((field) => field.text) ?? [];
+  const rows: unknown[] = [];
+  for (const cells of body) {
+    if (cells.length !== columns.length) {
+      rows.push(cells.map((field) => field.text));
+      continue;
+    }
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      row[column] = csvValue(column, cells[i]!);
+    });
+    rows.push(row);
+  }
+  return { rows, trailer: csvTrailer(comments) };
+}
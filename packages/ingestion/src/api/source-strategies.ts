@@ -0,0 +1,100 @@
+import type { AppConfig } from '../types.js';
+import type { HttpClient, HttpResponse } from './http-client.js';
+import type { StreamAccessManager } from './stream-access.js';
+import type { FetchPageParams } from './events-source.js';
+import { getAuthHeaders } from './middleware/auth.js';
+import { acceptHeaders } from './response-formats.js';
+
+const FEED_PATH = '/api/v1/events/d4ta/x7k9/feed';
+
+/**
+ * One way of reading a page of events. Strategies return the raw response,
+ * asking for `params.format` when it isn't JSON; the events source handles
+ * retries, rate limiting and decoding.
+ */
+export interface SourceStrategy {
+  readonly name: string;
+  readonly fetch: (params: FetchPageParams) => Promise<HttpResponse>;
+  // Drop cached credentials after a 401/403 so one retry can refresh them
+  readonly invalidateAuth?: () => void;
+}
+
+export interface SourceStrategyDeps {
+  readonly httpClient: HttpClient;
+  readonly streamManager: StreamAccessManager;
+  readonly config: AppConfig;
+}
+
+export type SourceStrategyFactory = (deps: SourceStrategyDeps) => SourceStrategy;
+
+const registry = new Map<string, SourceStrategyFactory>();
+
+/**
+ * Register a strategy under `name` so `SOURCE_STRATEGIES` can select it.
+ * Registering an existing name replaces it.
+ */
+export function registerSourceStrategy(name: string, factory: SourceStrategyFactory): void {
+  registry.set(name, factory);
+}
+
+export function listSourceStrategies(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Build the named strategies in preference order.
+ */
+export function createSourceStrategies(
+  names: readonly string[],
+  deps: SourceStrategyDeps,
+): SourceStrategy[] {
+  return names.map((name) => {
+    const factory = registry.get(name);
+    if (!factory) {
+      throw new Error(
+        `Unknown source strategy "${name}" (registered: ${listSourceStrategies().join(', ')})`,
+      );
+    }
+    return factory(deps);
+  });
+}
+
+// ── Built-in strategies ──
+
+// Dashboard stream feed: token from /internal/dashboard/stream-access
+registerSourceStrategy('stream', ({ httpClient, streamManager, config }) => ({
+  name: 'stream',
+  fetch: async (params) => {
+    const access = await streamManager.get();
+    const origin = new URL(config.apiBaseUrl).origin;
+    const url = new URL(`${origin}${access.endpoint || FEED_PATH}`);
+
+    url.searchParams.set('limit', String(params.limit));
+    if (params.cursor) url.searchParams.set('cursor', params.cursor);
+    if (params.since) url.searchParams.set('since', String(params.since));
+    if (params.until) url.searchParams.set('until', String(params.until));
+    if (params.format && params.format !== 'json') url.searchParams.set('format', params.format);
+
+    return httpClient.get(url.toString(), {
+      ...acceptHeaders(params.format),
+      [access.tokenHeader]: access.token,
+      'X-API-Key': config.apiKey,
+      'Origin': origin,
+      'Referer': `${origin}/`,
+    });
+  },
+  invalidateAuth: () => streamManager.invalidate(),
+}));
+
+// Documented /api/v1/events endpoint
+registerSourceStrategy('events', ({ httpClient, config }) => ({
+  name: 'events',
+  fetch: async (params) => {
+    const url = new URL(`${config.apiBaseUrl}/events`);
+    url.searchParams.set('limit', String(params.limit));
+    if (params.cursor) url.searchParams.set('cursor', params.cursor);
+    if (params.format && params.format !== 'json') url.searchParams.set('format', params.format);
+
+    return httpClient.get(url.toString(), { ...acceptHeaders(params.format), ...getAuthHeaders(config) });
+  },
+}));
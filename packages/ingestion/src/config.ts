@@ -1,3 +1,4 @@
+import { hostname } from 'node:os';
 import type { AppConfig } from './types.js';
 
 function mustGetEnv(key: string): string {
@@ -23,6 +24,12 @@ function getIntEnv(key: string, fallback: number): number {
   return parsed;
 }
 
+function getOptionalIntEnv(key: string): number | null {
+  const raw = process.env[key];
+  if (raw === undefined || raw === '') return null;
+  return getIntEnv(key, 0);
+}
+
 function getBoolEnv(key: string, fallback: boolean): boolean {
   const raw = process.env[key];
   if (raw === undefined || raw === '') return fallback;
@@ -31,8 +38,13 @@ function getBoolEnv(key: string, fallback: boolean): boolean {
 
 export function loadConfig(): AppConfig {
   const mode = getEnv('MODE', 'ingest');
-  if (mode !== 'ingest' && mode !== 'explore') {
-    throw new Error(`MODE must be "ingest" or "explore", got: ${mode}`);
+  if (
+    mode !== 'ingest' && mode !== 'explore' && mode !== 'follow' &&
+    mode !== 'runs' && mode !== 'backfill' && mode !== 'repair' && mode !== 'reprocess'
+  ) {
+    throw new Error(
+      `MODE must be "ingest", "explore", "follow", "runs", "backfill", "repair" or "reprocess", got: ${mode}`,
+    );
   }
 
   const pgSyncCommit = getEnv('PG_SYNC_COMMIT', 'off');
@@ -46,11 +58,72 @@ export function loadConfig(): AppConfig {
     throw new Error(`MIN_TIMESTAMP_MS (${minTimestampMs}) must be less than MAX_TIMESTAMP_MS (${maxTimestampMs})`);
   }
 
+  const timeRangeCheck = getEnv('TIME_RANGE_CHECK', 'warn');
+  if (timeRangeCheck !== 'warn' && timeRangeCheck !== 'fail' && timeRangeCheck !== 'off') {
+    throw new Error(`TIME_RANGE_CHECK must be "warn", "fail" or "off", got: ${timeRangeCheck}`);
+  }
+
+  const pageValidation = getEnv('PAGE_VALIDATION', 'lenient');
+  if (pageValidation !== 'strict' && pageValidation !== 'lenient') {
+    throw new Error(`PAGE_VALIDATION must be "strict" or "lenient", got: ${pageValidation}`);
+  }
+
+  const responseFormat = getEnv('RESPONSE_FORMAT', 'json');
+  if (responseFormat !== 'json' && responseFormat !== 'csv' && responseFormat !== 'ndjson') {
+    throw new Error(`RESPONSE_FORMAT must be "json", "csv" or "ndjson", got: ${responseFormat}`);
+  }
+
+  // Window backfill: [BACKFILL_SINCE, BACKFILL_UNTIL) in epoch ms
+  const backfillSinceMs = getOptionalIntEnv('BACKFILL_SINCE');
+  const backfillUntilMs = getOptionalIntEnv('BACKFILL_UNTIL');
+  if (mode === 'backfill') {
+    if (backfillSinceMs === null || backfillUntilMs === null) {
+      throw new Error('MODE=backfill requires BACKFILL_SINCE and BACKFILL_UNTIL');
+    }
+    if (backfillSinceMs >= backfillUntilMs) {
+      throw new Error(`BACKFILL_SINCE (${backfillSinceMs}) must be less than BACKFILL_UNTIL (${backfillUntilMs})`);
+    }
+  }
+
+  // Record API traffic to fixtures, or serve a previous recording offline
+  const httpRecordDir = getEnv('HTTP_RECORD_DIR', '') || null;
+  const httpReplayDir = getEnv('HTTP_REPLAY_DIR', '') || null;
+  if (httpRecordDir !== null && httpReplayDir !== null) {
+    throw new Error('HTTP_RECORD_DIR and HTTP_REPLAY_DIR cannot both be set');
+  }
+
+  // Gap repair: file of event ids that should exist
+  const repairIdsFile = getEnv('REPAIR_IDS_FILE', '') || null;
+  if (mode === 'repair' && repairIdsFile === null) {
+    throw new Error('MODE=repair requires REPAIR_IDS_FILE');
+  }
+
+  const sourceStrategies = getEnv('SOURCE_STRATEGIES', 'stream,events')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+  if (sourceStrategies.length === 0) {
+    throw new Error('SOURCE_STRATEGIES must name at least one strategy');
+  }
+
+  const jobId = getEnv('JOB_ID', 'default');
+  if (!/^[A-Za-z0-9_.-]{1,64}$/.test(jobId)) {
+    throw new Error(`JOB_ID must be 1-64 characters of [A-Za-z0-9_.-], got: ${jobId}`);
+  }
+
+  // Interpolated into SQL, so only plain lowercase identifiers are accepted
+  const eventsTable = getEnv('EVENTS_TABLE', 'ingested_events');
+  if (!/^[a-z_][a-z0-9_]{0,62}$/.test(eventsTable)) {
+    throw new Error(`EVENTS_TABLE must be a lowercase SQL identifier, got: ${eventsTable}`);
+  }
+
   return {
     databaseUrl: mustGetEnv('DATABASE_URL'),
     apiBaseUrl: normalizeApiBaseUrl(mustGetEnv('API_BASE_URL')),
     apiKey: mustGetEnv('TARGET_API_KEY'),
     mode,
+    jobId,
+    eventsTable,
     partitionCount: Math.max(1, getIntEnv('PARTITION_COUNT', 8)),
     batchSize: Math.min(5000, Math.max(1, getIntEnv('BATCH_SIZE', 5000))),
     dbWriteConcurrency: Math.max(1, getIntEnv('DB_WRITE_CONCURRENCY', 2)),
@@ -61,14 +134,66 @@ export function loadConfig(): AppConfig {
     githubRepoUrl: getEnv('GITHUB_REPO_URL', ''),
     minTimestampMs,
     maxTimestampMs,
+    timeRangeCheck,
     progressLogIntervalMs: getIntEnv('PROGRESS_LOG_INTERVAL_MS', 15000),
     requestTimeoutMs: getIntEnv('REQUEST_TIMEOUT_MS', 45000),
     maxRetries: getIntEnv('MAX_RETRIES', 8),
     retryBaseMs: getIntEnv('RETRY_BASE_MS', 250),
     retryMaxMs: getIntEnv('RETRY_MAX_MS', 15000),
+    retryBudgetPercent: Math.max(0, getIntEnv('RETRY_BUDGET_PERCENT', 20)),
+    retryBudgetMin: Math.max(0, getIntEnv('RETRY_BUDGET_MIN', 10)),
+    circuitBreaker: getBoolEnv('CIRCUIT_BREAKER', true),
+    circuitFailurePercent: Math.min(100, Math.max(1, getIntEnv('CIRCUIT_FAILURE_PERCENT', 50))),
+    circuitMinRequests: Math.min(20, Math.max(1, getIntEnv('CIRCUIT_MIN_REQUESTS', 10))),
+    circuitOpenMs: Math.max(1000, getIntEnv('CIRCUIT_OPEN_MS', 30000)),
+    workStealing: getBoolEnv('WORK_STEALING', true),
+    stealMinRangeMs: Math.max(1, getIntEnv('STEAL_MIN_RANGE_MS', 60000)),
+    densitySamples: Math.max(0, getIntEnv('DENSITY_SAMPLES', 32)),
+    densitySampleSize: Math.min(5000, Math.max(1, getIntEnv('DENSITY_SAMPLE_SIZE', 200))),
+    followPollIntervalMs: Math.max(1000, getIntEnv('FOLLOW_POLL_INTERVAL_MS', 30000)),
+    workerMaxRestarts: Math.max(0, getIntEnv('WORKER_MAX_RESTARTS', 3)),
+    workerRestartBaseMs: Math.max(1, getIntEnv('WORKER_RESTART_BASE_MS', 1000)),
+    workerRestartMaxMs: Math.max(1, getIntEnv('WORKER_RESTART_MAX_MS', 30000)),
+    leasing: getBoolEnv('LEASING', false),
+    leaseOwner: getEnv('LEASE_OWNER', `${hostname()}-${process.pid}`),
+    leaseTtlMs: Math.max(3000, getIntEnv('LEASE_TTL_MS', 30000)),
+    adaptiveConcurrency: getBoolEnv('ADAPTIVE_CONCURRENCY', true),
+    concurrencyMin: Math.max(1, getIntEnv('CONCURRENCY_MIN', 1)),
+    concurrencyIntervalMs: Math.max(500, getIntEnv('CONCURRENCY_INTERVAL_MS', 5000)),
+    backfillSinceMs,
+    backfillUntilMs,
+    sourceStrategies,
+    sourceBenchmark: getBoolEnv('SOURCE_BENCHMARK', true),
+    sourceBenchmarkRequests: Math.max(1, getIntEnv('SOURCE_BENCHMARK_REQUESTS', 2)),
+    sourceRecoveryMs: Math.max(0, getIntEnv('SOURCE_RECOVERY_MS', 60000)),
+    cursorCheck: getBoolEnv('CURSOR_CHECK', true),
+    pageValidation,
+    streamJson: getBoolEnv('STREAM_JSON', false),
+    responseFormat,
+    httpRecordDir,
+    httpReplayDir,
+    repairIdsFile,
+    repairBatchSize: Math.min(1000, Math.max(1, getIntEnv('REPAIR_BATCH_SIZE', 100))),
   };
 }
 
+/**
+ * Config snapshot safe to persist: the API key is dropped and the database
+ * password masked.
+ */
+export function redactConfig(config: AppConfig): Record<string, unknown> {
+  const { apiKey: _apiKey, ...rest } = config;
+  let databaseUrl = config.databaseUrl;
+  try {
+    const url = new URL(config.databaseUrl);
+    if (url.password) url.password = '***';
+    databaseUrl = url.toString();
+  } catch {
+    databaseUrl = '***';
+  }
+  return { ...rest, databaseUrl };
+}
+
 function normalizeApiBaseUrl(url: string): string {
   // Strip trailing slash
   let normalized = url.replace(/\/+$/, '');
@@ -0,0 +1,200 @@
+import type { Pool } from '../db/pool.js';
+import type { AppConfig, RunStatus, WorkerCheckpoint } from '../types.js';
+import { RunStatus as RS, WorkerFailedError, WorkerStatus as WS } from '../types.js';
+import type { EventsSource } from '../api/events-source.js';
+import type { Logger } from '../logger.js';
+import type { Metrics } from './metrics.js';
+import { redactConfig } from '../config.js';
+import { createTimestampChunks } from './cursor-forge.js';
+import { createDbQueue } from './db-queue.js';
+import { runWorker } from './worker.js';
+import { superviseWorker } from './supervisor.js';
+import { countEventsInRange } from '../db/events-repo.js';
+import { startIngestionRun, finishIngestionRun } from '../db/runs-repo.js';
+import {
+  loadWorkerCheckpoints,
+  loadWorkerCheckpoint,
+  initializeWorkerCheckpoints,
+  markWorkerFailed,
+} from '../db/worker-state-repo.js';
+
+export interface WindowBackfillDeps {
+  readonly pool: Pool;
+  readonly config: AppConfig;
+  readonly source: EventsSource;
+  readonly logger: Logger;
+  readonly metrics: Metrics;
+}
+
+export interface WindowBackfillReport {
+  readonly jobId: string;
+  readonly sinceTs: number;
+  readonly untilTs: number;
+  readonly newEvents: number;
+  readonly alreadyPresent: number;
+  readonly totalInWindow: number;
+}
+
+export interface WindowBackfill {
+  readonly run: () => Promise<WindowBackfillReport>;
+  readonly stop: () => Promise<void>;
+}
+
+/**
+ * Checkpoints of a window live under their own job id, so a window backfill
+ * never touches the parent job's `worker_checkpoints` rows and resumes
+ * independently.
+ */
+export function windowJobId(jobId: string, sinceTs: number, untilTs: number): string {
+  return `${jobId}.window.${sinceTs}-${untilTs}`;
+}
+
+/**
+ * One-off backfill of `[BACKFILL_SINCE, BACKFILL_UNTIL)`. The window is split
+ * into `PARTITION_COUNT` equal chunks, each run by `runWorker` from a forged
+ * cursor at its upper bound. Inserts are idempotent, so the report splits
+ * the window's events into those this job added and those already present.
+ */
+export function createWindowBackfill(deps: WindowBackfillDeps): WindowBackfill {
+  const { pool, config, source, logger, metrics } = deps;
+  if (config.backfillSinceMs === null || config.backfillUntilMs === null) {
+    throw new Error('Window backfill requires BACKFILL_SINCE and BACKFILL_UNTIL');
+  }
+  const sinceTs = config.backfillSinceMs;
+  const untilTs = config.backfillUntilMs;
+  const jobId = windowJobId(config.jobId, sinceTs, untilTs);
+
+  const dbQueue = createDbQueue(pool, config.dbWriteConcurrency, config.maxPendingWrites, {
+    jobId,
+    eventsTable: config.eventsTable,
+    leaseOwner: null,
+  });
+
+  let stopping = false;
+  let runId: number | null = null;
+  let runStartedAtMs = 0;
+
+  async function prepareCheckpoints(): Promise<WorkerCheckpoint[]> {
+    const saved = await loadWorkerCheckpoints(pool, jobId);
+    if (saved.length > 0) {
+      logger.info({ jobId, workers: saved.length }, 'Resuming window backfill');
+      return saved;
+    }
+
+    // createTimestampChunks treats endTs as inclusive
+    const count = Math.max(1, Math.min(config.partitionCount, untilTs - sinceTs));
+    const chunks = createTimestampChunks(sinceTs, untilTs - 1, count);
+    await initializeWorkerCheckpoints(pool, chunks, jobId);
+    return loadWorkerCheckpoints(pool, jobId);
+  }
+
+  async function finish(status: RunStatus, report: WindowBackfillReport | null, failures: string[]): Promise<void> {
+    if (runId === null) return;
+    const id = runId;
+    runId = null;
+
+    const workerResults = metrics.getWorkerStatuses().map((w) => ({
+      workerId: w.workerId,
+      status: w.status,
+      fetchedCount: w.fetchedCount,
+      insertedCount: w.insertedCount,
+    }));
+    await finishIngestionRun(pool, id, {
+      status,
+      durationMs: Date.now() - runStartedAtMs,
+      totalFetched: workerResults.reduce((sum, w) => sum + w.fetchedCount, 0),
+      totalInserted: report?.newEvents ?? workerResults.reduce((sum, w) => sum + w.insertedCount, 0),
+      failureReasons: failures,
+      workerResults,
+    });
+  }
+
+  async function run(): Promise<WindowBackfillReport> {
+    runStartedAtMs = Date.now();
+    runId = await startIngestionRun(pool, { jobId, mode: 'backfill', config: redactConfig(config) });
+
+    logger.info({
+      jobId,
+      sinceTs,
+      untilTs,
+      since: new Date(sinceTs).toISOString(),
+      until: new Date(untilTs).toISOString(),
+    }, 'Window backfill starting');
+
+    const failures: string[] = [];
+    try {
+      const checkpoints = await prepareCheckpoints();
+      const active = checkpoints.filter((cp) => cp.status !== WS.COMPLETED);
+
+      const results = await Promise.allSettled(active.map((checkpoint) => superviseWorker(
+        checkpoint,
+        (cp) => runWorker(cp, {
+          source,
+          dbQueue,
+          logger,
+          batchSize: config.batchSize,
+          shouldStop: () => stopping,
+          onProgress: (id, fetched, inserted) => {
+            metrics.updateWorker(id, fetched, inserted, WS.RUNNING);
+          },
+          onQuarantine: (items) => metrics.recordQuarantined(items),
+        }),
+        {
+          maxRestarts: config.workerMaxRestarts,
+          restartBaseMs: config.workerRestartBaseMs,
+          restartMaxMs: config.workerRestartMaxMs,
+          logger,
+          shouldStop: () => stopping,
+          loadCheckpoint: (id) => loadWorkerCheckpoint(pool, id, jobId),
+          markFailed: (id, error) => markWorkerFailed(pool, id, error, jobId),
+        },
+      ).then((result) => {
+        metrics.updateWorker(result.workerId, result.fetchedCount, result.insertedCount, result.status);
+      })));
+      await dbQueue.drain();
+
+      for (const r of results) {
+        if (r.status === 'rejected') {
+          failures.push(r.reason instanceof Error ? r.reason.message : String(r.reason));
+        }
+      }
+      if (failures.length > 0) {
+        const failedIds = results
+          .map((r) => (r.status === 'rejected' && r.reason instanceof WorkerFailedError ? r.reason.checkpoint.workerId : null))
+          .filter((id): id is number => id !== null);
+        throw new Error(`${failures.length} window worker(s) failed: workers ${failedIds.join(', ')}`);
+      }
+
+      // Inserted counts are cumulative on the checkpoints, so resumed runs report the whole window
+      const finalCheckpoints = await loadWorkerCheckpoints(pool, jobId);
+      const newEvents = finalCheckpoints.reduce((sum, cp) => sum + cp.insertedCount, 0);
+      const totalInWindow = await countEventsInRange(pool, sinceTs, untilTs, config.eventsTable);
+      const report: WindowBackfillReport = {
+        jobId,
+        sinceTs,
+        untilTs,
+        newEvents,
+        alreadyPresent: Math.max(0, totalInWindow - newEvents),
+        totalInWindow,
+      };
+
+      await finish(stopping ? RS.INTERRUPTED : RS.COMPLETED, report, failures);
+      logger.info({ ...report, interrupted: stopping }, 'Window backfill finished');
+      return report;
+    } catch (err) {
+      if (failures.length === 0) failures.push(err instanceof Error ? err.message : String(err));
+      await finish(RS.FAILED, null, failures).catch((recordErr: unknown) => {
+        logger.error({ err: recordErr }, 'Failed to record window backfill run');
+      });
+      throw err;
+    }
+  }
+
+  async function stop(): Promise<void> {
+    stopping = true;
+    await dbQueue.drain();
+    await finish(RS.INTERRUPTED, null, []);
+  }
+
+  return { run, stop };
+}
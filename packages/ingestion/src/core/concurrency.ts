@@ -0,0 +1,176 @@
+import type { ConcurrencyDecision, ConcurrencyReason, ConcurrencyState } from '../types.js';
+import type { EventsSource } from '../api/events-source.js';
+import type { RateLimiter } from '../api/middleware/rate-limit.js';
+import type { Metrics } from './metrics.js';
+import type { Logger } from '../logger.js';
+
+const DECREASE_FACTOR = 0.5;
+const LATENCY_TOLERANCE = 2; // Latency EMA above 2x the best seen is unhealthy
+const MAX_DECISIONS = 20;
+
+export interface ConcurrencyControllerDeps {
+  readonly rateLimiter: Pick<RateLimiter, 'getState'>;
+  readonly metrics: Pick<Metrics, 'getFetchLatencyMs' | 'recordConcurrency'>;
+  readonly logger: Logger;
+  readonly min: number;
+  readonly max: number;
+  readonly intervalMs: number;
+}
+
+export interface ConcurrencyController {
+  readonly acquire: () => Promise<() => void>;
+  readonly evaluate: () => ConcurrencyDecision | null;
+  readonly getState: () => ConcurrencyState;
+  readonly start: () => void;
+  readonly stop: () => void;
+}
+
+/**
+ * AIMD controller for the number of page fetches in flight.
+ *
+ * Every interval it reads the 429 and timeout counters from the rate
+ * limiter and the fetch latency EMA from metrics. New 429s or timeouts
+ * halve the limit; a latency EMA above twice the best seen holds it;
+ * otherwise a saturated limit grows by one. It starts at `max`, so a
+ * healthy API behaves exactly as without the controller.
+ */
+export function createConcurrencyController(deps: ConcurrencyControllerDeps): ConcurrencyController {
+  const { rateLimiter, metrics, logger } = deps;
+  const max = Math.max(1, deps.max);
+  const min = Math.min(Math.max(1, deps.min), max);
+
+  let limit = max;
+  let active = 0;
+  const waiters: Array<() => void> = [];
+  const decisions: ConcurrencyDecision[] = [];
+  let seen429s = rateLimiter.getState().total429s;
+  let seenTimeouts = rateLimiter.getState().totalTimeouts;
+  let bestLatencyMs: number | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  function pump(): void {
+    while (active < limit && waiters.length > 0) {
+      active++;
+      waiters.shift()!();
+    }
+  }
+
+  function acquire(): Promise<() => void> {
+    let released = false;
+    const release = (): void => {
+      if (released) return;
+      released = true;
+      active--;
+      pump();
+    };
+
+    if (active < limit && waiters.length === 0) {
+      active++;
+      return Promise.resolve(release);
+    }
+    return new Promise((resolve) => {
+      waiters.push(() => resolve(release));
+    });
+  }
+
+  function evaluate(): ConcurrencyDecision | null {
+    const rl = rateLimiter.getState();
+    const new429s = rl.total429s - seen429s;
+    const newTimeouts = rl.totalTimeouts - seenTimeouts;
+    seen429s = rl.total429s;
+    seenTimeouts = rl.totalTimeouts;
+
+    const latencyMs = metrics.getFetchLatencyMs();
+    if (latencyMs !== null) {
+      bestLatencyMs = bestLatencyMs === null ? latencyMs : Math.min(bestLatencyMs, latencyMs);
+    }
+
+    let reason: ConcurrencyReason;
+    let next = limit;
+    if (new429s > 0 || newTimeouts > 0) {
+      reason = new429s > 0 ? 'rate-limited' : 'timeout';
+      next = Math.max(min, Math.floor(limit * DECREASE_FACTOR));
+    } else if (latencyMs !== null && bestLatencyMs !== null && latencyMs > bestLatencyMs * LATENCY_TOLERANCE) {
+      reason = 'latency';
+    } else {
+      reason = 'healthy';
+      // Only grow a limit that is actually the bottleneck
+      const saturated = active >= limit || waiters.length > 0;
+      if (saturated) next = Math.min(max, limit + 1);
+    }
+
+    let decision: ConcurrencyDecision | null = null;
+    if (next !== limit || reason !== 'healthy') {
+      decision = {
+        atMs: Date.now(),
+        previousLimit: limit,
+        limit: next,
+        reason,
+        new429s,
+        newTimeouts,
+        fetchLatencyMs: latencyMs !== null ? Math.round(latencyMs) : null,
+      };
+      decisions.push(decision);
+      if (decisions.length > MAX_DECISIONS) decisions.shift();
+
+      if (next !== limit) {
+        logger.info({ ...decision }, 'Concurrency limit adjusted');
+      }
+      limit = next;
+      pump();
+    }
+
+    metrics.recordConcurrency(getState());
+    return decision;
+  }
+
+  function getState(): ConcurrencyState {
+    return {
+      limit,
+      min,
+      max,
+      active,
+      waiting: waiters.length,
+      decisions: [...decisions],
+    };
+  }
+
+  function start(): void {
+    if (timer !== null) return;
+    metrics.recordConcurrency(getState());
+    timer = setInterval(evaluate, deps.intervalMs);
+  }
+
+  function stop(): void {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  return { acquire, evaluate, getState, start, stop };
+}
+
+/**
+ * Gate an events source on the controller's limit and feed successful
+ * fetch latencies back into metrics.
+ */
+export function withConcurrencyLimit(
+  source: EventsSource,
+  controller: Pick<ConcurrencyController, 'acquire'>,
+  metrics: Pick<Metrics, 'recordFetchLatency'>,
+): EventsSource {
+  return {
+    fetchPage: async (params) => {
+      const release = await controller.acquire();
+      try {
+        const startedAt = Date.now();
+        const page = await source.fetchPage(params);
+        metrics.recordFetchLatency(Date.now() - startedAt);
+        return page;
+      } finally {
+        release();
+      }
+    },
+  };
+}
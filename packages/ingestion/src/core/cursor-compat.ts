@@ -0,0 +1,94 @@
+import type { EventsSource } from '../api/events-source.js';
+import type { Logger } from '../logger.js';
+import type { RawEvent } from '../types.js';
+import { HttpError } from '../types.js';
+import { decodeCursor, forgeCursor } from './cursor-forge.js';
+import { normalizeTimestampMs } from '../mappers.js';
+
+const PROBE_LIMIT = 10;
+
+export interface CursorCompatibility {
+  readonly compatible: boolean;
+  // False when the API had too few events to page, so nothing was tested
+  readonly verified: boolean;
+  readonly problems: readonly string[];
+}
+
+/**
+ * Check that forged cursors still match what the API hands out.
+ *
+ * Reads the newest page, decodes its real `nextCursor` and compares its
+ * fields and version with a forged one. Then forges a cursor at the newest
+ * event's timestamp: since the API pages DESC, it must return the newest
+ * event strictly older than that, which the first page already shows.
+ */
+export async function checkCursorCompatibility(
+  source: EventsSource,
+  logger: Logger,
+): Promise<CursorCompatibility> {
+  const first = await source.fetchPage({ limit: PROBE_LIMIT, cursor: null });
+  const timestamps = pageTimestamps(first.events);
+
+  if (first.nextCursor === null || timestamps.length === 0) {
+    logger.info('Too few events to verify cursor forging, assuming compatible');
+    return { compatible: true, verified: false, problems: [] };
+  }
+
+  const problems: string[] = [];
+
+  // 1. Shape: same fields and version as a forged cursor
+  const real = decodeCursor(first.nextCursor);
+  const forged = decodeCursor(forgeCursor(0))!;
+  if (real === null) {
+    problems.push('nextCursor is not base64url-encoded JSON');
+  } else {
+    const realFields = Object.keys(real).sort();
+    const forgedFields = Object.keys(forged).sort();
+    if (realFields.join(',') !== forgedFields.join(',')) {
+      problems.push(`nextCursor fields [${realFields.join(', ')}] differ from forged [${forgedFields.join(', ')}]`);
+    }
+    if (real['v'] !== forged['v']) {
+      problems.push(`nextCursor version ${JSON.stringify(real['v'])} differs from forged ${JSON.stringify(forged['v'])}`);
+    }
+  }
+
+  // 2. Position: a forged cursor at the newest ts returns the next older event
+  const newestTs = timestamps[0]!;
+  const expectedTs = timestamps.find((ts) => ts < newestTs) ?? null;
+  try {
+    const probe = await source.fetchPage({ limit: 1, cursor: forgeCursor(newestTs) });
+    const gotTs = pageTimestamps(probe.events)[0] ?? null;
+    if (gotTs === null) {
+      if (expectedTs !== null) {
+        problems.push(`forged cursor at ${newestTs} returned no events, expected one at ${expectedTs}`);
+      }
+    } else if (gotTs >= newestTs) {
+      problems.push(`forged cursor at ${newestTs} returned an event at ${gotTs}, not an older one`);
+    } else if (expectedTs !== null && gotTs !== expectedTs) {
+      problems.push(`forged cursor at ${newestTs} returned an event at ${gotTs}, expected ${expectedTs}`);
+    }
+  } catch (err) {
+    if (!(err instanceof HttpError && err.status === 400)) throw err;
+    problems.push(`API rejected a forged cursor: ${err.message}`);
+  }
+
+  if (problems.length > 0) {
+    logger.warn({ problems, nextCursor: real }, 'Forged cursors are not compatible with the API');
+  } else {
+    logger.info({ newestTs, expectedTs }, 'Cursor forging verified');
+  }
+  return { compatible: problems.length === 0, verified: true, problems };
+}
+
+// Parseable timestamps, newest first
+function pageTimestamps(events: readonly RawEvent[]): number[] {
+  const timestamps: number[] = [];
+  for (const event of events) {
+    try {
+      timestamps.push(normalizeTimestampMs(event.timestamp));
+    } catch {
+      // Unparseable timestamps are skipped by ingestion too
+    }
+  }
+  return timestamps.sort((a, b) => b - a);
+}
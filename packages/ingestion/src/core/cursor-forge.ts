@@ -4,12 +4,22 @@ const NULL_UUID = '00000000-0000-0000-0000-000000000000';
 const FAR_FUTURE_EXP = 4102444800000; // year 2100
 
 /**
- * Forge a synthetic cursor that positions the API at the given timestamp.
- * The API resolves cursor position by `ts`, not `id`.
+ * Position of an event in the API's order. The API pages DESC by `ts`, then
+ * by `id`, and a cursor returns the events strictly after its `(ts, id)`.
  */
-export function forgeCursor(timestampMs: number): string {
+export interface EventPosition {
+  readonly ts: number;
+  readonly id: string;
+}
+
+/**
+ * Forge a synthetic cursor that positions the API at the given event. The
+ * null UUID sorts below every id, so without an id the cursor returns the
+ * events strictly older than `timestampMs`.
+ */
+export function forgeCursor(timestampMs: number, eventId: string = NULL_UUID): string {
   const payload = JSON.stringify({
-    id: NULL_UUID,
+    id: eventId,
     ts: timestampMs,
     v: 2,
     exp: FAR_FUTURE_EXP,
@@ -18,20 +28,46 @@ export function forgeCursor(timestampMs: number): string {
 }
 
 /**
- * Decode a cursor to extract its timestamp. Returns null if invalid.
+ * Decode a cursor's JSON payload. Returns null if it is not a base64url
+ * encoded JSON object.
  */
-export function decodeCursorTimestamp(cursor: string): number | null {
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
   try {
-    const json = fromBase64Url(cursor);
-    const parsed = JSON.parse(json) as Record<string, unknown>;
-    const ts = parsed['ts'];
-    if (typeof ts === 'number' && Number.isFinite(ts)) return ts;
-    return null;
+    const parsed: unknown = JSON.parse(fromBase64Url(cursor));
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    return parsed as Record<string, unknown>;
   } catch {
     return null;
   }
 }
 
+/**
+ * Decode a cursor to extract its timestamp. Returns null if invalid.
+ */
+export function decodeCursorTimestamp(cursor: string): number | null {
+  const ts = decodeCursor(cursor)?.['ts'];
+  if (typeof ts === 'number' && Number.isFinite(ts)) return ts;
+  return null;
+}
+
+/**
+ * Compare two positions in ascending `(ts, id)` order, the reverse of the
+ * order the API pages in.
+ */
+export function compareEventPositions(a: EventPosition, b: EventPosition): number {
+  if (a.ts !== b.ts) return a.ts - b.ts;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? -1 : 1;
+}
+
+/**
+ * Position of a partition boundary at `ts`: every event at `ts` sorts at or
+ * above it, so composite and timestamp-only bounds select the same events.
+ */
+export function boundaryPosition(timestampMs: number): EventPosition {
+  return { ts: timestampMs, id: NULL_UUID };
+}
+
 /**
  * Create timestamp chunks by dividing a time range into N equal partitions.
  */
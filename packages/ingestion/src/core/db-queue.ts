@@ -1,16 +1,19 @@
 import pLimit from 'p-limit';
 import type { Pool, PoolClient } from '../db/pool.js';
-import type { IngestionEvent } from '../types.js';
+import type { IngestionEvent, QuarantineItem, WriteScope } from '../types.js';
 import { insertEvents } from '../db/events-repo.js';
+import { insertQuarantined } from '../db/quarantine-repo.js';
 import { upsertWorkerCheckpoint } from '../db/worker-state-repo.js';
 import type { WorkerStatus } from '../types.js';
 
 interface WriteTask {
   readonly events: readonly IngestionEvent[];
+  readonly quarantined?: readonly QuarantineItem[];
   readonly checkpoint: {
     readonly workerId: number;
     readonly cursor: string | null;
     readonly lastTs: number | null;
+    readonly lastEventId: string | null;
     readonly fetchedCount: number;
     readonly insertedCount: number;
     readonly status: WorkerStatus;
@@ -27,6 +30,7 @@ export function createDbQueue(
   pool: Pool,
   concurrency: number,
   maxPending: number,
+  scope: WriteScope,
 ): DbQueue {
   const limiter = pLimit(concurrency);
   const pending = new Set<Promise<number>>();
@@ -35,8 +39,9 @@ export function createDbQueue(
     const client: PoolClient = await pool.connect();
     try {
       await client.query('BEGIN');
-      const inserted = await insertEvents(client, task.events);
-      await upsertWorkerCheckpoint(client, task.checkpoint);
+      const inserted = await insertEvents(client, task.events, scope.eventsTable);
+      await insertQuarantined(client, task.quarantined ?? [], scope.jobId);
+      await upsertWorkerCheckpoint(client, task.checkpoint, scope.jobId, scope.leaseOwner);
       await client.query('COMMIT');
       return inserted;
     } catch (err) {
@@ -55,7 +60,8 @@ export function createDbQueue(
 
     const promise = limiter(() => executeWrite(task));
     pending.add(promise);
-    promise.finally(() => pending.delete(promise));
+    // Handle both outcomes: a failed write rejects for its caller only
+    promise.then(() => pending.delete(promise), () => pending.delete(promise));
 
     return promise;
   }
@@ -0,0 +1,139 @@
+import type { EventsSource } from '../api/events-source.js';
+import type { DensitySample, TimestampChunk } from '../types.js';
+import type { Logger } from '../logger.js';
+import { forgeCursor, createTimestampChunks } from './cursor-forge.js';
+import { normalizeTimestampMs } from '../mappers.js';
+
+/**
+ * Sample event density by forging a cursor at the top of each of
+ * `sampleCount` equal-width segments and reading one small page.
+ * Probes run sequentially to stay well inside the rate limit.
+ */
+export async function sampleEventDensity(
+  source: EventsSource,
+  startTs: number,
+  endTs: number,
+  sampleCount: number,
+  sampleSize: number,
+  logger: Logger,
+): Promise<DensitySample[]> {
+  const rangeEnd = endTs + 1; // Exclusive, matching createTimestampChunks
+  const width = (rangeEnd - startTs) / sampleCount;
+  const samples: DensitySample[] = [];
+
+  for (let i = 0; i < sampleCount; i++) {
+    const segmentStartTs = Math.floor(startTs + width * i);
+    const probeTs = i === sampleCount - 1 ? rangeEnd : Math.floor(startTs + width * (i + 1));
+
+    const page = await source.fetchPage({ limit: sampleSize, cursor: forgeCursor(probeTs) });
+
+    const timestamps: number[] = [];
+    for (const event of page.events) {
+      try {
+        timestamps.push(normalizeTimestampMs(event.timestamp));
+      } catch {
+        // Unparseable timestamps are skipped by ingestion too
+      }
+    }
+
+    const oldestTs = timestamps.length > 0 ? Math.min(...timestamps) : null;
+    const inSegment = timestamps.filter((ts) => ts >= segmentStartTs).length;
+    const spanMs = oldestTs !== null ? probeTs - oldestTs : 0;
+
+    let estimatedCount: number;
+    if (page.events.length < sampleSize || oldestTs === null || oldestTs < segmentStartTs) {
+      // The page reached past the segment (or the dataset), so the count is exact
+      estimatedCount = inSegment;
+    } else {
+      // Dense segment: extrapolate the density near the top across the segment
+      estimatedCount = Math.round((timestamps.length / Math.max(1, spanMs)) * (probeTs - segmentStartTs));
+    }
+
+    samples.push({
+      segmentStartTs,
+      probeTs,
+      returned: timestamps.length,
+      spanMs,
+      estimatedCount,
+      total: page.total,
+    });
+  }
+
+  applyTotalDeltas(samples);
+
+  logger.info({
+    sampleCount,
+    sampleSize,
+    estimatedEvents: samples.reduce((sum, s) => sum + s.estimatedCount, 0),
+  }, 'Event density sampled');
+
+  return samples;
+}
+
+/**
+ * If the API reports `meta.total` as the number of events below the cursor,
+ * consecutive differences are exact segment counts and replace the estimates.
+ * A constant total (the dataset size) carries no positional information and
+ * is ignored.
+ */
+function applyTotalDeltas(samples: DensitySample[]): void {
+  const totals = samples.map((s) => s.total);
+  if (totals.some((t) => t === null)) return;
+  const values = totals as number[];
+  if (values.every((t) => t === values[0])) return;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i]! < values[i - 1]!) return;
+  }
+
+  for (let i = 0; i < samples.length; i++) {
+    const below = i === 0 ? 0 : values[i - 1]!;
+    samples[i] = { ...samples[i]!, estimatedCount: values[i]! - below };
+  }
+}
+
+/**
+ * Build `count` chunks over `[startTs, endTs]` holding roughly equal numbers
+ * of events, assuming uniform density within each sampled segment.
+ * Falls back to equal-width chunks when the samples hold no events.
+ */
+export function createDensityChunks(
+  startTs: number,
+  endTs: number,
+  count: number,
+  samples: readonly DensitySample[],
+): TimestampChunk[] {
+  const totalEvents = samples.reduce((sum, s) => sum + s.estimatedCount, 0);
+  if (samples.length === 0 || totalEvents <= 0) {
+    return createTimestampChunks(startTs, endTs, count);
+  }
+
+  const rangeEnd = endTs + 1;
+  const boundaries: number[] = [startTs];
+  let segment = 0;
+  let cumulative = 0;
+
+  for (let j = 1; j < count; j++) {
+    const target = (totalEvents * j) / count;
+
+    while (segment < samples.length - 1 && cumulative + samples[segment]!.estimatedCount < target) {
+      cumulative += samples[segment]!.estimatedCount;
+      segment++;
+    }
+
+    const s = samples[segment]!;
+    const fraction = s.estimatedCount > 0 ? (target - cumulative) / s.estimatedCount : 0;
+    const boundary = Math.floor(s.segmentStartTs + fraction * (s.probeTs - s.segmentStartTs));
+
+    // Keep every chunk at least 1ms wide and leave room for the rest
+    const lowest = boundaries[j - 1]! + 1;
+    const highest = rangeEnd - (count - j);
+    boundaries.push(Math.min(Math.max(boundary, lowest), highest));
+  }
+  boundaries.push(rangeEnd);
+
+  const chunks: TimestampChunk[] = [];
+  for (let i = 0; i < count; i++) {
+    chunks.push({ startTs: boundaries[i]!, endTs: boundaries[i + 1]! });
+  }
+  return chunks;
+}
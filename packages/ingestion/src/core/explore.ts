@@ -77,6 +77,10 @@ export async function runExploration(
     'X-API-Key': config.apiKey,
   }, 'GET /events?format=csv', results, logger);
 
+  await probe(httpClient, `${config.apiBaseUrl}/events?limit=1&format=ndjson`, {
+    'X-API-Key': config.apiKey,
+  }, 'GET /events?format=ndjson', results, logger);
+
   await probe(httpClient, `${config.apiBaseUrl}/events?limit=1&order=asc`, {
     'X-API-Key': config.apiKey,
   }, 'GET /events?order=asc', results, logger);
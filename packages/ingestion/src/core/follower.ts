@@ -0,0 +1,160 @@
+import type { Pool, PoolClient } from '../db/pool.js';
+import type { AppConfig, FollowCheckpoint, IngestionEvent, QuarantineItem } from '../types.js';
+import type { EventsSource } from '../api/events-source.js';
+import type { Logger } from '../logger.js';
+import type { Metrics } from './metrics.js';
+import { mapRawEvents } from '../mappers.js';
+import { insertEvents, getMaxIngestedTimestamp } from '../db/events-repo.js';
+import { insertQuarantined } from '../db/quarantine-repo.js';
+import { loadFollowCheckpoint, saveFollowCheckpoint } from '../db/follow-state-repo.js';
+
+export interface FollowerDeps {
+  readonly pool: Pool;
+  readonly config: AppConfig;
+  readonly source: EventsSource;
+  readonly logger: Logger;
+  readonly metrics?: Pick<Metrics, 'recordQuarantined'>;
+}
+
+export interface Follower {
+  readonly run: () => Promise<void>;
+  readonly pollOnce: () => Promise<number>;
+  readonly stop: () => void;
+}
+
+/**
+ * Tail the feed after the backfill: poll the newest pages and ingest events
+ * at or above the persisted high-water mark.
+ *
+ * The API pages DESC, so a poll reads newest-first down to the high-water
+ * mark. Every page is inserted in its own transaction, but the mark only
+ * advances with the last page of a poll — a crash mid-poll re-fetches the
+ * gap and `ON CONFLICT DO NOTHING` absorbs the overlap.
+ */
+export function createFollower(deps: FollowerDeps): Follower {
+  const { pool, config, source, logger, metrics } = deps;
+  let stopping = false;
+  let state: FollowCheckpoint | null = null;
+  let wake: (() => void) | null = null;
+
+  async function loadState(): Promise<FollowCheckpoint> {
+    if (state !== null) return state;
+
+    const saved = await loadFollowCheckpoint(pool, config.jobId);
+    if (saved !== null) {
+      state = saved;
+    } else {
+      const maxTs = await getMaxIngestedTimestamp(pool, config.eventsTable);
+      state = { highWaterTs: maxTs ?? config.maxTimestampMs, insertedCount: 0 };
+    }
+
+    logger.info({ jobId: config.jobId, highWaterTs: state.highWaterTs }, 'Follow high-water mark loaded');
+    return state;
+  }
+
+  async function writeBatch(
+    events: readonly IngestionEvent[],
+    quarantined: readonly QuarantineItem[],
+    checkpoint: FollowCheckpoint,
+  ): Promise<number> {
+    const client: PoolClient = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const inserted = await insertEvents(client, events, config.eventsTable);
+      await insertQuarantined(client, quarantined, config.jobId);
+      await saveFollowCheckpoint(client, {
+        highWaterTs: checkpoint.highWaterTs,
+        insertedCount: checkpoint.insertedCount + inserted,
+      }, config.jobId);
+      await client.query('COMMIT');
+      return inserted;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {/* ignore rollback errors */});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async function pollOnce(): Promise<number> {
+    const start = await loadState();
+    const highWaterTs = start.highWaterTs;
+    let insertedCount = start.insertedCount;
+    let newestTs = highWaterTs;
+    let cursor: string | null = null;
+    let pages = 0;
+
+    for (;;) {
+      const page = await source.fetchPage({ limit: config.batchSize, cursor });
+      pages++;
+
+      const { events, rejected } = mapRawEvents(page.events);
+      const quarantined: QuarantineItem[] = [...page.rejected ?? [], ...rejected]
+        .map((item) => ({ ...item, workerId: null, cursor }));
+      if (quarantined.length > 0) {
+        logger.warn({ cursor, count: quarantined.length }, 'Quarantining rejected page items');
+        metrics?.recordQuarantined(quarantined);
+      }
+      // Events at the mark itself are re-read so same-millisecond arrivals are kept
+      const fresh = events.filter((e) => e.timestampMs >= highWaterTs);
+      for (const event of fresh) {
+        if (event.timestampMs > newestTs) newestTs = event.timestampMs;
+      }
+
+      const reachedMark = fresh.length < events.length || !page.hasMore || !page.nextCursor;
+      const checkpoint: FollowCheckpoint = {
+        highWaterTs: reachedMark ? newestTs : highWaterTs,
+        insertedCount,
+      };
+
+      if (fresh.length > 0 || quarantined.length > 0 || reachedMark) {
+        insertedCount += await writeBatch(fresh, quarantined, checkpoint);
+      }
+
+      if (reachedMark || stopping) {
+        if (reachedMark) state = { highWaterTs: newestTs, insertedCount };
+        break;
+      }
+      cursor = page.nextCursor;
+    }
+
+    const inserted = insertedCount - start.insertedCount;
+    if (inserted > 0) {
+      logger.info({ inserted, pages, highWaterTs: newestTs }, 'Follow poll ingested new events');
+    } else {
+      logger.debug({ pages, highWaterTs: newestTs }, 'Follow poll found no new events');
+    }
+    return inserted;
+  }
+
+  async function run(): Promise<void> {
+    logger.info({ pollIntervalMs: config.followPollIntervalMs }, 'Follow mode started');
+
+    while (!stopping) {
+      try {
+        await pollOnce();
+      } catch (err) {
+        // A failed poll leaves the mark untouched; the next poll retries the gap
+        logger.error({ err }, 'Follow poll failed');
+      }
+      if (stopping) break;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, config.followPollIntervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    }
+
+    logger.info('Follow mode stopped');
+  }
+
+  function stop(): void {
+    stopping = true;
+    wake?.();
+  }
+
+  return { run, pollOnce, stop };
+}
@@ -10,13 +10,16 @@ export function startHealthServer(
   const server = createServer((req, res) => {
     if (req.url === '/health') {
       const snapshot = metrics.getSnapshot();
+      // Still 200: an open circuit pauses fetching, the process is fine
+      const degraded = snapshot.circuits.some((c) => c.status !== 'closed');
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
-        status: 'healthy',
+        status: degraded ? 'degraded' : 'healthy',
         uptime: Math.round(snapshot.uptimeSeconds),
         totalInserted: snapshot.totalInserted,
         throughputEps: Math.round(snapshot.throughputEps),
         activeWorkers: snapshot.activeWorkers,
+        circuits: snapshot.circuits.map((c) => ({ endpoint: c.endpoint, status: c.status, openedAtMs: c.openedAtMs })),
       }));
       return;
     }
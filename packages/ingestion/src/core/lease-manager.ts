@@ -0,0 +1,99 @@
+import type { Pool } from '../db/pool.js';
+import type { LeaseOptions, WorkerCheckpoint } from '../types.js';
+import type { Logger } from '../logger.js';
+import {
+  claimWorkerCheckpoint,
+  renewLeases,
+  releaseLease,
+} from '../db/worker-state-repo.js';
+
+export interface LeaseManager {
+  readonly claim: () => Promise<WorkerCheckpoint | null>;
+  readonly adopt: (workerId: number) => void;
+  readonly isHeld: (workerId: number) => boolean;
+  readonly markLost: (workerId: number) => void;
+  readonly release: (workerId: number, opts?: { abandon?: boolean }) => Promise<void>;
+  readonly heartbeat: () => Promise<void>;
+  readonly start: () => void;
+  readonly stop: () => Promise<void>;
+}
+
+/**
+ * Track the checkpoint leases this process holds and keep them alive.
+ *
+ * Heartbeats run every third of the TTL, so a lease survives two missed
+ * beats. A lease that fails to renew was claimed by another process after
+ * it expired; its worker must stop, and `isHeld` turns false for it.
+ * Abandoned checkpoints (workers that gave up) are released for other
+ * processes but never re-claimed by this one.
+ */
+export function createLeaseManager(
+  pool: Pool,
+  jobId: string,
+  lease: LeaseOptions,
+  logger: Logger,
+): LeaseManager {
+  const held = new Set<number>();
+  const abandoned = new Set<number>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  async function claim(): Promise<WorkerCheckpoint | null> {
+    const checkpoint = await claimWorkerCheckpoint(pool, jobId, lease, [...abandoned, ...held]);
+    if (checkpoint !== null) {
+      held.add(checkpoint.workerId);
+      logger.info({ workerId: checkpoint.workerId, owner: lease.owner }, 'Claimed checkpoint lease');
+    }
+    return checkpoint;
+  }
+
+  function adopt(workerId: number): void {
+    held.add(workerId);
+  }
+
+  function isHeld(workerId: number): boolean {
+    return held.has(workerId);
+  }
+
+  function markLost(workerId: number): void {
+    if (held.delete(workerId)) {
+      logger.warn({ workerId, owner: lease.owner }, 'Checkpoint lease lost to another process');
+    }
+  }
+
+  async function release(workerId: number, opts: { abandon?: boolean } = {}): Promise<void> {
+    if (opts.abandon) abandoned.add(workerId);
+    if (!held.delete(workerId)) return;
+    await releaseLease(pool, jobId, lease.owner, workerId);
+  }
+
+  async function heartbeat(): Promise<void> {
+    const ids = [...held];
+    const renewed = new Set(await renewLeases(pool, jobId, lease, ids));
+    for (const id of ids) {
+      if (!renewed.has(id)) markLost(id);
+    }
+  }
+
+  function start(): void {
+    if (timer !== null) return;
+    timer = setInterval(() => {
+      heartbeat().catch((err: unknown) => {
+        // Leases outlive a missed beat; the next one retries
+        logger.warn({ err }, 'Lease heartbeat failed');
+      });
+    }, Math.floor(lease.ttlMs / 3));
+  }
+
+  async function stop(): Promise<void> {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    const ids = [...held];
+    await Promise.all(ids.map((id) => release(id).catch((err: unknown) => {
+      logger.warn({ workerId: id, err }, 'Failed to release lease; it will expire');
+    })));
+  }
+
+  return { claim, adopt, isHeld, markLost, release, heartbeat, start, stop };
+}
@@ -1,4 +1,15 @@
-import type { MetricsSnapshot, WorkerMetrics, WorkerStatus } from '../types.js';
+import type {
+  CircuitState,
+  ConcurrencyState,
+  MetricsSnapshot,
+  PageAnomaly,
+  RateLimitBucketState,
+  RejectedItem,
+  RejectionReason,
+  SourceState,
+  WorkerMetrics,
+  WorkerStatus,
+} from '../types.js';
 
 export interface Metrics {
   readonly updateWorker: (workerId: number, fetched: number, inserted: number, status: WorkerStatus) => void;
@@ -7,6 +18,14 @@ export interface Metrics {
   readonly getTotalInserted: () => number;
   readonly getThroughputEps: () => number;
   readonly getEta: () => number | null;
+  readonly recordFetchLatency: (ms: number) => void;
+  readonly getFetchLatencyMs: () => number | null;
+  readonly recordConcurrency: (state: ConcurrencyState) => void;
+  readonly recordSource: (state: SourceState) => void;
+  readonly recordRateLimits: (buckets: readonly RateLimitBucketState[]) => void;
+  readonly trackCircuits: (getState: () => readonly CircuitState[]) => void;
+  readonly recordQuarantined: (items: readonly RejectedItem[]) => void;
+  readonly recordPageAnomalies: (anomalies: readonly PageAnomaly[]) => void;
 }
 
 const TARGET_EVENTS = 3_000_000;
@@ -17,6 +36,13 @@ export function createMetrics(_partitionCount: number): Metrics {
   let lastThroughputCalcMs = startTime;
   let lastInsertedAtCalc = 0;
   let throughputEma: number | null = null;
+  let fetchLatencyEma: number | null = null;
+  let concurrency: ConcurrencyState | null = null;
+  let source: SourceState | null = null;
+  let rateLimits: readonly RateLimitBucketState[] = [];
+  let circuitState: () => readonly CircuitState[] = () => [];
+  const quarantined: Partial<Record<RejectionReason, number>> = {};
+  const pageAnomalies: Partial<Record<PageAnomaly, number>> = {};
 
   function ema(prev: number | null, value: number, alpha = 0.2): number {
     return prev === null ? value : prev + alpha * (value - prev);
@@ -76,6 +102,48 @@ export function createMetrics(_partitionCount: number): Metrics {
     return remaining / eps;
   }
 
+  function recordFetchLatency(ms: number): void {
+    fetchLatencyEma = ema(fetchLatencyEma, ms);
+  }
+
+  function getFetchLatencyMs(): number | null {
+    return fetchLatencyEma;
+  }
+
+  function recordConcurrency(state: ConcurrencyState): void {
+    concurrency = state;
+  }
+
+  function recordSource(state: SourceState): void {
+    source = state;
+  }
+
+  function recordRateLimits(buckets: readonly RateLimitBucketState[]): void {
+    rateLimits = buckets;
+  }
+
+  // Read at snapshot time: a circuit turns half-open by the clock alone
+  function trackCircuits(getState: () => readonly CircuitState[]): void {
+    circuitState = getState;
+  }
+
+  function recordQuarantined(items: readonly RejectedItem[]): void {
+    for (const item of items) {
+      quarantined[item.reason] = (quarantined[item.reason] ?? 0) + 1;
+    }
+  }
+
+  function recordPageAnomalies(anomalies: readonly PageAnomaly[]): void {
+    for (const anomaly of new Set(anomalies)) {
+      pageAnomalies[anomaly] = (pageAnomalies[anomaly] ?? 0) + 1;
+    }
+  }
+
+  function lowestRemaining(): number | null {
+    const known = rateLimits.flatMap((b) => (b.remaining !== null ? [b.remaining] : []));
+    return known.length > 0 ? Math.min(...known) : null;
+  }
+
   function getWorkerStatuses(): readonly WorkerMetrics[] {
     return Array.from(workers.values()).sort((a, b) => a.workerId - b.workerId);
   }
@@ -94,7 +162,14 @@ export function createMetrics(_partitionCount: number): Metrics {
       activeWorkers: active,
       workers: getWorkerStatuses(),
       uptimeSeconds: (Date.now() - startTime) / 1000,
-      rateLimitRemaining: null,
+      rateLimitRemaining: lowestRemaining(),
+      rateLimits,
+      fetchLatencyMsEma: fetchLatencyEma,
+      concurrency,
+      source,
+      circuits: circuitState(),
+      quarantined: { ...quarantined },
+      pageAnomalies: { ...pageAnomalies },
     };
   }
 
@@ -105,5 +180,13 @@ export function createMetrics(_partitionCount: number): Metrics {
     getTotalInserted,
     getThroughputEps,
     getEta,
+    recordFetchLatency,
+    getFetchLatencyMs,
+    recordConcurrency,
+    recordSource,
+    recordRateLimits,
+    trackCircuits,
+    recordQuarantined,
+    recordPageAnomalies,
   };
 }
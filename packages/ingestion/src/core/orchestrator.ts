@@ -1,18 +1,36 @@
 import type { Pool } from '../db/pool.js';
-import type { AppConfig } from '../types.js';
-import { WorkerStatus as WS } from '../types.js';
+import type { AppConfig, PartitionLayout, RunStatus, RunWorkerResult, WorkerCheckpoint } from '../types.js';
+import { LeaseLostError, RunStatus as RS, WorkerFailedError, WorkerStatus as WS } from '../types.js';
+import { redactConfig } from '../config.js';
+import { startIngestionRun, finishIngestionRun } from '../db/runs-repo.js';
 import type { EventsSource } from '../api/events-source.js';
 import type { DbQueue } from './db-queue.js';
 import type { Logger } from '../logger.js';
 import { createTimestampChunks } from './cursor-forge.js';
 import { discoverTimeRange } from './time-range.js';
+import { checkCursorCompatibility } from './cursor-compat.js';
+import { sampleEventDensity, createDensityChunks } from './density.js';
+import { loadPartitionLayout, savePartitionLayout } from '../db/layout-repo.js';
 import {
   loadWorkerCheckpoints,
+  loadWorkerCheckpoint,
   initializeWorkerCheckpoints,
-  resetAllCheckpoints,
+  replaceWorkerCheckpoints,
+  splitWorkerCheckpoint,
+  markWorkerFailed,
+  withJobLock,
+  countForeignLeases,
 } from '../db/worker-state-repo.js';
 import { runWorker } from './worker.js';
+import type { WorkerResult } from './worker.js';
+import { superviseWorker } from './supervisor.js';
+import { createLeaseManager } from './lease-manager.js';
 import type { Metrics } from './metrics.js';
+import { createPartitionTracker } from './work-stealing.js';
+import { computeUncoveredRanges, planUncoveredChunks } from './replan.js';
+
+// Sequential pagination reads the whole feed from the newest page down
+const SEQUENTIAL_END_TS = Number.MAX_SAFE_INTEGER - 1;
 
 export interface OrchestratorDeps {
   readonly pool: Pool;
@@ -27,55 +45,330 @@ export interface Orchestrator {
   readonly run: () => Promise<void>;
   readonly stopFetching: () => void;
   readonly saveAllCheckpoints: () => Promise<void>;
+  readonly markInterrupted: () => Promise<void>;
 }
 
 export function createOrchestrator(deps: OrchestratorDeps): Orchestrator {
   const { pool, config, source, dbQueue, logger, metrics } = deps;
   let stopping = false;
+  // Set when forged cursors fail the startup check
+  let sequential = false;
+
+  // Run history state for the current run
+  let runId: number | null = null;
+  let runStartedAtMs = 0;
+  const failureReasons: string[] = [];
+  const baselines = new Map<number, { fetched: number; inserted: number }>();
 
   function stopFetching(): void {
     stopping = true;
   }
 
-  async function run(): Promise<void> {
-    logger.info({
-      partitionCount: config.partitionCount,
-      batchSize: config.batchSize,
-      dbWriteConcurrency: config.dbWriteConcurrency,
-      pgSyncCommit: config.pgSyncCommit,
-    }, 'Orchestrator starting');
-
-    // 1. Discover time range
+  async function planPartitionLayout(): Promise<PartitionLayout> {
     const timeRange = await discoverTimeRange(
       source,
       config.minTimestampMs,
       config.maxTimestampMs,
       logger,
+      config.timeRangeCheck,
     );
 
-    // 2. Create timestamp chunks
-    const chunks = createTimestampChunks(
-      timeRange.startTs,
-      timeRange.endTs,
-      config.partitionCount,
+    let layout: PartitionLayout;
+    if (config.densitySamples > 0) {
+      const samples = await sampleEventDensity(
+        source,
+        timeRange.startTs,
+        timeRange.endTs,
+        config.densitySamples,
+        config.densitySampleSize,
+        logger,
+      );
+      layout = {
+        strategy: 'density',
+        startTs: timeRange.startTs,
+        endTs: timeRange.endTs,
+        partitionCount: config.partitionCount,
+        chunks: createDensityChunks(timeRange.startTs, timeRange.endTs, config.partitionCount, samples),
+        samples,
+      };
+    } else {
+      layout = {
+        strategy: 'equal',
+        startTs: timeRange.startTs,
+        endTs: timeRange.endTs,
+        partitionCount: config.partitionCount,
+        chunks: createTimestampChunks(timeRange.startTs, timeRange.endTs, config.partitionCount),
+        samples: [],
+      };
+    }
+
+    logger.info({
+      strategy: layout.strategy,
+      boundaries: layout.chunks.map((c) => c.startTs),
+      samples: layout.samples.map((s) => ({ probeTs: s.probeTs, estimatedCount: s.estimatedCount })),
+    }, 'Partition layout planned');
+
+    return layout;
+  }
+
+  /**
+   * Without cursor forging one worker pages the feed from the newest event.
+   * Ranges saved checkpoints already covered are skipped by filtering, but
+   * still paged through, so the single chunk spans from the oldest to the
+   * newest uncovered timestamp. Other live processes' partitions are left
+   * alone: the replan would delete them.
+   */
+  async function prepareSequentialCheckpoints(
+    savedLayout: PartitionLayout | null,
+    saved: readonly WorkerCheckpoint[],
+  ): Promise<void> {
+    if (savedLayout?.strategy === 'sequential') {
+      logger.info('Reusing saved sequential layout');
+      await initializeWorkerCheckpoints(pool, savedLayout.chunks, config.jobId);
+      return;
+    }
+    if (config.leasing) {
+      const foreign = await countForeignLeases(pool, config.jobId, config.leaseOwner);
+      if (foreign > 0) {
+        throw new Error(
+          `Cannot fall back to sequential pagination: other processes hold ${foreign} lease(s) on job ${config.jobId}`,
+        );
+      }
+    }
+
+    const uncovered = computeUncoveredRanges({ startTs: 0, endTs: SEQUENTIAL_END_TS + 1 }, saved);
+    const chunks = uncovered.length > 0
+      ? [{ startTs: uncovered[0]!.startTs, endTs: uncovered[uncovered.length - 1]!.endTs }]
+      : [];
+    const layout: PartitionLayout = {
+      strategy: 'sequential',
+      startTs: 0,
+      endTs: SEQUENTIAL_END_TS,
+      partitionCount: 1,
+      chunks,
+      samples: [],
+    };
+    logger.warn({ savedCheckpoints: saved.length, chunks }, 'Planning sequential single-worker pagination');
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await savePartitionLayout(client, layout, config.jobId);
+      await replaceWorkerCheckpoints(client, chunks, config.jobId);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {/* ignore rollback errors */});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Re-plan existing checkpoints onto a new layout: only the time ranges no
+   * saved checkpoint has covered are handed to the new worker set. The new
+   * layout and checkpoints are swapped in one transaction.
+   */
+  async function replanCheckpoints(
+    layout: PartitionLayout,
+    saved: readonly WorkerCheckpoint[],
+  ): Promise<void> {
+    const uncovered = computeUncoveredRanges(
+      { startTs: layout.startTs, endTs: layout.endTs + 1 },
+      saved,
     );
+    const chunks = planUncoveredChunks(uncovered, config.partitionCount);
 
-    // 3. Load existing checkpoints and detect config changes
-    const savedCheckpoints = await loadWorkerCheckpoints(pool);
+    const uncoveredMs = uncovered.reduce((sum, r) => sum + (r.endTs - r.startTs), 0);
+    logger.warn({
+      savedCheckpoints: saved.length,
+      partitionCount: config.partitionCount,
+      uncoveredRanges: uncovered.length,
+      uncoveredPct: Number(((uncoveredMs / (layout.endTs + 1 - layout.startTs)) * 100).toFixed(1)),
+      newChunks: chunks.length,
+    }, 'Partition layout changed — re-planning uncovered ranges');
 
-    if (savedCheckpoints.length > 0 && savedCheckpoints.length !== config.partitionCount) {
-      logger.warn(
-        { saved: savedCheckpoints.length, current: config.partitionCount },
-        'Partition count changed — resetting all checkpoints',
-      );
-      await resetAllCheckpoints(pool);
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await savePartitionLayout(client, { ...layout, chunks }, config.jobId);
+      await replaceWorkerCheckpoints(client, chunks, config.jobId);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {/* ignore rollback errors */});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Checkpoints still short of completion after the workers stopped. Falls
+   * back to the failed workers' last known checkpoints if the DB is down.
+   */
+  async function loadIncompletePartitions(
+    failed: readonly WorkerFailedError[],
+  ): Promise<WorkerCheckpoint[]> {
+    try {
+      const checkpoints = await loadWorkerCheckpoints(pool, config.jobId);
+      return checkpoints.filter((cp) => cp.status !== WS.COMPLETED);
+    } catch (err) {
+      logger.error({ err }, 'Could not load checkpoints to report incomplete partitions');
+      return failed.map((f) => f.checkpoint);
+    }
+  }
+
+  // Workers page DESC, so what remains of a partition is everything up to lastTs
+  function describeRemaining(cp: WorkerCheckpoint): string {
+    const endTs = cp.lastTs !== null ? Math.min(cp.chunkEndTs, cp.lastTs + 1) : cp.chunkEndTs;
+    return `worker ${cp.workerId} [${cp.chunkStartTs}, ${endTs})`;
+  }
+
+  function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  /**
+   * Record how the current run ended. Worker counts are reported relative to
+   * their checkpoints at start, so the totals are what this run added.
+   */
+  async function finishRun(status: RunStatus): Promise<void> {
+    if (runId === null) return;
+    const id = runId;
+    runId = null;
+
+    const workerResults: RunWorkerResult[] = metrics.getWorkerStatuses().map((w) => {
+      const base = baselines.get(w.workerId) ?? { fetched: 0, inserted: 0 };
+      return {
+        workerId: w.workerId,
+        status: w.status,
+        fetchedCount: w.fetchedCount - base.fetched,
+        insertedCount: w.insertedCount - base.inserted,
+      };
+    });
+
+    const summary = {
+      status,
+      durationMs: Date.now() - runStartedAtMs,
+      totalFetched: workerResults.reduce((sum, w) => sum + w.fetchedCount, 0),
+      totalInserted: workerResults.reduce((sum, w) => sum + w.insertedCount, 0),
+      failureReasons,
+      workerResults,
+    };
+
+    await finishIngestionRun(pool, id, summary);
+    logger.info({
+      runId: id,
+      status,
+      totalInserted: summary.totalInserted,
+      durationMs: summary.durationMs,
+    }, 'Ingestion run recorded');
+  }
+
+  async function run(): Promise<void> {
+    runStartedAtMs = Date.now();
+    runId = await startIngestionRun(pool, {
+      jobId: config.jobId,
+      mode: config.mode,
+      config: redactConfig(config),
+    });
+
+    try {
+      await ingest();
+    } catch (err) {
+      failureReasons.push(errorMessage(err));
+      await finishRun(RS.FAILED).catch((recordErr: unknown) => {
+        logger.error({ err: recordErr }, 'Failed to record ingestion run');
+      });
+      throw err;
+    }
+    await finishRun(stopping ? RS.INTERRUPTED : RS.COMPLETED);
+  }
+
+  /**
+   * Re-planning replaces every checkpoint row, which would pull partitions
+   * out from under other live processes. Keep their layout instead.
+   */
+  async function layoutInUseElsewhere(layout: PartitionLayout): Promise<boolean> {
+    if (!config.leasing) return false;
+    const foreign = await countForeignLeases(pool, config.jobId, config.leaseOwner);
+    if (foreign === 0) return false;
+    logger.warn({
+      savedPartitionCount: layout.partitionCount,
+      partitionCount: config.partitionCount,
+      foreignLeases: foreign,
+    }, 'Partition count differs but other processes hold leases — keeping the saved layout');
+    return true;
+  }
+
+  /**
+   * Steps 1-4 of a run: make sure `worker_checkpoints` covers the job's
+   * layout. In leasing mode this runs under the job lock, so the first
+   * process plans the layout and the others reuse it.
+   */
+  async function prepareCheckpoints(): Promise<void> {
+    // 1. Load existing layout and checkpoints
+    const savedLayout = await loadPartitionLayout(pool, config.jobId);
+    const savedCheckpoints = await loadWorkerCheckpoints(pool, config.jobId);
+
+    if (sequential) {
+      await prepareSequentialCheckpoints(savedLayout, savedCheckpoints);
+    } else if (savedLayout !== null && (
+      savedLayout.partitionCount === config.partitionCount || await layoutInUseElsewhere(savedLayout)
+    )) {
+      // 2. Reuse the saved layout; checkpoints already cover it
+      logger.info({
+        strategy: savedLayout.strategy,
+        startTs: savedLayout.startTs,
+        endTs: savedLayout.endTs,
+        boundaries: savedLayout.chunks.map((c) => c.startTs),
+      }, 'Reusing saved partition layout');
+      await initializeWorkerCheckpoints(pool, savedLayout.chunks, config.jobId);
+    } else {
+      // 2. Discover and plan a new layout
+      const layout = await planPartitionLayout();
+
+      if (savedCheckpoints.length > 0) {
+        // 3. Partition count changed (or layout predates this run) — keep progress
+        await replanCheckpoints(layout, savedCheckpoints);
+      } else {
+        // 4. Fresh start
+        await savePartitionLayout(pool, layout, config.jobId);
+        await initializeWorkerCheckpoints(pool, layout.chunks, config.jobId);
+      }
+    }
+  }
+
+  async function ingest(): Promise<void> {
+    logger.info({
+      jobId: config.jobId,
+      eventsTable: config.eventsTable,
+      partitionCount: config.partitionCount,
+      batchSize: config.batchSize,
+      dbWriteConcurrency: config.dbWriteConcurrency,
+      pgSyncCommit: config.pgSyncCommit,
+    }, 'Orchestrator starting');
+
+    // 0. Forged cursors must position where we ask, or partitions ingest wrong ranges
+    if (config.cursorCheck) {
+      const compat = await checkCursorCompatibility(source, logger);
+      if (!compat.compatible) {
+        sequential = true;
+        logger.warn({ problems: compat.problems }, 'Falling back to sequential single-worker pagination');
+      }
     }
 
-    // 4. Initialize checkpoints for new workers
-    await initializeWorkerCheckpoints(pool, chunks);
+    if (config.leasing) {
+      await withJobLock(pool, config.jobId, prepareCheckpoints);
+    } else {
+      await prepareCheckpoints();
+    }
 
     // 5. Load final checkpoint state
-    const checkpoints = await loadWorkerCheckpoints(pool);
+    const checkpoints = await loadWorkerCheckpoints(pool, config.jobId);
+    for (const cp of checkpoints) {
+      baselines.set(cp.workerId, { fetched: cp.fetchedCount, inserted: cp.insertedCount });
+    }
 
     // 6. Filter out already-completed workers
     const activeCheckpoints = checkpoints.filter((cp) => cp.status !== WS.COMPLETED);
@@ -103,52 +396,251 @@ export function createOrchestrator(deps: OrchestratorDeps): Orchestrator {
       }, `Progress: ${snapshot.totalInserted.toLocaleString()} / 3,000,000 (${((snapshot.totalInserted / 3_000_000) * 100).toFixed(1)}%)`);
     }, config.progressLogIntervalMs);
 
-    // 8. Launch workers with staggered starts
-    const workerPromises = activeCheckpoints.map((checkpoint, index) => {
+    // 8. Launch worker slots with staggered starts. A slot runs queued
+    // checkpoints first (or, when leasing, claims unleased ones), then
+    // steals the tail of the busiest running range.
+    const partitions = createPartitionTracker(config.stealMinRangeMs);
+    const lease = { owner: config.leaseOwner, ttlMs: config.leaseTtlMs };
+    const leases = config.leasing ? createLeaseManager(pool, config.jobId, lease, logger) : null;
+    leases?.start();
+
+    const queue = leases === null ? [...activeCheckpoints] : [];
+    for (const checkpoint of queue) {
+      partitions.register(checkpoint);
+    }
+
+    async function stealWork(): Promise<WorkerCheckpoint | null> {
+      const plan = partitions.planSplit();
+      if (plan === null) return null;
+
+      let newWorkerId: number | null;
+      try {
+        newWorkerId = await splitWorkerCheckpoint(
+          pool,
+          plan.victimWorkerId,
+          plan.splitTs,
+          config.jobId,
+          leases !== null ? lease : null,
+        );
+      } catch (err) {
+        // Stealing only speeds the run up; the victim keeps its whole range
+        partitions.abortSplit(plan);
+        logger.warn({
+          err,
+          victimWorkerId: plan.victimWorkerId,
+          splitTs: plan.splitTs,
+        }, 'Work steal failed, skipping');
+        return null;
+      }
+      if (newWorkerId === null) {
+        // The victim's lease expired or moved to another process: it is no
+        // longer ours to split, nor to steal from again
+        partitions.abortSplit(plan);
+        partitions.markFinished(plan.victimWorkerId);
+        logger.warn({ victimWorkerId: plan.victimWorkerId }, 'Steal victim no longer held, dropping it');
+        return null;
+      }
+      partitions.commitSplit(plan, newWorkerId);
+      leases?.adopt(newWorkerId);
+
+      logger.info({
+        victimWorkerId: plan.victimWorkerId,
+        newWorkerId,
+        chunkStartTs: plan.chunkStartTs,
+        splitTs: plan.splitTs,
+      }, 'Stole work from running partition');
+
+      return {
+        workerId: newWorkerId,
+        chunkStartTs: plan.chunkStartTs,
+        chunkEndTs: plan.splitTs,
+        cursor: null,
+        lastTs: null,
+        lastEventId: null,
+        fetchedCount: 0,
+        insertedCount: 0,
+        status: WS.RUNNING,
+        splitFrom: plan.victimWorkerId,
+      };
+    }
+
+    async function claimWork(): Promise<WorkerCheckpoint | null> {
+      if (leases === null) return null;
+      const claimed = await leases.claim();
+      if (claimed !== null) {
+        partitions.register(claimed);
+        baselines.set(claimed.workerId, { fetched: claimed.fetchedCount, inserted: claimed.insertedCount });
+      }
+      return claimed;
+    }
+
+    // A partition another process holds is this one's to finish if that
+    // process dies, so a slot waits out foreign leases before giving up
+    async function awaitForeignLeases(): Promise<boolean> {
+      if (leases === null || stopping) return false;
+      const foreign = await countForeignLeases(pool, config.jobId, lease.owner);
+      if (foreign === 0) return false;
+      logger.debug({ foreignLeases: foreign }, 'Waiting for partitions leased by other processes');
+      await sleep(Math.floor(lease.ttlMs / 3));
+      return !stopping;
+    }
+
+    async function nextCheckpoint(): Promise<WorkerCheckpoint | null> {
+      for (;;) {
+        const queued = queue.shift();
+        if (queued) return queued;
+        if (stopping) return null;
+        const claimed = await claimWork();
+        if (claimed !== null) return claimed;
+        // Split ranges start from forged cursors
+        const stolen = config.workStealing && !sequential ? await stealWork() : null;
+        if (stolen !== null) return stolen;
+        if (!await awaitForeignLeases()) return null;
+      }
+    }
+
+    // A worker whose lease was taken over stops like a shutdown: its
+    // checkpoint is the new owner's to finish
+    function leaseLost(workerId: number): boolean {
+      return leases !== null && !leases.isHeld(workerId);
+    }
+
+    const failedWorkers: WorkerFailedError[] = [];
+
+    function runSupervised(checkpoint: WorkerCheckpoint): Promise<WorkerResult> {
+      const { workerId } = checkpoint;
+      const shouldStop = (): boolean => stopping || leaseLost(workerId);
+
+      const attempt = (cp: WorkerCheckpoint): Promise<WorkerResult> => runWorker(cp, {
+        source,
+        dbQueue,
+        logger,
+        batchSize: config.batchSize,
+        shouldStop,
+        onProgress: (id, fetched, inserted) => {
+          metrics.updateWorker(id, fetched, inserted, WS.RUNNING);
+        },
+        partitions,
+        forgeCursors: !sequential,
+        onQuarantine: (items) => metrics.recordQuarantined(items),
+      }).catch((err: unknown) => {
+        if (!(err instanceof LeaseLostError) || leases === null) throw err;
+        leases.markLost(workerId);
+        return {
+          workerId,
+          fetchedCount: cp.fetchedCount,
+          insertedCount: cp.insertedCount,
+          status: WS.RUNNING,
+        };
+      });
+
+      return superviseWorker(checkpoint, attempt, {
+        maxRestarts: config.workerMaxRestarts,
+        restartBaseMs: config.workerRestartBaseMs,
+        restartMaxMs: config.workerRestartMaxMs,
+        logger,
+        shouldStop,
+        loadCheckpoint: (id) => loadWorkerCheckpoint(pool, id, config.jobId),
+        markFailed: (id, error) =>
+          markWorkerFailed(pool, id, error, config.jobId, leases !== null ? lease.owner : null),
+        onFailure: (cp) => {
+          metrics.updateWorker(workerId, cp.fetchedCount, cp.insertedCount, WS.FAILED);
+        },
+      }).finally(() => partitions.markFinished(workerId));
+    }
+
+    // A worker that exhausts its restarts frees the slot for the next range
+    async function runSlot(): Promise<void> {
+      let checkpoint = await nextCheckpoint();
+      while (checkpoint !== null) {
+        const { workerId } = checkpoint;
+        try {
+          const result = await runSupervised(checkpoint);
+          metrics.updateWorker(result.workerId, result.fetchedCount, result.insertedCount, result.status);
+          if (result.status === WS.COMPLETED) await leases?.release(workerId);
+        } catch (err) {
+          if (!(err instanceof WorkerFailedError)) throw err;
+          if (leaseLost(workerId)) {
+            logger.warn({ workerId }, 'Failed worker lost its lease; leaving it to the new owner');
+          } else {
+            failedWorkers.push(err);
+            // Let another process retry the partition
+            await leases?.release(workerId, { abandon: true });
+          }
+        }
+        checkpoint = await nextCheckpoint();
+      }
+    }
+
+    const slotCount = sequential
+      ? 1
+      : config.workStealing || config.leasing
+        ? config.partitionCount
+        : activeCheckpoints.length;
+
+    const workerPromises = Array.from({ length: slotCount }, (_, index) => {
       const delay = index * 500; // 500ms stagger
       return new Promise<void>((resolve, reject) => {
         setTimeout(() => {
-          runWorker(checkpoint, {
-            source,
-            dbQueue,
-            logger,
-            batchSize: config.batchSize,
-            shouldStop: () => stopping,
-            onProgress: (workerId, fetched, inserted) => {
-              metrics.updateWorker(workerId, fetched, inserted, WS.RUNNING);
-            },
-          }).then((result) => {
-            metrics.updateWorker(result.workerId, result.fetchedCount, result.insertedCount, result.status);
-            resolve();
-          }).catch(reject);
+          runSlot().then(resolve).catch(reject);
         }, delay);
       });
     });
 
-    let workerFailures: PromiseRejectedResult[] = [];
+    let slotFailures: PromiseRejectedResult[] = [];
     try {
       const results = await Promise.allSettled(workerPromises);
-      workerFailures = results.filter(
+      slotFailures = results.filter(
         (r): r is PromiseRejectedResult => r.status === 'rejected',
       );
-      for (const f of workerFailures) {
-        logger.error({ reason: f.reason }, 'Worker failed');
+      for (const f of failedWorkers) {
+        failureReasons.push(f.message);
+      }
+      for (const f of slotFailures) {
+        logger.error({ reason: f.reason }, 'Worker slot failed');
+        failureReasons.push(errorMessage(f.reason));
       }
     } finally {
       clearInterval(progressInterval);
       // Drain remaining writes even if a worker failed
       await dbQueue.drain();
+      // Fenced writes are done; hand unfinished leases straight to other processes
+      await leases?.stop();
     }
 
     // 10. Final progress log
     const finalSnapshot = metrics.getSnapshot();
+    const failureCount = failedWorkers.length + slotFailures.length;
 
-    if (workerFailures.length > 0) {
+    if (failureCount > 0) {
+      const incomplete = await loadIncompletePartitions(failedWorkers);
+      const described = incomplete.map(describeRemaining);
+      failureReasons.push(`incomplete partitions: ${described.join(', ')}`);
       logger.error({
         totalInserted: finalSnapshot.totalInserted,
-        failedWorkers: workerFailures.length,
-      }, `${workerFailures.length} worker(s) failed`);
-      throw new Error(`${workerFailures.length} worker(s) failed during ingestion`);
+        failedWorkers: failureCount,
+        incompletePartitions: incomplete.map((cp) => ({
+          workerId: cp.workerId,
+          chunkStartTs: cp.chunkStartTs,
+          chunkEndTs: cp.chunkEndTs,
+          lastTs: cp.lastTs,
+          status: cp.status,
+        })),
+      }, `${failureCount} worker(s) failed`);
+      throw new Error(
+        `${failureCount} worker(s) failed during ingestion; incomplete partitions: ${described.join(', ')}`,
+      );
+    }
+
+    // Only a job with every partition completed counts as ingested
+    if (leases !== null && !stopping) {
+      const checkpoints = await loadWorkerCheckpoints(pool, config.jobId);
+      const incomplete = checkpoints.filter((cp) => cp.status !== WS.COMPLETED);
+      if (incomplete.length > 0) {
+        const described = incomplete.map(describeRemaining);
+        failureReasons.push(`incomplete partitions: ${described.join(', ')}`);
+        throw new Error(`Job ${config.jobId} has incomplete partitions: ${described.join(', ')}`);
+      }
     }
 
     logger.info({
@@ -164,5 +656,13 @@ export function createOrchestrator(deps: OrchestratorDeps): Orchestrator {
     logger.info('All checkpoints are up to date (saved transactionally)');
   }
 
-  return { run, stopFetching, saveAllCheckpoints };
+  async function markInterrupted(): Promise<void> {
+    await finishRun(RS.INTERRUPTED);
+  }
+
+  return { run, stopFetching, saveAllCheckpoints, markInterrupted };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,104 @@
+import type { Pool } from '../db/pool.js';
+import type { AppConfig, IngestionEvent, RawEvent, RejectionReason } from '../types.js';
+import { RunStatus as RS } from '../types.js';
+import type { Logger } from '../logger.js';
+import { redactConfig } from '../config.js';
+import { rejectionReason, toIngestionEvent } from '../mappers.js';
+import { insertEvents } from '../db/events-repo.js';
+import { countQuarantined, loadQuarantined, markReprocessed } from '../db/quarantine-repo.js';
+import { startIngestionRun, finishIngestionRun } from '../db/runs-repo.js';
+
+const REPROCESS_BATCH_SIZE = 500;
+
+export interface ReprocessDeps {
+  readonly pool: Pool;
+  readonly config: AppConfig;
+  readonly logger: Logger;
+}
+
+export interface ReprocessReport {
+  readonly examined: number;
+  readonly recovered: number; // Now map to events; marked re-processed
+  readonly inserted: number; // Recovered events that weren't already ingested
+  readonly stillRejected: Readonly<Partial<Record<RejectionReason, number>>>;
+}
+
+/**
+ * Run the quarantined items of `JOB_ID` through the current mappers, after a
+ * mapper fix. Items that now map are inserted into the events table and
+ * marked re-processed in the same transaction; the rest stay quarantined.
+ */
+export async function reprocessQuarantine(deps: ReprocessDeps): Promise<ReprocessReport> {
+  const { pool, config, logger } = deps;
+  const startedAtMs = Date.now();
+  const runId = await startIngestionRun(pool, { jobId: config.jobId, mode: 'reprocess', config: redactConfig(config) });
+
+  let examined = 0;
+  let recovered = 0;
+  let inserted = 0;
+  const stillRejected: Partial<Record<RejectionReason, number>> = {};
+
+  try {
+    const pending = await countQuarantined(pool, config.jobId);
+    logger.info({ jobId: config.jobId, pending }, 'Re-processing quarantined items');
+
+    let afterId = 0;
+    for (;;) {
+      const rows = await loadQuarantined(pool, config.jobId, afterId, REPROCESS_BATCH_SIZE);
+      if (rows.length === 0) break;
+      afterId = rows[rows.length - 1]!.quarantineId;
+      examined += rows.length;
+
+      const events: IngestionEvent[] = [];
+      const recoveredIds: number[] = [];
+      for (const row of rows) {
+        const reason = rejectionReason(row.raw);
+        if (reason !== null) {
+          stillRejected[reason] = (stillRejected[reason] ?? 0) + 1;
+          continue;
+        }
+        events.push(toIngestionEvent(row.raw as RawEvent)!);
+        recoveredIds.push(row.quarantineId);
+      }
+      if (recoveredIds.length === 0) continue;
+
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        inserted += await insertEvents(client, events, config.eventsTable);
+        await markReprocessed(client, recoveredIds);
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK').catch(() => {/* ignore rollback errors */});
+        throw err;
+      } finally {
+        client.release();
+      }
+      recovered += recoveredIds.length;
+    }
+
+    const report: ReprocessReport = { examined, recovered, inserted, stillRejected };
+    await finishIngestionRun(pool, runId, {
+      status: RS.COMPLETED,
+      durationMs: Date.now() - startedAtMs,
+      totalFetched: examined,
+      totalInserted: inserted,
+      failureReasons: [],
+      workerResults: [],
+    });
+    logger.info({ ...report }, 'Quarantine re-processing finished');
+    return report;
+  } catch (err) {
+    await finishIngestionRun(pool, runId, {
+      status: RS.FAILED,
+      durationMs: Date.now() - startedAtMs,
+      totalFetched: examined,
+      totalInserted: inserted,
+      failureReasons: [err instanceof Error ? err.message : String(err)],
+      workerResults: [],
+    }).catch((recordErr: unknown) => {
+      logger.error({ err: recordErr }, 'Failed to record quarantine re-processing run');
+    });
+    throw err;
+  }
+}
@@ -0,0 +1,183 @@
+import { readFile } from 'node:fs/promises';
+import type { Pool, PoolClient } from '../db/pool.js';
+import type { AppConfig, IngestionEvent, QuarantineItem } from '../types.js';
+import { RunStatus as RS } from '../types.js';
+import type { BulkEventsClient } from '../api/bulk-events.js';
+import type { Logger } from '../logger.js';
+import { redactConfig } from '../config.js';
+import { mapRawEvents } from '../mappers.js';
+import { findExistingEventIds, insertEvents } from '../db/events-repo.js';
+import { insertQuarantined } from '../db/quarantine-repo.js';
+import { startIngestionRun, finishIngestionRun } from '../db/runs-repo.js';
+
+const NOT_FOUND_SAMPLE = 20;
+
+export interface GapRepairDeps {
+  readonly pool: Pool;
+  readonly config: AppConfig;
+  readonly bulk: BulkEventsClient;
+  readonly logger: Logger;
+}
+
+export interface GapRepairReport {
+  readonly requested: number;
+  readonly alreadyPresent: number;
+  readonly fetched: number;
+  readonly inserted: number;
+  readonly rejected: number; // Returned, but quarantined because they don't map
+  readonly notFound: number;
+  readonly notFoundSample: readonly string[];
+}
+
+/**
+ * Read the ids a repair should make sure exist. Accepts a JSON array, a
+ * JSON report with an `ids` or `missingIds` array, or one id per line
+ * (blank lines and `#` comments ignored). Duplicates are dropped.
+ */
+export async function loadRepairIds(path: string): Promise<string[]> {
+  const content = (await readFile(path, 'utf-8')).trim();
+
+  let ids: unknown[];
+  if (content.startsWith('[') || content.startsWith('{')) {
+    const parsed: unknown = JSON.parse(content);
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as Record<string, unknown>)['ids'] ?? (parsed as Record<string, unknown>)['missingIds'];
+    if (!Array.isArray(list)) {
+      throw new Error(`${path} must hold a JSON array of ids or an object with an "ids" array`);
+    }
+    ids = list;
+  } else {
+    ids = content.split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line !== '' && !line.startsWith('#'));
+  }
+
+  const invalid = ids.find((id) => typeof id !== 'string' || id === '');
+  if (invalid !== undefined) {
+    throw new Error(`${path} contains an invalid event id: ${JSON.stringify(invalid)}`);
+  }
+  return Array.from(new Set(ids as string[]));
+}
+
+/**
+ * Fill known gaps: ids from `REPAIR_IDS_FILE` that are not yet in the events
+ * table are fetched from `POST /events/bulk` in `REPAIR_BATCH_SIZE` batches
+ * and inserted through `insertEvents`. Returned events that don't map are
+ * quarantined with their reason, and ids the API doesn't return are
+ * reported; neither is retried.
+ */
+export async function runGapRepair(deps: GapRepairDeps): Promise<GapRepairReport> {
+  const { pool, config, bulk, logger } = deps;
+  if (config.repairIdsFile === null) {
+    throw new Error('Gap repair requires REPAIR_IDS_FILE');
+  }
+
+  const startedAtMs = Date.now();
+  const runId = await startIngestionRun(pool, { jobId: config.jobId, mode: 'repair', config: redactConfig(config) });
+
+  let alreadyPresent = 0;
+  let fetched = 0;
+  let inserted = 0;
+  let rejectedCount = 0;
+  const notFound: string[] = [];
+
+  // Events and quarantined items of a batch land together
+  async function writeBatch(
+    events: readonly IngestionEvent[],
+    quarantined: readonly QuarantineItem[],
+  ): Promise<number> {
+    const client: PoolClient = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const count = await insertEvents(client, events, config.eventsTable);
+      await insertQuarantined(client, quarantined, config.jobId);
+      await client.query('COMMIT');
+      return count;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {/* ignore rollback errors */});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  try {
+    const ids = await loadRepairIds(config.repairIdsFile);
+    logger.info({ file: config.repairIdsFile, ids: ids.length, batchSize: config.repairBatchSize }, 'Gap repair starting');
+
+    for (let offset = 0; offset < ids.length; offset += config.repairBatchSize) {
+      const batch = ids.slice(offset, offset + config.repairBatchSize);
+      const existing = await findExistingEventIds(pool, batch, config.eventsTable);
+      alreadyPresent += existing.size;
+
+      const missing = new Set(batch.filter((id) => !existing.has(id)));
+      if (missing.size === 0) continue;
+
+      // Ignore anything the API returns beyond what was asked for
+      const rawEvents = (await bulk.fetchByIds([...missing])).filter((e) => missing.has(e.id));
+      const { events, rejected } = mapRawEvents(rawEvents);
+      fetched += events.length;
+      rejectedCount += rejected.length;
+
+      const returned = new Set(rawEvents.map((e) => e.id));
+      for (const id of missing) {
+        if (!returned.has(id)) notFound.push(id);
+      }
+
+      if (rejected.length > 0) {
+        logger.warn({ count: rejected.length }, 'Quarantining bulk events that do not map');
+      }
+      if (events.length > 0 || rejected.length > 0) {
+        const quarantined = rejected.map((item) => ({ ...item, workerId: null, cursor: null }));
+        inserted += await writeBatch(events, quarantined);
+      }
+
+      logger.info({
+        processed: Math.min(offset + batch.length, ids.length),
+        total: ids.length,
+        inserted,
+      }, 'Gap repair progress');
+    }
+
+    const report: GapRepairReport = {
+      requested: ids.length,
+      alreadyPresent,
+      fetched,
+      inserted,
+      rejected: rejectedCount,
+      notFound: notFound.length,
+      notFoundSample: notFound.slice(0, NOT_FOUND_SAMPLE),
+    };
+
+    await finishIngestionRun(pool, runId, {
+      status: RS.COMPLETED,
+      durationMs: Date.now() - startedAtMs,
+      totalFetched: fetched,
+      totalInserted: inserted,
+      failureReasons: [
+        ...notFound.length > 0 ? [`${notFound.length} id(s) not returned by the bulk endpoint`] : [],
+        ...rejectedCount > 0 ? [`${rejectedCount} id(s) quarantined as unmappable`] : [],
+      ],
+      workerResults: [],
+    });
+    if (notFound.length > 0 || rejectedCount > 0) {
+      logger.warn({ ...report }, 'Gap repair finished; some ids were not found or quarantined');
+    } else {
+      logger.info({ ...report }, 'Gap repair finished');
+    }
+    return report;
+  } catch (err) {
+    await finishIngestionRun(pool, runId, {
+      status: RS.FAILED,
+      durationMs: Date.now() - startedAtMs,
+      totalFetched: fetched,
+      totalInserted: inserted,
+      failureReasons: [err instanceof Error ? err.message : String(err)],
+      workerResults: [],
+    }).catch((recordErr: unknown) => {
+      logger.error({ err: recordErr }, 'Failed to record gap repair run');
+    });
+    throw err;
+  }
+}
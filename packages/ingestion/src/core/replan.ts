@@ -0,0 +1,72 @@
+import type { TimestampChunk, WorkerCheckpoint } from '../types.js';
+import { WorkerStatus as WS } from '../types.js';
+
+/**
+ * Work out which parts of `range` no saved checkpoint has ingested yet.
+ *
+ * Workers page DESC and commit each batch with its checkpoint, so a running
+ * worker has covered everything above its `lastTs`. Events sharing `lastTs`
+ * may continue on the next page, so that millisecond stays uncovered.
+ */
+export function computeUncoveredRanges(
+  range: TimestampChunk,
+  checkpoints: readonly WorkerCheckpoint[],
+): TimestampChunk[] {
+  const covered: TimestampChunk[] = [];
+  for (const cp of checkpoints) {
+    if (cp.status === WS.COMPLETED) {
+      covered.push({ startTs: cp.chunkStartTs, endTs: cp.chunkEndTs });
+    } else if (cp.lastTs !== null) {
+      const startTs = Math.max(cp.chunkStartTs, cp.lastTs + 1);
+      if (startTs < cp.chunkEndTs) covered.push({ startTs, endTs: cp.chunkEndTs });
+    }
+  }
+  covered.sort((a, b) => a.startTs - b.startTs);
+
+  const uncovered: TimestampChunk[] = [];
+  let cursor = range.startTs;
+  for (const c of covered) {
+    if (c.endTs <= cursor) continue;
+    if (c.startTs >= range.endTs) break;
+    if (c.startTs > cursor) uncovered.push({ startTs: cursor, endTs: c.startTs });
+    cursor = Math.max(cursor, c.endTs);
+  }
+  if (cursor < range.endTs) uncovered.push({ startTs: cursor, endTs: range.endTs });
+
+  return uncovered;
+}
+
+/**
+ * Divide uncovered ranges between `count` workers by equal uncovered width.
+ * A chunk never spans a covered gap, so a worker whose share crosses one
+ * gets two chunks and the result may hold more than `count` chunks.
+ */
+export function planUncoveredChunks(
+  uncovered: readonly TimestampChunk[],
+  count: number,
+): TimestampChunk[] {
+  const total = uncovered.reduce((sum, r) => sum + (r.endTs - r.startTs), 0);
+  const target = total / count;
+  const chunks: TimestampChunk[] = [];
+  let offset = 0;
+  let nextCut = 1;
+
+  for (const r of uncovered) {
+    const width = r.endTs - r.startTs;
+    let startTs = r.startTs;
+
+    while (nextCut < count && offset + width > nextCut * target) {
+      const cut = Math.floor(r.startTs + (nextCut * target - offset));
+      if (cut > startTs && cut < r.endTs) {
+        chunks.push({ startTs, endTs: cut });
+        startTs = cut;
+      }
+      nextCut++;
+    }
+
+    chunks.push({ startTs, endTs: r.endTs });
+    offset += width;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,38 @@
+import type { Pool } from '../db/pool.js';
+import type { AppConfig } from '../types.js';
+import { listIngestionRuns } from '../db/runs-repo.js';
+import type { Logger } from '../logger.js';
+
+const RUNS_LIMIT = 20;
+
+/**
+ * Log the most recent ingestion runs of the configured job, newest first.
+ */
+export async function listRuns(
+  pool: Pool,
+  config: AppConfig,
+  logger: Logger,
+): Promise<void> {
+  const runs = await listIngestionRuns(pool, { jobId: config.jobId, limit: RUNS_LIMIT });
+
+  if (runs.length === 0) {
+    logger.info({ jobId: config.jobId }, 'No ingestion runs recorded');
+    return;
+  }
+
+  for (const run of runs) {
+    logger.info({
+      runId: run.runId,
+      jobId: run.jobId,
+      mode: run.mode,
+      status: run.status,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationSeconds: run.durationMs !== null ? Math.round(run.durationMs / 1000) : null,
+      totalFetched: run.totalFetched,
+      totalInserted: run.totalInserted,
+      failureReasons: run.failureReasons,
+      partitionCount: run.config['partitionCount'],
+    }, `Run ${run.runId}: ${run.status}`);
+  }
+}
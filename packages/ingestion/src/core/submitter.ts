@@ -22,7 +22,7 @@ export async function submitResults(
   logger.info('Exporting event IDs for submission...');
 
   // Stream event IDs from DB
-  const result = await pool.query('SELECT event_id FROM ingested_events ORDER BY event_id');
+  const result = await pool.query(`SELECT event_id FROM ${config.eventsTable} ORDER BY event_id`);
   const ids = result.rows.map((row) => (row as { event_id: string }).event_id).join('\n');
 
   logger.info({ eventCount: result.rows.length }, 'Submitting event IDs');
@@ -0,0 +1,94 @@
+import type { WorkerCheckpoint } from '../types.js';
+import { WorkerFailedError } from '../types.js';
+import type { Logger } from '../logger.js';
+import type { WorkerResult } from './worker.js';
+
+export interface SupervisorOptions {
+  readonly maxRestarts: number;
+  readonly restartBaseMs: number;
+  readonly restartMaxMs: number;
+  readonly logger: Logger;
+  readonly shouldStop: () => boolean;
+  // Latest persisted checkpoint of a worker; null falls back to the last known one
+  readonly loadCheckpoint: (workerId: number) => Promise<WorkerCheckpoint | null>;
+  readonly markFailed: (workerId: number, error: string) => Promise<void>;
+  readonly onFailure?: (checkpoint: WorkerCheckpoint, err: unknown) => void;
+}
+
+export function restartDelayMs(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(baseMs * Math.pow(2, attempt - 1), maxMs);
+}
+
+/**
+ * Run a worker and restart it from its persisted checkpoint when it throws.
+ *
+ * Every failure is recorded on the checkpoint row before the restart, so a
+ * crashed process leaves the failure visible. Batches commit together with
+ * their checkpoint, so a restart re-reads at most the batch that failed.
+ * Once `maxRestarts` is exhausted (or the run is stopping) the last error is
+ * rethrown as a `WorkerFailedError` carrying the unfinished checkpoint.
+ */
+export async function superviseWorker(
+  checkpoint: WorkerCheckpoint,
+  run: (checkpoint: WorkerCheckpoint) => Promise<WorkerResult>,
+  opts: SupervisorOptions,
+): Promise<WorkerResult> {
+  const { logger } = opts;
+  const { workerId } = checkpoint;
+  let current = checkpoint;
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      return await run(current);
+    } catch (err) {
+      attempt++;
+      const message = err instanceof Error ? err.message : String(err);
+      opts.onFailure?.(current, err);
+
+      await opts.markFailed(workerId, message).catch((markErr: unknown) => {
+        logger.error({ workerId, err: markErr }, 'Failed to persist worker failure');
+      });
+
+      if (attempt > opts.maxRestarts || opts.shouldStop()) {
+        logger.error({ workerId, attempts: attempt, err }, 'Worker gave up');
+        throw new WorkerFailedError(
+          `Worker ${workerId} failed after ${attempt} attempt(s): ${message}`,
+          current,
+          attempt,
+          err,
+        );
+      }
+
+      const delayMs = restartDelayMs(attempt, opts.restartBaseMs, opts.restartMaxMs);
+      logger.warn({
+        workerId,
+        attempt,
+        maxRestarts: opts.maxRestarts,
+        delayMs,
+        err,
+      }, 'Worker failed, restarting from checkpoint');
+      await sleep(delayMs);
+
+      if (opts.shouldStop()) {
+        throw new WorkerFailedError(
+          `Worker ${workerId} stopped before restart: ${message}`,
+          current,
+          attempt,
+          err,
+        );
+      }
+
+      try {
+        current = (await opts.loadCheckpoint(workerId)) ?? current;
+      } catch (loadErr) {
+        // Restarting from an older checkpoint only re-fetches committed events
+        logger.warn({ workerId, err: loadErr }, 'Could not reload checkpoint, restarting from last known');
+      }
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,23 +1,128 @@
 import type { EventsSource } from '../api/events-source.js';
 import type { Logger } from '../logger.js';
+import { forgeCursor } from './cursor-forge.js';
+import { normalizeTimestampMs } from '../mappers.js';
 
 interface TimeRange {
   readonly startTs: number;
   readonly endTs: number;
 }
 
+export type TimeRangeCheck = 'warn' | 'fail' | 'off';
+
+const INITIAL_STEP_MS = 60 * 60 * 1000; // 1 hour
+const REFINE_PRECISION_MS = 60 * 60 * 1000; // 1 hour
+const MAX_PROBES = 48;
+
 /**
  * Discover the time range of events in the API using exponential probing
  * followed by binary refinement. Uses only ~6-10 API calls.
+ *
+ * The API pages DESC, so a forged cursor at `ts` returns the newest event
+ * strictly older than `ts`; an empty page proves nothing exists below it.
+ * The returned `startTs` is a bound with no events below it, never an
+ * estimate, so refinement precision only costs empty range in the oldest
+ * partition.
  */
 export async function discoverTimeRange(
-  _source: EventsSource,
+  source: EventsSource,
   knownMinTs: number,
   knownMaxTs: number,
   logger: Logger,
+  check: TimeRangeCheck = 'warn',
 ): Promise<TimeRange> {
-  logger.info({ knownMinTs, knownMaxTs }, 'Using configured time range');
-  // Use the configured time bounds directly.
-  // In explore mode, we'd probe the API to discover these dynamically.
-  return { startTs: knownMinTs, endTs: knownMaxTs };
+  if (check === 'off') {
+    logger.info({ knownMinTs, knownMaxTs }, 'Using configured time range');
+    return { startTs: knownMinTs, endTs: knownMaxTs };
+  }
+
+  let probes = 0;
+
+  // Returns the newest event timestamp strictly below `beforeTs`
+  // (or the newest overall when null), or null if there is none.
+  async function probe(beforeTs: number | null): Promise<number | null> {
+    if (++probes > MAX_PROBES) {
+      throw new Error(`Time range discovery exceeded ${MAX_PROBES} probes`);
+    }
+    const page = await source.fetchPage({
+      limit: 1,
+      cursor: beforeTs === null ? null : forgeCursor(beforeTs),
+    });
+
+    let newest: number | null = null;
+    for (const event of page.events) {
+      try {
+        const ts = normalizeTimestampMs(event.timestamp);
+        if (newest === null || ts > newest) newest = ts;
+      } catch {
+        // Unparseable timestamps are skipped by ingestion too
+      }
+    }
+    return newest;
+  }
+
+  // 1. Newest event: first page without a cursor
+  const newestTs = await probe(null);
+  if (newestTs === null) {
+    logger.warn({ knownMinTs, knownMaxTs }, 'Time range probe found no events, using configured range');
+    return { startTs: knownMinTs, endTs: knownMaxTs };
+  }
+
+  // 2. Exponential probing downward from the configured minimum.
+  //    Invariants: no events below `lo`; an event exists at `hi - 1`.
+  let hi = newestTs + 1;
+  let lo: number | null = null;
+  let probeTs = Math.min(knownMinTs, newestTs);
+  let step = INITIAL_STEP_MS;
+
+  while (lo === null) {
+    const found = await probe(probeTs);
+    if (found === null) {
+      lo = probeTs;
+    } else {
+      hi = found + 1;
+      probeTs = Math.max(0, Math.min(probeTs, found) - step);
+      step *= 2;
+      if (found === 0) lo = 0;
+    }
+  }
+
+  // 3. Binary refinement towards the oldest event
+  while (hi - lo > REFINE_PRECISION_MS) {
+    const mid = Math.floor(lo + (hi - lo) / 2);
+    const found = await probe(mid);
+    if (found === null) {
+      lo = mid;
+    } else {
+      hi = found + 1;
+    }
+  }
+
+  const discovered: TimeRange = { startTs: lo, endTs: newestTs };
+  const outside = discovered.startTs < knownMinTs || discovered.endTs > knownMaxTs;
+
+  const details = {
+    discoveredStartTs: discovered.startTs,
+    oldestSeenTs: hi - 1,
+    newestTs,
+    knownMinTs,
+    knownMaxTs,
+    probes,
+  };
+
+  if (outside) {
+    if (check === 'fail') {
+      logger.error(details, 'Events exist outside the configured time range');
+      throw new Error(
+        `Events exist outside MIN_TIMESTAMP_MS/MAX_TIMESTAMP_MS: ` +
+        `discovered [${discovered.startTs}, ${discovered.endTs}], ` +
+        `configured [${knownMinTs}, ${knownMaxTs}]`,
+      );
+    }
+    logger.warn(details, 'Events exist outside the configured time range, using discovered range');
+  } else {
+    logger.info(details, 'Time range discovered');
+  }
+
+  return discovered;
 }
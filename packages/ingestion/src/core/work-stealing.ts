@@ -0,0 +1,119 @@
+import type { WorkerCheckpoint } from '../types.js';
+
+interface LivePartition {
+  readonly workerId: number;
+  startTs: number;
+  readonly endTs: number;
+  lastTs: number | null;
+  finished: boolean;
+  splitting: boolean;
+}
+
+export interface SplitPlan {
+  readonly victimWorkerId: number;
+  readonly chunkStartTs: number;
+  readonly splitTs: number;
+}
+
+export interface PartitionTracker {
+  readonly register: (checkpoint: WorkerCheckpoint) => void;
+  readonly getStartTs: (workerId: number) => number | null;
+  readonly reportLastTs: (workerId: number, lastTs: number) => void;
+  readonly markFinished: (workerId: number) => void;
+  readonly planSplit: () => SplitPlan | null;
+  readonly commitSplit: (plan: SplitPlan, newWorkerId: number) => void;
+  readonly abortSplit: (plan: SplitPlan) => void;
+}
+
+/**
+ * Track the live range of every running worker so idle workers can steal
+ * the unfinished tail of the busiest one. Workers page DESC, so the
+ * remaining work of a partition is `[startTs, lastTs)`.
+ *
+ * All methods are synchronous: a plan reads and reserves a victim within a
+ * single tick, so two idle workers can never split the same range.
+ */
+export function createPartitionTracker(minRangeMs: number): PartitionTracker {
+  const partitions = new Map<number, LivePartition>();
+
+  function register(checkpoint: WorkerCheckpoint): void {
+    partitions.set(checkpoint.workerId, {
+      workerId: checkpoint.workerId,
+      startTs: checkpoint.chunkStartTs,
+      endTs: checkpoint.chunkEndTs,
+      lastTs: checkpoint.lastTs,
+      finished: false,
+      splitting: false,
+    });
+  }
+
+  function getStartTs(workerId: number): number | null {
+    return partitions.get(workerId)?.startTs ?? null;
+  }
+
+  function reportLastTs(workerId: number, lastTs: number): void {
+    const partition = partitions.get(workerId);
+    if (partition) partition.lastTs = lastTs;
+  }
+
+  function markFinished(workerId: number): void {
+    const partition = partitions.get(workerId);
+    if (partition) partition.finished = true;
+  }
+
+  function remainingMs(partition: LivePartition): number {
+    const upper = Math.min(partition.lastTs ?? partition.endTs, partition.endTs);
+    return upper - partition.startTs;
+  }
+
+  function planSplit(): SplitPlan | null {
+    let victim: LivePartition | null = null;
+    for (const partition of partitions.values()) {
+      if (partition.finished || partition.splitting) continue;
+      if (victim === null || remainingMs(partition) > remainingMs(victim)) {
+        victim = partition;
+      }
+    }
+
+    // Both halves must be at least minRangeMs wide to be worth a new worker
+    if (victim === null || remainingMs(victim) < minRangeMs * 2) return null;
+
+    victim.splitting = true;
+    return {
+      victimWorkerId: victim.workerId,
+      chunkStartTs: victim.startTs,
+      splitTs: Math.floor(victim.startTs + remainingMs(victim) / 2),
+    };
+  }
+
+  function commitSplit(plan: SplitPlan, newWorkerId: number): void {
+    const victim = partitions.get(plan.victimWorkerId);
+    if (victim) {
+      victim.startTs = plan.splitTs;
+      victim.splitting = false;
+    }
+    partitions.set(newWorkerId, {
+      workerId: newWorkerId,
+      startTs: plan.chunkStartTs,
+      endTs: plan.splitTs,
+      lastTs: null,
+      finished: false,
+      splitting: false,
+    });
+  }
+
+  function abortSplit(plan: SplitPlan): void {
+    const victim = partitions.get(plan.victimWorkerId);
+    if (victim) victim.splitting = false;
+  }
+
+  return {
+    register,
+    getStartTs,
+    reportLastTs,
+    markFinished,
+    planSplit,
+    commitSplit,
+    abortSplit,
+  };
+}
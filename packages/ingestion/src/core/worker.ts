@@ -1,10 +1,12 @@
 import type { EventsSource, FetchPageParams } from '../api/events-source.js';
 import type { DbQueue } from './db-queue.js';
-import type { WorkerCheckpoint, NormalizedPage, WorkerStatus } from '../types.js';
+import type { WorkerCheckpoint, NormalizedPage, QuarantineItem, WorkerStatus } from '../types.js';
 import { HttpError, WorkerStatus as WS } from '../types.js';
-import { forgeCursor } from './cursor-forge.js';
-import { toIngestionEvents } from '../mappers.js';
+import { boundaryPosition, compareEventPositions, forgeCursor } from './cursor-forge.js';
+import type { EventPosition } from './cursor-forge.js';
+import { mapRawEvents } from '../mappers.js';
 import type { Logger } from '../logger.js';
+import type { PartitionTracker } from './work-stealing.js';
 
 export interface WorkerResult {
   readonly workerId: number;
@@ -20,22 +22,29 @@ export interface WorkerContext {
   readonly batchSize: number;
   readonly shouldStop: () => boolean;
   readonly onProgress: (workerId: number, fetched: number, inserted: number) => void;
+  readonly partitions?: PartitionTracker;
+  // False when forged cursors don't work: start from the newest page instead
+  readonly forgeCursors?: boolean;
+  // Page items the mappers rejected, as they're written to quarantine
+  readonly onQuarantine?: (items: readonly QuarantineItem[]) => void;
 }
 
 export async function runWorker(
   checkpoint: WorkerCheckpoint,
   ctx: WorkerContext,
 ): Promise<WorkerResult> {
-  const { source, dbQueue, logger, batchSize, shouldStop, onProgress } = ctx;
+  const { source, dbQueue, logger, batchSize, shouldStop, onProgress, partitions, onQuarantine } = ctx;
+  const forgeCursors = ctx.forgeCursors ?? true;
   const { workerId, chunkStartTs, chunkEndTs } = checkpoint;
 
   let cursor: string | null = checkpoint.cursor;
   let lastTs: number | null = checkpoint.lastTs;
+  let lastEventId: string | null = checkpoint.lastEventId ?? null;
   let fetchedCount = checkpoint.fetchedCount;
   let insertedCount = checkpoint.insertedCount;
 
   // If no cursor, forge one at the end of this chunk (API pages DESC by timestamp)
-  if (cursor === null) {
+  if (cursor === null && forgeCursors) {
     cursor = forgeCursor(chunkEndTs);
   }
 
@@ -53,6 +62,7 @@ export async function runWorker(
     limit: batchSize,
     cursor,
   });
+  let pageCursor = cursor; // Cursor the in-flight page was requested with
 
   let done = false;
 
@@ -63,55 +73,80 @@ export async function runWorker(
       page = await fetchPromise!;
     } catch (err) {
       if (err instanceof HttpError && err.status === 400 && lastTs !== null) {
-        // Cursor expired mid-partition — rebuild from last known timestamp
-        logger.warn({ workerId, lastTs }, 'Cursor expired, rebuilding from lastTs');
-        cursor = forgeCursor(lastTs);
+        // Cursor expired mid-partition — rebuild right after the last event
+        // seen, or re-read from the newest page when forging is unavailable
+        logger.warn({ workerId, lastTs, lastEventId, forgeCursors }, 'Cursor expired, rebuilding from lastTs');
+        cursor = forgeCursors ? resumeCursor(lastTs, lastEventId) : null;
         fetchPromise = fetchPage(source, { limit: batchSize, cursor });
+        pageCursor = cursor;
         continue;
       }
       throw err;
     }
 
-    // Filter events to this worker's partition only
+    // Filter events to this worker's partition only, in the API's (ts, id)
+    // order. The lower bound moves up when an idle worker steals the tail
+    // of this range.
+    const lower = boundaryPosition(partitions?.getStartTs(workerId) ?? chunkStartTs);
+    const upper = boundaryPosition(chunkEndTs);
+    // Everything at or above the last position seen is already ingested
+    const seen: EventPosition | null = lastTs !== null && lastEventId !== null
+      ? { ts: lastTs, id: lastEventId }
+      : null;
     const rawEvents = page.events;
-    const allEvents = toIngestionEvents(rawEvents);
+    const { events: allEvents, rejected } = mapRawEvents(rawEvents);
+    const quarantined: QuarantineItem[] = [...page.rejected ?? [], ...rejected]
+      .map((item) => ({ ...item, workerId, cursor: pageCursor }));
+    if (quarantined.length > 0) {
+      logger.warn({ workerId, cursor: pageCursor, count: quarantined.length }, 'Quarantining rejected page items');
+      onQuarantine?.(quarantined);
+    }
     const filtered = [];
+    let oldest: EventPosition | null = null;
 
     for (const event of allEvents) {
-      if (event.timestampMs < chunkStartTs) {
+      const position: EventPosition = { ts: event.timestampMs, id: event.eventId };
+      if (oldest === null || compareEventPositions(position, oldest) < 0) oldest = position;
+
+      if (compareEventPositions(position, lower) < 0) {
         // Crossed into previous partition — stop after this batch
         done = true;
         break;
       }
       // Skip events at or above our end boundary (belong to next partition)
-      if (event.timestampMs >= chunkEndTs) continue;
+      if (compareEventPositions(position, upper) >= 0) continue;
+      if (seen !== null && compareEventPositions(position, seen) >= 0) continue;
       filtered.push(event);
     }
 
     fetchedCount += rawEvents.length;
 
-    // Update cursor and lastTs for checkpoint
+    // Update cursor and the last position for checkpoint
     cursor = page.nextCursor;
-    if (allEvents.length > 0) {
-      const minTs = Math.min(...allEvents.map((e) => e.timestampMs));
-      lastTs = minTs;
+    if (oldest !== null) {
+      lastTs = oldest.ts;
+      lastEventId = oldest.id;
+      partitions?.reportLastTs(workerId, lastTs);
     }
 
     // Start next fetch IMMEDIATELY while we insert (pipelining)
     if (page.hasMore && !done && cursor) {
       fetchPromise = fetchPage(source, { limit: batchSize, cursor });
+      pageCursor = cursor;
     } else {
       fetchPromise = null;
     }
 
-    // Insert filtered batch + checkpoint in one transaction
-    if (filtered.length > 0) {
+    // Insert filtered batch, quarantined items and checkpoint in one transaction
+    if (filtered.length > 0 || quarantined.length > 0) {
       const inserted = await dbQueue.enqueue({
         events: filtered,
+        quarantined,
         checkpoint: {
           workerId,
           cursor,
           lastTs,
+          lastEventId,
           fetchedCount,
           insertedCount,
           status: WS.RUNNING,
@@ -130,15 +165,44 @@ export async function runWorker(
 
   const finalStatus = shouldStop() ? WS.RUNNING : WS.COMPLETED;
 
+  // Persist completion so resumes and work stealing skip this range
+  if (finalStatus === WS.COMPLETED) {
+    await dbQueue.enqueue({
+      events: [],
+      checkpoint: {
+        workerId,
+        cursor,
+        lastTs,
+        lastEventId,
+        fetchedCount,
+        insertedCount,
+        status: WS.COMPLETED,
+      },
+    });
+  }
+
   logger.info({ workerId, fetchedCount, insertedCount, status: finalStatus },
     'Worker finished');
 
   return { workerId, fetchedCount, insertedCount, status: finalStatus };
 }
 
+/**
+ * Cursor for the events right after the last one seen. Checkpoints written
+ * before event ids were tracked only know `lastTs`, so they re-read that
+ * whole millisecond rather than skip the events sharing it.
+ */
+function resumeCursor(lastTs: number, lastEventId: string | null): string {
+  return lastEventId !== null ? forgeCursor(lastTs, lastEventId) : forgeCursor(lastTs + 1);
+}
+
 function fetchPage(
   source: EventsSource,
   params: FetchPageParams,
 ): Promise<NormalizedPage> {
-  return source.fetchPage(params);
+  const promise = source.fetchPage(params);
+  // A prefetch may fail while the previous batch is still being written,
+  // or be abandoned when that write fails; it rethrows when awaited
+  promise.catch(() => {/* handled by the awaiting loop */});
+  return promise;
 }
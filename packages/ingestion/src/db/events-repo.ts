@@ -1,6 +1,7 @@
-import type { PoolClient } from './pool.js';
+import type { Pool, PoolClient } from './pool.js';
 import type { IngestionEvent } from '../types.js';
 import { DbError } from '../types.js';
+import { DEFAULT_EVENTS_TABLE } from './schema.js';
 
 /**
  * Bulk insert events using PostgreSQL UNNEST for optimal performance.
@@ -10,6 +11,7 @@ import { DbError } from '../types.js';
 export async function insertEvents(
   client: PoolClient,
   events: readonly IngestionEvent[],
+  table = DEFAULT_EVENTS_TABLE,
 ): Promise<number> {
   if (events.length === 0) return 0;
 
@@ -25,7 +27,7 @@ export async function insertEvents(
 
   try {
     const result = await client.query(
-      `INSERT INTO ingested_events (event_id, timestamp_ms, payload)
+      `INSERT INTO ${table} (event_id, timestamp_ms, payload)
        SELECT t.event_id, t.timestamp_ms, t.payload::jsonb
        FROM unnest($1::text[], $2::bigint[], $3::text[])
          AS t(event_id, timestamp_ms, payload)
@@ -41,3 +43,60 @@ export async function insertEvents(
     );
   }
 }
+
+/**
+ * Newest ingested event timestamp, or null when the table is empty.
+ */
+export async function getMaxIngestedTimestamp(
+  pool: Pool,
+  table = DEFAULT_EVENTS_TABLE,
+): Promise<number | null> {
+  try {
+    const result = await pool.query(`SELECT MAX(timestamp_ms) AS max_ts FROM ${table}`);
+    const maxTs = result.rows[0]?.max_ts;
+    return maxTs !== null && maxTs !== undefined ? Number(maxTs) : null;
+  } catch (err) {
+    throw new DbError('Failed to read max ingested timestamp', 'getMaxIngestedTimestamp', err);
+  }
+}
+
+/**
+ * Count ingested events with `startTs <= timestamp_ms < endTs`.
+ */
+export async function countEventsInRange(
+  pool: Pool,
+  startTs: number,
+  endTs: number,
+  table = DEFAULT_EVENTS_TABLE,
+): Promise<number> {
+  try {
+    const result = await pool.query(
+      `SELECT COUNT(*) AS count FROM ${table}
+       WHERE timestamp_ms >= $1 AND timestamp_ms < $2`,
+      [String(startTs), String(endTs)],
+    );
+    return Number(result.rows[0].count);
+  } catch (err) {
+    throw new DbError('Failed to count events in range', 'countEventsInRange', err);
+  }
+}
+
+/**
+ * Which of `ids` are already ingested.
+ */
+export async function findExistingEventIds(
+  pool: Pool,
+  ids: readonly string[],
+  table = DEFAULT_EVENTS_TABLE,
+): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+  try {
+    const result = await pool.query(
+      `SELECT event_id FROM ${table} WHERE event_id = ANY($1::text[])`,
+      [ids],
+    );
+    return new Set(result.rows.map((row: { event_id: string }) => row.event_id));
+  } catch (err) {
+    throw new DbError('Failed to look up existing event ids', 'findExistingEventIds', err);
+  }
+}
@@ -0,0 +1,50 @@
+import type { Pool, PoolClient } from './pool.js';
+import type { FollowCheckpoint } from '../types.js';
+import { DbError } from '../types.js';
+
+/**
+ * Load the follow-mode high-water mark, or null if follow never ran.
+ */
+export async function loadFollowCheckpoint(pool: Pool, jobId: string): Promise<FollowCheckpoint | null> {
+  try {
+    const result = await pool.query(
+      `SELECT high_water_ts, inserted_count
+       FROM follow_checkpoint
+       WHERE job_id = $1`,
+      [jobId],
+    );
+
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      highWaterTs: Number(row.high_water_ts),
+      insertedCount: Number(row.inserted_count),
+    };
+  } catch (err) {
+    throw new DbError('Failed to load follow checkpoint', 'loadFollowCheckpoint', err);
+  }
+}
+
+/**
+ * Upsert the follow-mode high-water mark within an existing transaction.
+ */
+export async function saveFollowCheckpoint(
+  client: PoolClient,
+  checkpoint: FollowCheckpoint,
+  jobId: string,
+): Promise<void> {
+  try {
+    await client.query(
+      `INSERT INTO follow_checkpoint (job_id, high_water_ts, inserted_count)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (job_id) DO UPDATE
+       SET high_water_ts = EXCLUDED.high_water_ts,
+           inserted_count = EXCLUDED.inserted_count,
+           updated_at = NOW()`,
+      [jobId, String(checkpoint.highWaterTs), String(checkpoint.insertedCount)],
+    );
+  } catch (err) {
+    throw new DbError('Failed to save follow checkpoint', 'saveFollowCheckpoint', err);
+  }
+}
@@ -0,0 +1,68 @@
+import type { Pool, PoolClient } from './pool.js';
+import type { PartitionLayout, TimestampChunk, DensitySample } from '../types.js';
+import { DbError } from '../types.js';
+
+/**
+ * Load the partition layout chosen by a previous run, if any.
+ */
+export async function loadPartitionLayout(pool: Pool, jobId: string): Promise<PartitionLayout | null> {
+  try {
+    const result = await pool.query(
+      `SELECT strategy, range_start_ts, range_end_ts, partition_count, chunks, samples
+       FROM partition_layout
+       WHERE job_id = $1`,
+      [jobId],
+    );
+
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      strategy: row.strategy as PartitionLayout['strategy'],
+      startTs: Number(row.range_start_ts),
+      endTs: Number(row.range_end_ts),
+      partitionCount: row.partition_count as number,
+      chunks: row.chunks as TimestampChunk[],
+      samples: row.samples as DensitySample[],
+    };
+  } catch (err) {
+    throw new DbError('Failed to load partition layout', 'loadPartitionLayout', err);
+  }
+}
+
+/**
+ * Persist the partition layout so resumes reuse the same boundaries.
+ * Replaces any previous layout.
+ */
+export async function savePartitionLayout(
+  pool: Pool | PoolClient,
+  layout: PartitionLayout,
+  jobId: string,
+): Promise<void> {
+  try {
+    await pool.query(
+      `INSERT INTO partition_layout
+         (job_id, strategy, range_start_ts, range_end_ts, partition_count, chunks, samples)
+       VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb)
+       ON CONFLICT (job_id) DO UPDATE
+       SET strategy = EXCLUDED.strategy,
+           range_start_ts = EXCLUDED.range_start_ts,
+           range_end_ts = EXCLUDED.range_end_ts,
+           partition_count = EXCLUDED.partition_count,
+           chunks = EXCLUDED.chunks,
+           samples = EXCLUDED.samples,
+           created_at = NOW()`,
+      [
+        jobId,
+        layout.strategy,
+        String(layout.startTs),
+        String(layout.endTs),
+        layout.partitionCount,
+        JSON.stringify(layout.chunks),
+        JSON.stringify(layout.samples),
+      ],
+    );
+  } catch (err) {
+    throw new DbError('Failed to save partition layout', 'savePartitionLayout', err);
+  }
+}
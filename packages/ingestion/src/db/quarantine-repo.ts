@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import type { Pool, PoolClient } from './pool.js';
+import type { QuarantineItem, QuarantinedRow, RejectionReason } from '../types.js';
+import { DbError } from '../types.js';
+
+// JSONB can't hold `undefined`; it is stored as null
+function rawJson(raw: unknown): string {
+  return JSON.stringify(raw ?? null);
+}
+
+/**
+ * Store rejected page items. The same item fetched again (resumes, overlapping
+ * pages, follow polls) is stored once per job. Returns the number of new rows.
+ */
+export async function insertQuarantined(
+  client: PoolClient,
+  items: readonly QuarantineItem[],
+  jobId: string,
+): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const raws: string[] = [];
+  const hashes: string[] = [];
+  const reasons: string[] = [];
+  const workerIds: (number | null)[] = [];
+  const cursors: (string | null)[] = [];
+
+  for (const item of items) {
+    const json = rawJson(item.raw);
+    raws.push(json);
+    hashes.push(createHash('sha256').update(json).digest('hex'));
+    reasons.push(item.reason);
+    workerIds.push(item.workerId);
+    cursors.push(item.cursor);
+  }
+
+  try {
+    const result = await client.query(
+      `INSERT INTO quarantined_events (job_id, raw, raw_hash, reason, worker_id, cursor)
+       SELECT $1, t.raw::jsonb, t.raw_hash, t.reason, t.worker_id, t.cursor
+       FROM unnest($2::text[], $3::text[], $4::text[], $5::int[], $6::text[])
+         AS t(raw, raw_hash, reason, worker_id, cursor)
+       ON CONFLICT (job_id, raw_hash) DO NOTHING`,
+      [jobId, raws, hashes, reasons, workerIds, cursors],
+    );
+    return result.rowCount ?? 0;
+  } catch (err) {
+    throw new DbError(`Failed to quarantine ${items.length} items`, 'insertQuarantined', err);
+  }
+}
+
+/**
+ * Quarantined items not yet re-processed, oldest first, after `afterId`.
+ */
+export async function loadQuarantined(
+  pool: Pool,
+  jobId: string,
+  afterId: number,
+  limit: number,
+): Promise<QuarantinedRow[]> {
+  try {
+    const result = await pool.query(
+      `SELECT quarantine_id, raw, reason, worker_id, cursor, quarantined_at
+       FROM quarantined_events
+       WHERE job_id = $1 AND reprocessed_at IS NULL AND quarantine_id > $2
+       ORDER BY quarantine_id
+       LIMIT $3`,
+      [jobId, String(afterId), limit],
+    );
+    return result.rows.map(toQuarantinedRow);
+  } catch (err) {
+    throw new DbError('Failed to load quarantined items', 'loadQuarantined', err);
+  }
+}
+
+function toQuarantinedRow(row: Record<string, unknown>): QuarantinedRow {
+  return {
+    quarantineId: Number(row.quarantine_id),
+    raw: row.raw,
+    reason: row.reason as RejectionReason,
+    workerId: row.worker_id as number | null,
+    cursor: row.cursor as string | null,
+    quarantinedAt: row.quarantined_at as Date,
+  };
+}
+
+/**
+ * Mark quarantined items as ingested after a re-process.
+ */
+export async function markReprocessed(
+  client: PoolClient,
+  quarantineIds: readonly number[],
+): Promise<void> {
+  if (quarantineIds.length === 0) return;
+  try {
+    await client.query(
+      `UPDATE quarantined_events SET reprocessed_at = NOW()
+       WHERE quarantine_id = ANY($1::bigint[])`,
+      [quarantineIds.map(String)],
+    );
+  } catch (err) {
+    throw new DbError('Failed to mark quarantined items re-processed', 'markReprocessed', err);
+  }
+}
+
+/**
+ * Items still waiting in quarantine, by rejection reason.
+ */
+export async function countQuarantined(
+  pool: Pool,
+  jobId: string,
+): Promise<Partial<Record<RejectionReason, number>>> {
+  try {
+    const result = await pool.query(
+      `SELECT reason, COUNT(*) AS count FROM quarantined_events
+       WHERE job_id = $1 AND reprocessed_at IS NULL
+       GROUP BY reason`,
+      [jobId],
+    );
+    const counts: Partial<Record<RejectionReason, number>> = {};
+    for (const row of result.rows as { reason: RejectionReason; count: string }[]) {
+      counts[row.reason] = Number(row.count);
+    }
+    return counts;
+  } catch (err) {
+    throw new DbError('Failed to count quarantined items', 'countQuarantined', err);
+  }
+}
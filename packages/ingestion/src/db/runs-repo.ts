@@ -0,0 +1,98 @@
+import type { Pool } from './pool.js';
+import type { IngestionRun, RunStatus, RunSummary, RunWorkerResult } from '../types.js';
+import { DbError } from '../types.js';
+
+/**
+ * Record the start of an ingestion run. Returns the new run id.
+ */
+export async function startIngestionRun(
+  pool: Pool,
+  run: {
+    readonly jobId: string;
+    readonly mode: string;
+    readonly config: Record<string, unknown>;
+  },
+): Promise<number> {
+  try {
+    const result = await pool.query(
+      `INSERT INTO ingestion_runs (job_id, mode, config)
+       VALUES ($1, $2, $3::jsonb)
+       RETURNING run_id`,
+      [run.jobId, run.mode, JSON.stringify(run.config)],
+    );
+    return Number(result.rows[0].run_id);
+  } catch (err) {
+    throw new DbError('Failed to record ingestion run start', 'startIngestionRun', err);
+  }
+}
+
+/**
+ * Record how an ingestion run ended.
+ */
+export async function finishIngestionRun(
+  pool: Pool,
+  runId: number,
+  summary: RunSummary,
+): Promise<void> {
+  try {
+    await pool.query(
+      `UPDATE ingestion_runs
+       SET status = $2,
+           finished_at = NOW(),
+           duration_ms = $3,
+           total_fetched = $4,
+           total_inserted = $5,
+           failure_reasons = $6::jsonb,
+           worker_results = $7::jsonb
+       WHERE run_id = $1`,
+      [
+        runId,
+        summary.status,
+        String(summary.durationMs),
+        String(summary.totalFetched),
+        String(summary.totalInserted),
+        JSON.stringify(summary.failureReasons),
+        JSON.stringify(summary.workerResults),
+      ],
+    );
+  } catch (err) {
+    throw new DbError(`Failed to record end of ingestion run ${runId}`, 'finishIngestionRun', err);
+  }
+}
+
+/**
+ * List past runs, newest first, optionally for a single job.
+ */
+export async function listIngestionRuns(
+  pool: Pool,
+  options: { readonly jobId?: string; readonly limit: number },
+): Promise<IngestionRun[]> {
+  try {
+    const result = await pool.query(
+      `SELECT run_id, job_id, mode, status, config, started_at, finished_at,
+              duration_ms, total_fetched, total_inserted, failure_reasons, worker_results
+       FROM ingestion_runs
+       WHERE $1::text IS NULL OR job_id = $1
+       ORDER BY run_id DESC
+       LIMIT $2`,
+      [options.jobId ?? null, options.limit],
+    );
+
+    return result.rows.map((row) => ({
+      runId: Number(row.run_id),
+      jobId: row.job_id as string,
+      mode: row.mode as string,
+      status: row.status as RunStatus,
+      config: row.config as Record<string, unknown>,
+      startedAt: row.started_at as Date,
+      finishedAt: row.finished_at as Date | null,
+      durationMs: row.duration_ms !== null ? Number(row.duration_ms) : null,
+      totalFetched: row.total_fetched !== null ? Number(row.total_fetched) : null,
+      totalInserted: row.total_inserted !== null ? Number(row.total_inserted) : null,
+      failureReasons: row.failure_reasons as string[] | null,
+      workerResults: row.worker_results as RunWorkerResult[] | null,
+    }));
+  } catch (err) {
+    throw new DbError('Failed to list ingestion runs', 'listIngestionRuns', err);
+  }
+}
@@ -1,33 +1,141 @@
 import type { Pool } from './pool.js';
 import { DbError } from '../types.js';
 
-const CREATE_INGESTED_EVENTS = `
-  CREATE TABLE IF NOT EXISTS ingested_events (
+export const DEFAULT_EVENTS_TABLE = 'ingested_events';
+
+function createEventsTable(table: string): string {
+  return `
+  CREATE TABLE IF NOT EXISTS ${table} (
     event_id TEXT PRIMARY KEY,
     timestamp_ms BIGINT NOT NULL,
     payload JSONB NOT NULL,
     ingested_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
   );
 `;
+}
 
 const CREATE_WORKER_CHECKPOINTS = `
   CREATE TABLE IF NOT EXISTS worker_checkpoints (
-    worker_id INTEGER PRIMARY KEY,
+    job_id TEXT NOT NULL DEFAULT 'default',
+    worker_id INTEGER NOT NULL,
     chunk_start_ts BIGINT NOT NULL,
     chunk_end_ts BIGINT NOT NULL,
     cursor TEXT,
     last_ts BIGINT,
+    last_event_id TEXT,
     fetched_count BIGINT NOT NULL DEFAULT 0,
     inserted_count BIGINT NOT NULL DEFAULT 0,
     status TEXT NOT NULL DEFAULT 'running',
+    split_from INTEGER,
+    last_error TEXT,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    lease_owner TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (job_id, worker_id)
+  );
+`;
+
+const CREATE_PARTITION_LAYOUT = `
+  CREATE TABLE IF NOT EXISTS partition_layout (
+    job_id TEXT PRIMARY KEY,
+    strategy TEXT NOT NULL,
+    range_start_ts BIGINT NOT NULL,
+    range_end_ts BIGINT NOT NULL,
+    partition_count INTEGER NOT NULL,
+    chunks JSONB NOT NULL,
+    samples JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+`;
+
+const CREATE_FOLLOW_CHECKPOINT = `
+  CREATE TABLE IF NOT EXISTS follow_checkpoint (
+    job_id TEXT PRIMARY KEY,
+    high_water_ts BIGINT NOT NULL,
+    inserted_count BIGINT NOT NULL DEFAULT 0,
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
   );
 `;
 
-export async function ensureSchema(pool: Pool): Promise<void> {
+const CREATE_INGESTION_RUNS = `
+  CREATE TABLE IF NOT EXISTS ingestion_runs (
+    run_id BIGSERIAL PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    config JSONB NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    duration_ms BIGINT,
+    total_fetched BIGINT,
+    total_inserted BIGINT,
+    failure_reasons JSONB,
+    worker_results JSONB
+  );
+`;
+
+// Dead letters: page items the mappers rejected, kept until re-processed
+const CREATE_QUARANTINED_EVENTS = `
+  CREATE TABLE IF NOT EXISTS quarantined_events (
+    quarantine_id BIGSERIAL PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    raw JSONB NOT NULL,
+    raw_hash TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    worker_id INTEGER,
+    cursor TEXT,
+    quarantined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    reprocessed_at TIMESTAMPTZ,
+    UNIQUE (job_id, raw_hash)
+  );
+`;
+
+// Columns added after the initial schema; keeps existing databases resumable
+const MIGRATE_WORKER_CHECKPOINTS = `
+  ALTER TABLE worker_checkpoints ADD COLUMN IF NOT EXISTS split_from INTEGER;
+  ALTER TABLE worker_checkpoints ADD COLUMN IF NOT EXISTS last_error TEXT;
+  ALTER TABLE worker_checkpoints ADD COLUMN IF NOT EXISTS failure_count INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE worker_checkpoints ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+  ALTER TABLE worker_checkpoints ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+  ALTER TABLE worker_checkpoints ADD COLUMN IF NOT EXISTS last_event_id TEXT;
+`;
+
+/**
+ * Databases created before jobs existed keyed state by `worker_id` (or a
+ * singleton `id`). Their rows become the 'default' job.
+ */
+function migrateToJobKey(table: string, oldKey: 'worker_id' | 'id'): string {
+  const newKey = oldKey === 'worker_id' ? 'job_id, worker_id' : 'job_id';
+  const dropOld = oldKey === 'id' ? `ALTER TABLE ${table} DROP COLUMN id;` : '';
+  return `
+  DO $$
+  BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = '${table}' AND column_name = 'job_id'
+    ) THEN
+      ALTER TABLE ${table} ADD COLUMN job_id TEXT NOT NULL DEFAULT 'default';
+      ALTER TABLE ${table} DROP CONSTRAINT ${table}_pkey;
+      ${dropOld}
+      ALTER TABLE ${table} ADD PRIMARY KEY (${newKey});
+    END IF;
+  END $$;
+`;
+}
+
+export async function ensureSchema(pool: Pool, eventsTable = DEFAULT_EVENTS_TABLE): Promise<void> {
   try {
-    await pool.query(CREATE_INGESTED_EVENTS);
+    await pool.query(createEventsTable(eventsTable));
     await pool.query(CREATE_WORKER_CHECKPOINTS);
+    await pool.query(MIGRATE_WORKER_CHECKPOINTS);
+    await pool.query(migrateToJobKey('worker_checkpoints', 'worker_id'));
+    await pool.query(CREATE_PARTITION_LAYOUT);
+    await pool.query(migrateToJobKey('partition_layout', 'id'));
+    await pool.query(CREATE_FOLLOW_CHECKPOINT);
+    await pool.query(migrateToJobKey('follow_checkpoint', 'id'));
+    await pool.query(CREATE_INGESTION_RUNS);
+    await pool.query(CREATE_QUARANTINED_EVENTS);
   } catch (err) {
     throw new DbError('Failed to create schema', 'ensureSchema', err);
   }
@@ -1,41 +1,74 @@
 import type { Pool, PoolClient } from './pool.js';
-import type { WorkerCheckpoint, TimestampChunk, WorkerStatus } from '../types.js';
-import { DbError } from '../types.js';
+import type { LeaseOptions, WorkerCheckpoint, TimestampChunk, WorkerStatus } from '../types.js';
+import { DbError, LeaseLostError } from '../types.js';
 
 /**
- * Load all worker checkpoints from the database.
+ * Load all worker checkpoints of a job from the database.
  */
-export async function loadWorkerCheckpoints(pool: Pool): Promise<WorkerCheckpoint[]> {
+export async function loadWorkerCheckpoints(pool: Pool, jobId: string): Promise<WorkerCheckpoint[]> {
   try {
     const result = await pool.query(
       `SELECT worker_id, chunk_start_ts, chunk_end_ts, cursor,
-              last_ts, fetched_count, inserted_count, status
+              last_ts, last_event_id, fetched_count, inserted_count, status, split_from
        FROM worker_checkpoints
+       WHERE job_id = $1
        ORDER BY worker_id`,
+      [jobId],
     );
 
-    return result.rows.map((row) => ({
-      workerId: row.worker_id as number,
-      chunkStartTs: Number(row.chunk_start_ts),
-      chunkEndTs: Number(row.chunk_end_ts),
-      cursor: row.cursor as string | null,
-      lastTs: row.last_ts !== null ? Number(row.last_ts) : null,
-      fetchedCount: Number(row.fetched_count),
-      insertedCount: Number(row.inserted_count),
-      status: row.status as WorkerStatus,
-    }));
+    return result.rows.map(toWorkerCheckpoint);
   } catch (err) {
     throw new DbError('Failed to load worker checkpoints', 'loadWorkerCheckpoints', err);
   }
 }
 
+/**
+ * Load a single worker checkpoint, e.g. to restart a failed worker from its
+ * last committed batch.
+ */
+export async function loadWorkerCheckpoint(
+  pool: Pool,
+  workerId: number,
+  jobId: string,
+): Promise<WorkerCheckpoint | null> {
+  try {
+    const result = await pool.query(
+      `SELECT worker_id, chunk_start_ts, chunk_end_ts, cursor,
+              last_ts, last_event_id, fetched_count, inserted_count, status, split_from
+       FROM worker_checkpoints
+       WHERE job_id = $1 AND worker_id = $2`,
+      [jobId, workerId],
+    );
+    const row = result.rows[0];
+    return row ? toWorkerCheckpoint(row) : null;
+  } catch (err) {
+    throw new DbError(`Failed to load checkpoint of worker ${workerId}`, 'loadWorkerCheckpoint', err);
+  }
+}
+
+function toWorkerCheckpoint(row: Record<string, unknown>): WorkerCheckpoint {
+  return {
+    workerId: row.worker_id as number,
+    chunkStartTs: Number(row.chunk_start_ts),
+    chunkEndTs: Number(row.chunk_end_ts),
+    cursor: row.cursor as string | null,
+    lastTs: row.last_ts !== null ? Number(row.last_ts) : null,
+    lastEventId: (row.last_event_id as string | null | undefined) ?? null,
+    fetchedCount: Number(row.fetched_count),
+    insertedCount: Number(row.inserted_count),
+    status: row.status as WorkerStatus,
+    splitFrom: row.split_from as number | null,
+  };
+}
+
 /**
  * Initialize worker checkpoints for the given chunks.
  * Idempotent — uses ON CONFLICT DO NOTHING.
  */
 export async function initializeWorkerCheckpoints(
-  pool: Pool,
+  pool: Pool | PoolClient,
   chunks: readonly TimestampChunk[],
+  jobId: string,
 ): Promise<void> {
   if (chunks.length === 0) return;
 
@@ -51,12 +84,12 @@ export async function initializeWorkerCheckpoints(
 
   try {
     await pool.query(
-      `INSERT INTO worker_checkpoints (worker_id, chunk_start_ts, chunk_end_ts)
-       SELECT t.worker_id, t.chunk_start_ts, t.chunk_end_ts
-       FROM unnest($1::int[], $2::bigint[], $3::bigint[])
+      `INSERT INTO worker_checkpoints (job_id, worker_id, chunk_start_ts, chunk_end_ts)
+       SELECT $1, t.worker_id, t.chunk_start_ts, t.chunk_end_ts
+       FROM unnest($2::int[], $3::bigint[], $4::bigint[])
          AS t(worker_id, chunk_start_ts, chunk_end_ts)
-       ON CONFLICT (worker_id) DO NOTHING`,
-      [workerIds, startTimestamps, endTimestamps],
+       ON CONFLICT (job_id, worker_id) DO NOTHING`,
+      [jobId, workerIds, startTimestamps, endTimestamps],
     );
   } catch (err) {
     throw new DbError('Failed to initialize worker checkpoints', 'initializeWorkerCheckpoints', err);
@@ -64,13 +97,95 @@ export async function initializeWorkerCheckpoints(
 }
 
 /**
- * Reset all worker checkpoints (used when partition count changes).
+ * Replace all worker checkpoints with fresh ones for the given chunks, within
+ * an existing transaction (used when the partition layout is re-planned).
  */
-export async function resetAllCheckpoints(pool: Pool): Promise<void> {
+export async function replaceWorkerCheckpoints(
+  client: PoolClient,
+  chunks: readonly TimestampChunk[],
+  jobId: string,
+): Promise<void> {
   try {
-    await pool.query('TRUNCATE worker_checkpoints');
+    await client.query('DELETE FROM worker_checkpoints WHERE job_id = $1', [jobId]);
   } catch (err) {
-    throw new DbError('Failed to reset checkpoints', 'resetAllCheckpoints', err);
+    throw new DbError('Failed to clear checkpoints', 'replaceWorkerCheckpoints', err);
+  }
+  await initializeWorkerCheckpoints(client, chunks, jobId);
+}
+
+/**
+ * Split the unfinished tail of a running worker's range into a new checkpoint.
+ * The victim keeps `[splitTs, chunkEndTs)` and the new worker gets
+ * `[chunkStartTs, splitTs)`. Both rows change in one transaction so a crash
+ * can never leave part of the range unowned.
+ *
+ * The new worker id is allocated under the job lock so processes sharing the
+ * job never collide. With a lease, the victim must still be held by
+ * `lease.owner` and the new row is leased to it as well. Returns null, with
+ * nothing changed, when the victim is gone or its lease expired or moved.
+ */
+export async function splitWorkerCheckpoint(
+  pool: Pool,
+  victimWorkerId: number,
+  splitTs: number,
+  jobId: string,
+  lease: LeaseOptions | null = null,
+): Promise<number | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [jobLockKey(jobId)]);
+    const victim = await client.query(
+      `SELECT chunk_start_ts FROM worker_checkpoints
+       WHERE job_id = $1 AND worker_id = $2
+         AND ($3::text IS NULL OR (lease_owner = $3 AND lease_expires_at >= NOW()))
+       FOR UPDATE`,
+      [jobId, victimWorkerId, lease?.owner ?? null],
+    );
+    if (victim.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const chunkStartTs = String(victim.rows[0].chunk_start_ts);
+
+    const next = await client.query(
+      `SELECT COALESCE(MAX(worker_id), -1) + 1 AS worker_id
+       FROM worker_checkpoints WHERE job_id = $1`,
+      [jobId],
+    );
+    const newWorkerId = Number(next.rows[0].worker_id);
+
+    const moved = await client.query(
+      `UPDATE worker_checkpoints
+       SET chunk_start_ts = $3, updated_at = NOW()
+       WHERE job_id = $1 AND worker_id = $2
+         AND ($4::text IS NULL OR lease_owner = $4)`,
+      [jobId, victimWorkerId, String(splitTs), lease?.owner ?? null],
+    );
+    if (moved.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    await client.query(
+      `INSERT INTO worker_checkpoints
+         (job_id, worker_id, chunk_start_ts, chunk_end_ts, split_from, lease_owner, lease_expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6,
+               CASE WHEN $6::text IS NULL THEN NULL
+                    ELSE NOW() + $7::int * INTERVAL '1 millisecond' END)`,
+      [jobId, newWorkerId, chunkStartTs, String(splitTs), victimWorkerId,
+        lease?.owner ?? null, lease?.ttlMs ?? 0],
+    );
+    await client.query('COMMIT');
+    return newWorkerId;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {/* ignore rollback errors */});
+    throw new DbError(
+      `Failed to split checkpoint of worker ${victimWorkerId}`,
+      'splitWorkerCheckpoint',
+      err,
+    );
+  } finally {
+    client.release();
   }
 }
 
@@ -83,30 +198,40 @@ export async function upsertWorkerCheckpoint(
     readonly workerId: number;
     readonly cursor: string | null;
     readonly lastTs: number | null;
+    readonly lastEventId: string | null;
     readonly fetchedCount: number;
     readonly insertedCount: number;
     readonly status: WorkerStatus;
   },
+  jobId: string,
+  leaseOwner: string | null = null,
 ): Promise<void> {
+  let updated: number;
   try {
-    await client.query(
+    const result = await client.query(
       `UPDATE worker_checkpoints
-       SET cursor = $2,
-           last_ts = $3,
-           fetched_count = $4,
-           inserted_count = $5,
-           status = $6,
+       SET cursor = $3,
+           last_ts = $4,
+           last_event_id = $5,
+           fetched_count = $6,
+           inserted_count = $7,
+           status = $8,
            updated_at = NOW()
-       WHERE worker_id = $1`,
+       WHERE job_id = $1 AND worker_id = $2
+         AND ($9::text IS NULL OR lease_owner = $9)`,
       [
+        jobId,
         checkpoint.workerId,
         checkpoint.cursor,
         checkpoint.lastTs !== null ? String(checkpoint.lastTs) : null,
+        checkpoint.lastEventId,
         String(checkpoint.fetchedCount),
         String(checkpoint.insertedCount),
         checkpoint.status,
+        leaseOwner,
       ],
     );
+    updated = result.rowCount ?? 0;
   } catch (err) {
     throw new DbError(
       `Failed to upsert checkpoint for worker ${checkpoint.workerId}`,
@@ -114,4 +239,169 @@ export async function upsertWorkerCheckpoint(
       err,
     );
   }
+
+  // Another process took over the lease; the caller must roll back
+  if (leaseOwner !== null && updated === 0) {
+    throw new LeaseLostError(
+      `Worker ${checkpoint.workerId} is no longer leased to ${leaseOwner}`,
+      checkpoint.workerId,
+    );
+  }
+}
+
+/**
+ * Mark a worker as failed and record the error. Progress columns are left
+ * alone so a restart resumes from the last committed batch. With a lease
+ * owner, a row another process has taken over is left untouched.
+ */
+export async function markWorkerFailed(
+  pool: Pool,
+  workerId: number,
+  error: string,
+  jobId: string,
+  leaseOwner: string | null = null,
+): Promise<void> {
+  try {
+    await pool.query(
+      `UPDATE worker_checkpoints
+       SET status = 'failed',
+           last_error = $3,
+           failure_count = failure_count + 1,
+           updated_at = NOW()
+       WHERE job_id = $1 AND worker_id = $2
+         AND ($4::text IS NULL OR lease_owner = $4)`,
+      [jobId, workerId, error, leaseOwner],
+    );
+  } catch (err) {
+    throw new DbError(`Failed to mark worker ${workerId} as failed`, 'markWorkerFailed', err);
+  }
+}
+
+// ── Leasing (multi-process mode) ──
+
+function jobLockKey(jobId: string): string {
+  return `ingest:${jobId}`;
+}
+
+/**
+ * Run `fn` while holding the job's advisory lock, so only one process at a
+ * time plans the layout or allocates worker ids for a job.
+ */
+export async function withJobLock<T>(pool: Pool, jobId: string, fn: () => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    try {
+      await client.query('SELECT pg_advisory_lock(hashtext($1))', [jobLockKey(jobId)]);
+    } catch (err) {
+      throw new DbError(`Failed to lock job ${jobId}`, 'withJobLock', err);
+    }
+    return await fn();
+  } finally {
+    await client.query('SELECT pg_advisory_unlock(hashtext($1))', [jobLockKey(jobId)])
+      .catch(() => {/* released with the session anyway */});
+    client.release();
+  }
+}
+
+/**
+ * Claim one unfinished checkpoint that nobody holds (or whose lease has
+ * expired). `SKIP LOCKED` lets concurrent claimers pass over rows another
+ * process is claiming instead of queueing behind it.
+ */
+export async function claimWorkerCheckpoint(
+  pool: Pool,
+  jobId: string,
+  lease: LeaseOptions,
+  excludeWorkerIds: readonly number[],
+): Promise<WorkerCheckpoint | null> {
+  try {
+    const result = await pool.query(
+      `UPDATE worker_checkpoints AS wc
+       SET lease_owner = $2,
+           lease_expires_at = NOW() + $3::int * INTERVAL '1 millisecond',
+           updated_at = NOW()
+       FROM (
+         SELECT job_id, worker_id FROM worker_checkpoints
+         WHERE job_id = $1
+           AND status <> 'completed'
+           AND (lease_owner IS NULL OR lease_expires_at < NOW())
+           AND NOT (worker_id = ANY($4::int[]))
+         ORDER BY worker_id
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       ) AS next
+       WHERE wc.job_id = next.job_id AND wc.worker_id = next.worker_id
+       RETURNING wc.worker_id, wc.chunk_start_ts, wc.chunk_end_ts, wc.cursor,
+                 wc.last_ts, wc.last_event_id, wc.fetched_count, wc.inserted_count, wc.status, wc.split_from`,
+      [jobId, lease.owner, lease.ttlMs, excludeWorkerIds],
+    );
+    const row = result.rows[0];
+    return row ? toWorkerCheckpoint(row) : null;
+  } catch (err) {
+    throw new DbError('Failed to claim a worker checkpoint', 'claimWorkerCheckpoint', err);
+  }
+}
+
+/**
+ * Extend the leases `lease.owner` still holds. Returns the worker ids that
+ * were renewed; any missing id was taken over by another process.
+ */
+export async function renewLeases(
+  pool: Pool,
+  jobId: string,
+  lease: LeaseOptions,
+  workerIds: readonly number[],
+): Promise<number[]> {
+  if (workerIds.length === 0) return [];
+  try {
+    const result = await pool.query(
+      `UPDATE worker_checkpoints
+       SET lease_expires_at = NOW() + $3::int * INTERVAL '1 millisecond'
+       WHERE job_id = $1 AND lease_owner = $2 AND worker_id = ANY($4::int[])
+       RETURNING worker_id`,
+      [jobId, lease.owner, lease.ttlMs, workerIds],
+    );
+    return result.rows.map((row) => row.worker_id as number);
+  } catch (err) {
+    throw new DbError('Failed to renew leases', 'renewLeases', err);
+  }
+}
+
+/**
+ * Give a lease back so other processes can claim the checkpoint right away.
+ */
+export async function releaseLease(
+  pool: Pool,
+  jobId: string,
+  owner: string,
+  workerId: number,
+): Promise<void> {
+  try {
+    await pool.query(
+      `UPDATE worker_checkpoints
+       SET lease_owner = NULL, lease_expires_at = NULL
+       WHERE job_id = $1 AND worker_id = $2 AND lease_owner = $3`,
+      [jobId, workerId, owner],
+    );
+  } catch (err) {
+    throw new DbError(`Failed to release lease of worker ${workerId}`, 'releaseLease', err);
+  }
+}
+
+/**
+ * Count unfinished checkpoints that processes other than `owner` hold
+ * unexpired leases on.
+ */
+export async function countForeignLeases(pool: Pool, jobId: string, owner: string): Promise<number> {
+  try {
+    const result = await pool.query(
+      `SELECT COUNT(*) AS count FROM worker_checkpoints
+       WHERE job_id = $1 AND lease_owner IS NOT NULL AND lease_owner <> $2
+         AND lease_expires_at >= NOW() AND status <> 'completed'`,
+      [jobId, owner],
+    );
+    return Number(result.rows[0].count);
+  } catch (err) {
+    throw new DbError('Failed to count leases', 'countForeignLeases', err);
+  }
 }
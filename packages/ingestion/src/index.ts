@@ -3,17 +3,29 @@ import { createLogger } from './logger.js';
 import { createPool } from './db/pool.js';
 import { ensureSchema } from './db/schema.js';
 import { createHttpClient } from './api/http-client.js';
+import type { HttpClient } from './api/http-client.js';
+import { createRecordingHttpClient, createReplayHttpClient, loadHttpFixtures } from './api/http-recording.js';
 import { createStreamAccessManager } from './api/stream-access.js';
 import { createEventsSource } from './api/events-source.js';
 import { createRateLimiter } from './api/middleware/rate-limit.js';
+import { createRetryBudget } from './api/middleware/retry.js';
+import { createCircuitBreaker } from './api/middleware/circuit-breaker.js';
 import { createDbQueue } from './core/db-queue.js';
 import { createMetrics } from './core/metrics.js';
 import { createOrchestrator } from './core/orchestrator.js';
 import { startHealthServer } from './core/health.js';
 import { submitResults } from './core/submitter.js';
 import { runExploration } from './core/explore.js';
+import { createFollower } from './core/follower.js';
+import { listRuns } from './core/run-history.js';
+import { createWindowBackfill } from './core/backfill.js';
+import { runGapRepair } from './core/repair.js';
+import { reprocessQuarantine } from './core/quarantine.js';
+import { createBulkEventsClient } from './api/bulk-events.js';
+import { createConcurrencyController, withConcurrencyLimit } from './core/concurrency.js';
 import type { Server } from 'node:http';
 import type { Pool } from './db/pool.js';
+import type { AppConfig } from './types.js';
 
 const logger = createLogger();
 
@@ -41,17 +53,41 @@ async function shutdown(signal: string): Promise<void> {
 process.on('SIGTERM', () => { void shutdown('SIGTERM'); });
 process.on('SIGINT', () => { void shutdown('SIGINT'); });
 
+// The real API, the real API with every exchange recorded, or a recording
+async function initHttpClient(config: AppConfig): Promise<HttpClient> {
+  if (config.httpReplayDir !== null) {
+    const fixtures = await loadHttpFixtures(config.httpReplayDir);
+    logger.info({ dir: config.httpReplayDir, exchanges: fixtures.length }, 'Replaying recorded API responses');
+    return createReplayHttpClient(fixtures, logger);
+  }
+  const httpClient = createHttpClient(config);
+  if (config.httpRecordDir !== null) {
+    logger.info({ dir: config.httpRecordDir }, 'Recording API exchanges');
+    return createRecordingHttpClient(httpClient, config.httpRecordDir, logger);
+  }
+  return httpClient;
+}
+
 async function main(): Promise<void> {
   const config = loadConfig();
-  logger.info({ mode: config.mode, partitionCount: config.partitionCount }, 'Starting datasync-forge');
+  logger.info(
+    {
+      mode: config.mode,
+      jobId: config.jobId,
+      partitionCount: config.partitionCount,
+      leaseOwner: config.leasing ? config.leaseOwner : null,
+    },
+    'Starting datasync-forge',
+  );
 
   // Initialize database
   pool = createPool(config, logger);
-  await ensureSchema(pool);
+  await ensureSchema(pool, config.eventsTable);
   logger.info('Database schema ensured');
 
-  // Initialize HTTP client
-  const httpClient = createHttpClient(config);
+  // Initialize HTTP client; every API caller draws retries from one budget
+  const httpClient = await initHttpClient(config);
+  const retryBudget = createRetryBudget(config);
 
   if (config.mode === 'explore') {
     await runExploration(httpClient, config, logger);
@@ -59,12 +95,72 @@ async function main(): Promise<void> {
     return;
   }
 
-  // Ingest mode
-  const rateLimiter = createRateLimiter(logger);
-  const streamManager = createStreamAccessManager(httpClient, config, logger);
-  const source = createEventsSource(httpClient, streamManager, rateLimiter, config, logger);
-  const dbQueue = createDbQueue(pool, config.dbWriteConcurrency, config.maxPendingWrites);
+  if (config.mode === 'runs') {
+    await listRuns(pool, config, logger);
+    await pool.end();
+    return;
+  }
+
+  if (config.mode === 'reprocess') {
+    await reprocessQuarantine({ pool, config, logger });
+    await pool.end();
+    return;
+  }
+
+  if (config.mode === 'repair') {
+    const bulk = createBulkEventsClient(
+      httpClient,
+      createRateLimiter(logger),
+      config,
+      logger,
+      retryBudget,
+      config.circuitBreaker ? createCircuitBreaker(config, logger) : undefined,
+    );
+    await runGapRepair({ pool, config, bulk, logger });
+    await pool.end();
+    return;
+  }
+
+  // Ingest mode (follow mode backfills first, then tails the feed;
+  // backfill mode only ingests the BACKFILL_SINCE..BACKFILL_UNTIL window)
   const metrics = createMetrics(config.partitionCount);
+  const rateLimiter = createRateLimiter(logger, metrics);
+  const circuitBreaker = config.circuitBreaker ? createCircuitBreaker(config, logger, metrics) : undefined;
+  const streamManager = createStreamAccessManager(httpClient, config, logger);
+  const apiSource = createEventsSource(
+    httpClient,
+    streamManager,
+    rateLimiter,
+    config,
+    logger,
+    metrics,
+    retryBudget,
+    circuitBreaker,
+  );
+  if (config.sourceBenchmark) {
+    await apiSource.benchmark();
+  }
+  const dbQueue = createDbQueue(pool, config.dbWriteConcurrency, config.maxPendingWrites, {
+    jobId: config.jobId,
+    eventsTable: config.eventsTable,
+    leaseOwner: config.leasing ? config.leaseOwner : null,
+  });
+
+  // Adaptive concurrency: cap fetches in flight below PARTITION_COUNT on 429s/timeouts
+  const concurrency = config.adaptiveConcurrency
+    ? createConcurrencyController({
+      rateLimiter,
+      metrics,
+      logger,
+      min: config.concurrencyMin,
+      max: config.partitionCount,
+      intervalMs: config.concurrencyIntervalMs,
+    })
+    : null;
+  concurrency?.start();
+  const source = concurrency !== null
+    ? withConcurrencyLimit(apiSource, concurrency, metrics)
+    : apiSource;
 
   // Start health server
   healthServer = startHealthServer(config.healthPort, metrics, logger);
@@ -79,6 +175,14 @@ async function main(): Promise<void> {
     metrics,
   });
 
+  const follower = config.mode === 'follow'
+    ? createFollower({ pool, config, source, logger, metrics })
+    : null;
+
+  const backfill = config.mode === 'backfill'
+    ? createWindowBackfill({ pool, config, source, logger, metrics })
+    : null;
+
   // Override shutdown to use orchestrator
   process.removeAllListeners('SIGTERM');
   process.removeAllListeners('SIGINT');
@@ -89,8 +193,16 @@ async function main(): Promise<void> {
     logger.info({ signal }, 'Shutdown signal received');
 
     orchestrator.stopFetching();
+    follower?.stop();
+    concurrency?.stop();
+    await backfill?.stop().catch((err: unknown) => {
+      logger.error({ err }, 'Failed to stop window backfill');
+    });
     await dbQueue.drain();
     await orchestrator.saveAllCheckpoints();
+    await orchestrator.markInterrupted().catch((err: unknown) => {
+      logger.error({ err }, 'Failed to record interrupted run');
+    });
 
     if (healthServer) healthServer.close();
     if (pool) await pool.end();
@@ -103,13 +215,25 @@ async function main(): Promise<void> {
   process.on('SIGINT', () => { void gracefulShutdown('SIGINT'); });
 
   try {
+    // A window backfill replaces the full-range run; nothing is submitted
+    if (backfill) {
+      await backfill.run();
+      return;
+    }
+
     // Run ingestion
     await orchestrator.run();
 
     // Auto-submit if configured
     await submitResults(pool, httpClient, config, logger);
+
+    // Keep ingesting new events until a shutdown signal arrives
+    if (follower) {
+      await follower.run();
+    }
   } finally {
     // Guaranteed cleanup even on errors
+    concurrency?.stop();
     if (healthServer) healthServer.close();
     if (pool) await pool.end();
   }
@@ -1,4 +1,13 @@
-import type { RawEvent, IngestionEvent, NormalizedPage } from './types.js';
+import type {
+  RawEvent,
+  IngestionEvent,
+  NormalizedPage,
+  PageAnomaly,
+  PageValidation,
+  RejectedItem,
+  RejectionReason,
+} from './types.js';
+import { ApiError } from './types.js';
 
 // ── Timestamp normalization ──
 
@@ -24,32 +33,81 @@ export function normalizeTimestampMs(value: unknown): number {
 
 // ── Event mapping ──
 
-export function toIngestionEvent(raw: RawEvent): IngestionEvent | null {
-  if (!raw.id || typeof raw.id !== 'string') return null;
+// Source text of events parsed one at a time from a streamed page
+const rawJsonTexts = new WeakMap<object, string>();
+
+/**
+ * Parse one event from its JSON text. An event that maps is cut down to its
+ * `id` and `timestamp`, and the text is remembered so `toIngestionEvent`
+ * uses it as the payload: a streamed page then holds each event once, as
+ * text, instead of as a parsed object plus a serialized copy. Items that
+ * don't map are returned whole, so quarantine keeps them as received.
+ */
+export function parseEventJson(text: string): unknown {
+  const value: unknown = JSON.parse(text);
+  if (rejectionReason(value) !== null) return value;
+  const { id, timestamp } = value as RawEvent;
+  const event: RawEvent = { id, timestamp };
+  rawJsonTexts.set(event, text);
+  return event;
+}
+
+/**
+ * `JSON.stringify` replacer that writes events from `parseEventJson` as
+ * the full event they were parsed from rather than the `id`/`timestamp`
+ * stub, for code that serializes a streamed page.
+ */
+export function streamedEventReplacer(_key: string, value: unknown): unknown {
+  const text = typeof value === 'object' && value !== null ? rawJsonTexts.get(value) : undefined;
+  return text === undefined ? value : JSON.parse(text);
+}
 
-  let timestampMs: number;
+/**
+ * Why `item` can't be ingested, or null when it maps to an event.
+ */
+export function rejectionReason(item: unknown): RejectionReason | null {
+  if (!isRecord(item)) return 'not-a-record';
+  if (!item['id'] || typeof item['id'] !== 'string') return 'missing-id';
   try {
-    timestampMs = normalizeTimestampMs(raw.timestamp);
+    normalizeTimestampMs(item['timestamp']);
   } catch {
-    return null;
+    return 'invalid-timestamp';
   }
+  return null;
+}
+
+export function toIngestionEvent(raw: RawEvent): IngestionEvent | null {
+  if (rejectionReason(raw) !== null) return null;
 
   return {
     eventId: raw.id,
-    timestampMs,
-    payload: JSON.stringify(raw),
+    timestampMs: normalizeTimestampMs(raw.timestamp),
+    payload: rawJsonTexts.get(raw) ?? JSON.stringify(raw),
   };
 }
 
 export function toIngestionEvents(rawEvents: readonly RawEvent[]): IngestionEvent[] {
-  const result: IngestionEvent[] = [];
+  return mapRawEvents(rawEvents).events;
+}
+
+/**
+ * Map raw events, keeping the ones that don't map together with the reason.
+ */
+export function mapRawEvents(rawEvents: readonly unknown[]): {
+  events: IngestionEvent[];
+  rejected: RejectedItem[];
+} {
+  const events: IngestionEvent[] = [];
+  const rejected: RejectedItem[] = [];
   for (const raw of rawEvents) {
-    const event = toIngestionEvent(raw);
-    if (event !== null) {
-      result.push(event);
+    const reason = rejectionReason(raw);
+    if (reason !== null) {
+      rejected.push({ raw, reason });
+    } else {
+      events.push(toIngestionEvent(raw as RawEvent)!);
     }
   }
-  return result;
+  return { events, rejected };
 }
 
 // ── Page normalization ──
@@ -80,35 +138,59 @@ function isRecord(val: unknown): val is Record<string, unknown> {
   return typeof val === 'object' && val !== null && !Array.isArray(val);
 }
 
-export function normalizePage(raw: unknown): NormalizedPage {
+type AnomalyFn = (anomaly: PageAnomaly, detail: string) => void;
+
+/**
+ * Normalize an events page in the flat or the nested shape.
+ *
+ * The body must match one of the two shapes and carry a boolean `hasMore`,
+ * with a `nextCursor` exactly when `hasMore` is true. With `strict`
+ * validation the first mismatch throws an `ApiError` whose `errorType` is
+ * the anomaly; `lenient` validation reads what it can, as an empty last
+ * page if nothing else, and lists the anomalies on the page.
+ */
+export function normalizePage(raw: unknown, validation: PageValidation = 'lenient'): NormalizedPage {
+  const anomalies: PageAnomaly[] = [];
+  const page = readPage(raw, (anomaly, detail) => {
+    if (validation === 'strict') throw new ApiError(`Invalid events page: ${detail}`, anomaly);
+    anomalies.push(anomaly);
+  });
+  return anomalies.length > 0 ? { ...page, anomalies } : page;
+}
+
+function readPage(raw: unknown, anomaly: AnomalyFn): NormalizedPage {
   if (!isRecord(raw)) {
+    anomaly('unknown-shape', 'body is not an object');
     return { events: [], hasMore: false, nextCursor: null, total: null };
   }
 
   // Check for nested format: { data: { data: [...], pagination: {...} } }
   if (isRecord(raw['data']) && Array.isArray((raw['data'] as Record<string, unknown>)['data'])) {
     const nested = raw as unknown as NestedPageShape;
-    const events = extractRawEvents(nested.data.data);
+    const { events, rejected } = extractRawEvents(nested.data.data);
     const pagination = nested.data.pagination;
     const meta = nested.data.meta;
+    checkPagination(pagination, anomaly);
 
     return {
       events,
       hasMore: pagination?.hasMore ?? false,
       nextCursor: pagination?.nextCursor ?? null,
       total: meta?.total ?? null,
+      rejected,
     };
   }
 
   // Flat format: { data: [...], hasMore, nextCursor }
   if (Array.isArray(raw['data'])) {
     const flat = raw as unknown as FlatPageShape;
-    const events = extractRawEvents(flat.data);
+    const { events, rejected } = extractRawEvents(flat.data);
 
     // Also check for pagination at root level
     const pagination = isRecord(raw['pagination'])
       ? (raw['pagination'] as Record<string, unknown>)
       : raw;
+    checkPagination(pagination, anomaly);
 
     return {
       events,
@@ -117,18 +199,41 @@ export function normalizePage(raw: unknown): NormalizedPage {
       total: isRecord(raw['meta'])
         ? ((raw['meta'] as Record<string, unknown>)['total'] as number | null) ?? null
         : null,
+      rejected,
     };
   }
 
+  anomaly('unknown-shape', 'no events array at data or data.data');
   return { events: [], hasMore: false, nextCursor: null, total: null };
 }
 
-function extractRawEvents(data: unknown[]): RawEvent[] {
+// A page that can't say whether there is more would end the worker's range early
+function checkPagination(pagination: Record<string, unknown> | undefined, anomaly: AnomalyFn): void {
+  const hasMore = pagination?.['hasMore'];
+  if (typeof hasMore !== 'boolean') {
+    anomaly('missing-pagination', hasMore === undefined
+      ? 'hasMore is missing'
+      : `hasMore is not a boolean: ${JSON.stringify(hasMore)}`);
+    return;
+  }
+  const nextCursor = pagination!['nextCursor'];
+  const hasCursor = typeof nextCursor === 'string' && nextCursor.length > 0;
+  if (hasMore !== hasCursor) {
+    anomaly('cursor-mismatch', `hasMore is ${hasMore} but nextCursor is ${JSON.stringify(nextCursor ?? null)}`);
+  }
+}
+
+// Items without a string id can't be placed or deduplicated, so they're
+// rejected here; timestamps are checked later by the event mappers
+function extractRawEvents(data: unknown[]): { events: RawEvent[]; rejected: RejectedItem[] } {
   const events: RawEvent[] = [];
+  const rejected: RejectedItem[] = [];
   for (const item of data) {
     if (isRecord(item) && typeof item['id'] === 'string') {
       events.push(item as RawEvent);
+    } else {
+      rejected.push({ raw: item, reason: isRecord(item) ? 'missing-id' : 'not-a-record' });
     }
   }
-  return events;
+  return { events, rejected };
 }
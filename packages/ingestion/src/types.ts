@@ -19,6 +19,36 @@ export interface NormalizedPage {
   readonly hasMore: boolean;
   readonly nextCursor: string | null;
   readonly total: number | null;
+  readonly rejected?: readonly RejectedItem[]; // Page items that aren't events
+  readonly anomalies?: readonly PageAnomaly[]; // Schema problems tolerated by lenient validation
+}
+
+// ── Page validation types ──
+
+export type PageValidation = 'strict' | 'lenient';
+
+export type PageAnomaly = 'unknown-shape' | 'missing-pagination' | 'cursor-mismatch';
+
+export type ResponseFormat = 'json' | 'csv' | 'ndjson';
+
+// ── Quarantine types ──
+
+export type RejectionReason = 'not-a-record' | 'missing-id' | 'invalid-timestamp';
+
+// An item the mappers couldn't turn into an event, kept as it arrived
+export interface RejectedItem {
+  readonly raw: unknown;
+  readonly reason: RejectionReason;
+}
+
+export interface QuarantineItem extends RejectedItem {
+  readonly workerId: number | null; // Null outside partition workers (follow mode)
+  readonly cursor: string | null; // Cursor of the page it came from
+}
+
+export interface QuarantinedRow extends QuarantineItem {
+  readonly quarantineId: number;
+  readonly quarantinedAt: Date;
 }
 
 export interface StreamAccess {
@@ -44,9 +74,16 @@ export interface WorkerCheckpoint {
   readonly chunkEndTs: number;
   readonly cursor: string | null;
   readonly lastTs: number | null;
+  readonly lastEventId: string | null; // Breaks ties between events sharing lastTs
   readonly fetchedCount: number;
   readonly insertedCount: number;
   readonly status: WorkerStatus;
+  readonly splitFrom: number | null; // Worker whose range this chunk was stolen from
+}
+
+export interface FollowCheckpoint {
+  readonly highWaterTs: number; // Newest event timestamp fully ingested
+  readonly insertedCount: number;
 }
 
 export interface TimestampChunk {
@@ -54,6 +91,66 @@ export interface TimestampChunk {
   readonly endTs: number;
 }
 
+export interface DensitySample {
+  readonly segmentStartTs: number;
+  readonly probeTs: number; // Forged cursor position (segment upper bound)
+  readonly returned: number;
+  readonly spanMs: number;
+  readonly estimatedCount: number;
+  readonly total: number | null;
+}
+
+export interface PartitionLayout {
+  readonly strategy: 'equal' | 'density' | 'sequential';
+  readonly startTs: number;
+  readonly endTs: number;
+  readonly partitionCount: number;
+  readonly chunks: readonly TimestampChunk[];
+  readonly samples: readonly DensitySample[];
+}
+
+// ── Run history types ──
+
+export const RunStatus = {
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  INTERRUPTED: 'interrupted',
+} as const;
+
+export type RunStatus = (typeof RunStatus)[keyof typeof RunStatus];
+
+export interface RunWorkerResult {
+  readonly workerId: number;
+  readonly status: WorkerStatus;
+  readonly fetchedCount: number; // During this run only
+  readonly insertedCount: number;
+}
+
+export interface RunSummary {
+  readonly status: RunStatus;
+  readonly durationMs: number;
+  readonly totalFetched: number;
+  readonly totalInserted: number;
+  readonly failureReasons: readonly string[];
+  readonly workerResults: readonly RunWorkerResult[];
+}
+
+export interface IngestionRun {
+  readonly runId: number;
+  readonly jobId: string;
+  readonly mode: string;
+  readonly status: RunStatus;
+  readonly config: Record<string, unknown>; // Redacted snapshot
+  readonly startedAt: Date;
+  readonly finishedAt: Date | null;
+  readonly durationMs: number | null;
+  readonly totalFetched: number | null;
+  readonly totalInserted: number | null;
+  readonly failureReasons: readonly string[] | null;
+  readonly workerResults: readonly RunWorkerResult[] | null;
+}
+
 // ── Metrics types ──
 
 export interface WorkerMetrics {
@@ -73,7 +170,84 @@ export interface MetricsSnapshot {
   readonly activeWorkers: number;
   readonly workers: readonly WorkerMetrics[];
   readonly uptimeSeconds: number;
-  readonly rateLimitRemaining: number | null;
+  readonly rateLimitRemaining: number | null; // Lowest server-reported remaining across endpoints
+  readonly rateLimits: readonly RateLimitBucketState[];
+  readonly fetchLatencyMsEma: number | null;
+  readonly concurrency: ConcurrencyState | null;
+  readonly source: SourceState | null;
+  readonly circuits: readonly CircuitState[];
+  readonly quarantined: Readonly<Partial<Record<RejectionReason, number>>>; // Rejected items seen, by reason
+  readonly pageAnomalies: Readonly<Partial<Record<PageAnomaly, number>>>; // Pages with each anomaly
+}
+
+// ── Rate limit types ──
+
+export interface RateLimitBucketState {
+  readonly endpoint: string; // Source strategy or API operation sharing one quota
+  readonly limit: number | null; // X-RateLimit-Limit; null until the endpoint reports it
+  readonly remaining: number | null; // Last X-RateLimit-Remaining
+  readonly resetAtMs: number | null;
+  readonly tokens: number | null; // Requests that can start without waiting
+  readonly refillPerSecond: number | null;
+  readonly adaptiveDelayMs: number; // Extra delay after 429s
+  readonly consecutive429s: number;
+  readonly total429s: number;
+}
+
+// ── Circuit breaker types ──
+
+export type CircuitStatus = 'closed' | 'open' | 'half-open';
+
+export interface CircuitState {
+  readonly endpoint: string;
+  readonly status: CircuitStatus;
+  readonly recentRequests: number; // Outcomes the failure rate is taken over
+  readonly recentFailures: number;
+  readonly openedAtMs: number | null;
+  readonly opens: number;
+  readonly rejected: number; // Requests turned away while open
+}
+
+// ── Concurrency control types ──
+
+export type ConcurrencyReason = 'healthy' | 'rate-limited' | 'timeout' | 'latency';
+
+export interface ConcurrencyDecision {
+  readonly atMs: number;
+  readonly previousLimit: number;
+  readonly limit: number;
+  readonly reason: ConcurrencyReason;
+  readonly new429s: number;
+  readonly newTimeouts: number;
+  readonly fetchLatencyMs: number | null;
+}
+
+export interface ConcurrencyState {
+  readonly limit: number; // Fetches allowed in flight
+  readonly min: number;
+  readonly max: number;
+  readonly active: number;
+  readonly waiting: number;
+  readonly decisions: readonly ConcurrencyDecision[]; // Most recent last
+}
+
+// ── Source strategy types ──
+
+export type SourceSwitchReason = 'benchmark' | 'failure' | 'recovered';
+
+export interface SourceSwitch {
+  readonly atMs: number;
+  readonly from: string;
+  readonly to: string;
+  readonly reason: SourceSwitchReason;
+}
+
+export interface SourceState {
+  readonly active: string;
+  readonly disabled: readonly string[]; // Failed strategies waiting for a recovery probe
+  readonly probes: number;
+  readonly recoveries: number;
+  readonly switches: readonly SourceSwitch[]; // Most recent last
 }
 
 // ── Error types ──
@@ -84,22 +258,37 @@ export class HttpError extends Error {
     readonly status: number,
     readonly method: string,
     readonly url: string,
+    readonly headers: Headers | null = null, // Null when no response arrived
+    readonly body: unknown = null,
   ) {
     super(message);
     this.name = 'HttpError';
   }
 }
 
+// The API answered, but not with something we can read; `errorType` names the problem
 export class ApiError extends Error {
   constructor(
     message: string,
-    readonly errorType: string,
+    readonly errorType: string, // A PageAnomaly for page validation failures
   ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
+// A request was not sent because the endpoint's circuit breaker is open
+export class CircuitOpenError extends Error {
+  constructor(
+    message: string,
+    readonly endpoint: string,
+    readonly retryAtMs: number | null, // Null while a half-open probe is in flight
+  ) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 export class DbError extends Error {
   constructor(
     message: string,
@@ -111,13 +300,56 @@ export class DbError extends Error {
   }
 }
 
+// A checkpoint write was rejected because another process now holds the lease
+export class LeaseLostError extends Error {
+  constructor(
+    message: string,
+    readonly workerId: number,
+  ) {
+    super(message);
+    this.name = 'LeaseLostError';
+  }
+}
+
+// A worker that kept failing after its restart budget ran out
+export class WorkerFailedError extends Error {
+  constructor(
+    message: string,
+    readonly checkpoint: WorkerCheckpoint,
+    readonly attempts: number,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'WorkerFailedError';
+  }
+}
+
+// ── Job types ──
+
+// Namespaces resumable state so several ingestion jobs can share a database
+export interface JobScope {
+  readonly jobId: string;
+  readonly eventsTable: string;
+}
+
+// A checkpoint lease held by one ingestion process (LEASING=true)
+export interface LeaseOptions {
+  readonly owner: string;
+  readonly ttlMs: number;
+}
+
+// Checkpoint writes are fenced on the lease owner; null when leasing is off
+export interface WriteScope extends JobScope {
+  readonly leaseOwner: string | null;
+}
+
 // ── Config type ──
 
-export interface AppConfig {
+export interface AppConfig extends JobScope {
   readonly databaseUrl: string;
   readonly apiBaseUrl: string;
   readonly apiKey: string;
-  readonly mode: 'ingest' | 'explore';
+  readonly mode: 'ingest' | 'explore' | 'follow' | 'runs' | 'backfill' | 'repair' | 'reprocess';
   readonly partitionCount: number;
   readonly batchSize: number;
   readonly dbWriteConcurrency: number;
@@ -128,9 +360,44 @@ export interface AppConfig {
   readonly githubRepoUrl: string;
   readonly minTimestampMs: number;
   readonly maxTimestampMs: number;
+  readonly timeRangeCheck: 'warn' | 'fail' | 'off';
   readonly progressLogIntervalMs: number;
   readonly requestTimeoutMs: number;
   readonly maxRetries: number;
   readonly retryBaseMs: number;
   readonly retryMaxMs: number;
+  readonly retryBudgetPercent: number; // Retries allowed per 100 first attempts
+  readonly retryBudgetMin: number; // Retries always allowed per window
+  readonly circuitBreaker: boolean;
+  readonly circuitFailurePercent: number;
+  readonly circuitMinRequests: number;
+  readonly circuitOpenMs: number;
+  readonly workStealing: boolean;
+  readonly stealMinRangeMs: number;
+  readonly densitySamples: number;
+  readonly densitySampleSize: number;
+  readonly followPollIntervalMs: number;
+  readonly workerMaxRestarts: number;
+  readonly workerRestartBaseMs: number;
+  readonly workerRestartMaxMs: number;
+  readonly leasing: boolean;
+  readonly leaseOwner: string;
+  readonly leaseTtlMs: number;
+  readonly adaptiveConcurrency: boolean;
+  readonly concurrencyMin: number;
+  readonly concurrencyIntervalMs: number;
+  readonly backfillSinceMs: number | null;
+  readonly backfillUntilMs: number | null;
+  readonly sourceStrategies: readonly string[]; // Preference order
+  readonly sourceBenchmark: boolean;
+  readonly sourceBenchmarkRequests: number;
+  readonly sourceRecoveryMs: number; // 0 = failed strategies stay disabled
+  readonly cursorCheck: boolean;
+  readonly pageValidation: PageValidation;
+  readonly streamJson: boolean;
+  readonly responseFormat: ResponseFormat; // Requested from source strategies
+  readonly httpRecordDir: string | null;
+  readonly httpReplayDir: string | null;
+  readonly repairIdsFile: string | null;
+  readonly repairBatchSize: number;
 }
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createWindowBackfill, windowJobId } from '../src/core/backfill.js';
+import { forgeCursor } from '../src/core/cursor-forge.js';
+import { createMetrics } from '../src/core/metrics.js';
+import type { EventsSource } from '../src/api/events-source.js';
+import type { Pool } from '../src/db/pool.js';
+import type { AppConfig, NormalizedPage } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+const config = {
+  jobId: 'default',
+  eventsTable: 'ingested_events',
+  partitionCount: 1,
+  batchSize: 10,
+  dbWriteConcurrency: 1,
+  maxPendingWrites: 10,
+  workerMaxRestarts: 0,
+  workerRestartBaseMs: 1,
+  workerRestartMaxMs: 1,
+  backfillSinceMs: T,
+  backfillUntilMs: T + 1000,
+} as AppConfig;
+
+interface Row {
+  worker_id: number;
+  chunk_start_ts: string;
+  chunk_end_ts: string;
+  cursor: string | null;
+  last_ts: string | null;
+  fetched_count: string;
+  inserted_count: string;
+  status: string;
+  split_from: number | null;
+}
+
+/** In-memory stand-in for the tables a window backfill touches. */
+function createFakePool(options: { insertedPerBatch: number; countInWindow: number }) {
+  const rows = new Map<number, Row>();
+  const jobIds = new Set<string>();
+
+  const client = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes('INSERT INTO ingested_events')) return { rowCount: options.insertedPerBatch };
+      if (sql.includes('UPDATE worker_checkpoints')) {
+        const row = rows.get(params![1] as number)!;
+        row.inserted_count = params![6] as string;
+        row.status = params![7] as string;
+        jobIds.add(params![0] as string);
+        return { rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+    release: vi.fn(),
+  };
+
+  const pool = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes('INSERT INTO ingestion_runs')) return { rows: [{ run_id: '1' }] };
+      if (sql.includes('COUNT(*)')) return { rows: [{ count: String(options.countInWindow) }] };
+      if (sql.includes('INSERT INTO worker_checkpoints')) {
+        const [jobId, ids, starts, ends] = params as [string, number[], string[], string[]];
+        jobIds.add(jobId);
+        ids.forEach((id, i) => rows.set(id, {
+          worker_id: id,
+          chunk_start_ts: starts[i]!,
+          chunk_end_ts: ends[i]!,
+          cursor: null,
+          last_ts: null,
+          fetched_count: '0',
+          inserted_count: '0',
+          status: 'running',
+          split_from: null,
+        }));
+        return { rowCount: ids.length };
+      }
+      if (sql.includes('FROM worker_checkpoints')) return { rows: [...rows.values()].map((r) => ({ ...r })) };
+      return { rows: [], rowCount: 0 };
+    }),
+    connect: vi.fn().mockResolvedValue(client),
+  };
+  return { pool: pool as unknown as Pool, rows, jobIds };
+}
+
+function createMockSource(pages: NormalizedPage[]): EventsSource {
+  let callCount = 0;
+  return {
+    fetchPage: vi.fn().mockImplementation(async () => {
+      const page = pages[callCount];
+      callCount++;
+      return page ?? { events: [], hasMore: false, nextCursor: null, total: null };
+    }),
+  };
+}
+
+describe('windowJobId', () => {
+  it('derives a job id of its own from the parent job and window', () => {
+    expect(windowJobId('default', 100, 200)).toBe('default.window.100-200');
+  });
+});
+
+describe('createWindowBackfill', () => {
+  it('ingests only the window and reports new vs already-present events', async () => {
+    const source = createMockSource([{
+      events: [
+        { id: 'above', timestamp: T + 1000 }, // until is exclusive
+        { id: 'e3', timestamp: T + 900 },
+        { id: 'e2', timestamp: T + 500 },
+        { id: 'e1', timestamp: T },
+        { id: 'below', timestamp: T - 1 },
+      ],
+      hasMore: true,
+      nextCursor: 'c2',
+      total: null,
+    }]);
+    const { pool, rows, jobIds } = createFakePool({ insertedPerBatch: 2, countInWindow: 4 });
+
+    const backfill = createWindowBackfill({ pool, config, source, logger, metrics: createMetrics(1) });
+    const report = await backfill.run();
+
+    expect(source.fetchPage).toHaveBeenCalledOnce();
+    expect(source.fetchPage).toHaveBeenCalledWith({ limit: 10, cursor: forgeCursor(T + 1000) });
+    expect(rows.get(0)).toMatchObject({ chunk_start_ts: String(T), chunk_end_ts: String(T + 1000) });
+    expect(rows.get(0)!.status).toBe('completed');
+    expect([...jobIds]).toEqual([`default.window.${T}-${T + 1000}`]);
+    expect(report).toMatchObject({ newEvents: 2, alreadyPresent: 2, totalInWindow: 4 });
+  });
+
+  it('fails when a window worker gives up', async () => {
+    const source: EventsSource = { fetchPage: vi.fn().mockRejectedValue(new Error('HTTP 500')) };
+    const { pool } = createFakePool({ insertedPerBatch: 0, countInWindow: 0 });
+
+    const backfill = createWindowBackfill({ pool, config, source, logger, metrics: createMetrics(1) });
+
+    await expect(backfill.run()).rejects.toThrow('1 window worker(s) failed: workers 0');
+  });
+});
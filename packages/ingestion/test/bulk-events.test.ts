@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createBulkEventsClient } from '../src/api/bulk-events.js';
+import { createRateLimiter } from '../src/api/middleware/rate-limit.js';
+import { createCircuitBreaker } from '../src/api/middleware/circuit-breaker.js';
+import type { HttpClient } from '../src/api/http-client.js';
+import type { AppConfig } from '../src/types.js';
+import { HttpError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const config = {
+  apiBaseUrl: 'http://api.test/api/v1',
+  apiKey: 'key',
+  maxRetries: 2,
+  retryBaseMs: 1,
+  retryMaxMs: 1,
+} as unknown as AppConfig;
+
+function createClient(post: HttpClient['post']): HttpClient {
+  return { get: vi.fn(), post: vi.fn().mockImplementation(post) };
+}
+
+describe('createBulkEventsClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('posts the ids and reads the events envelope', async () => {
+    const client = createClient(async () => ({
+      status: 200,
+      headers: new Headers(),
+      body: { data: [{ id: 'e1', timestamp: 1768000000000 }] },
+    }));
+    const bulk = createBulkEventsClient(client, createRateLimiter(logger), config, logger);
+
+    const events = await bulk.fetchByIds(['e1', 'e2']);
+
+    expect(events.map((e) => e.id)).toEqual(['e1']);
+    expect(client.post).toHaveBeenCalledWith(
+      'http://api.test/api/v1/events/bulk',
+      { ids: ['e1', 'e2'] },
+      { 'X-API-Key': 'key' },
+    );
+  });
+
+  it('accepts a bare array of events', async () => {
+    const client = createClient(async () => ({
+      status: 200,
+      headers: new Headers(),
+      body: [{ id: 'e1', timestamp: 1768000000000 }],
+    }));
+    const bulk = createBulkEventsClient(client, createRateLimiter(logger), config, logger);
+
+    expect(await bulk.fetchByIds(['e1'])).toHaveLength(1);
+  });
+
+  it('retries rate limits and records them', async () => {
+    let calls = 0;
+    const client = createClient(async (url) => {
+      if (++calls === 1) throw new HttpError('HTTP 429', 429, 'POST', url);
+      return { status: 200, headers: new Headers(), body: { data: [] } };
+    });
+    const rateLimiter = createRateLimiter(logger);
+    const bulk = createBulkEventsClient(client, rateLimiter, config, logger);
+
+    await bulk.fetchByIds(['e1']);
+
+    expect(calls).toBe(2);
+    expect(rateLimiter.getState().total429s).toBe(1);
+  });
+
+  it('waits for the reset a 429 reports before retrying', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const client = createClient(async (url) => {
+      if (++calls > 1) return { status: 200, headers: new Headers(), body: { data: [] } };
+      const headers = new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-limit': '10', 'x-ratelimit-reset': '30' });
+      throw new HttpError('HTTP 429', 429, 'POST', url, headers);
+    });
+    const bulk = createBulkEventsClient(client, createRateLimiter(logger), config, logger);
+
+    const result = bulk.fetchByIds(['e1']);
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(calls).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    await result;
+    expect(calls).toBe(2);
+  });
+
+  it('does not call the API for an empty batch', async () => {
+    const client = createClient(async () => { throw new Error('unexpected'); });
+    const bulk = createBulkEventsClient(client, createRateLimiter(logger), config, logger);
+
+    expect(await bulk.fetchByIds([])).toEqual([]);
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('waits out an open circuit instead of failing', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const client = createClient(async (url) => {
+      if (++calls <= 2) throw new HttpError('HTTP 502', 502, 'POST', url);
+      return { status: 200, headers: new Headers(), body: { data: [{ id: 'e1', timestamp: 1768000000000 }] } };
+    });
+    const breaker = createCircuitBreaker({ circuitFailurePercent: 50, circuitMinRequests: 2, circuitOpenMs: 5000 }, logger);
+    const bulk = createBulkEventsClient(client, createRateLimiter(logger), config, logger, undefined, breaker);
+
+    const result = bulk.fetchByIds(['e1']);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(calls).toBe(2);
+    await vi.advanceTimersByTimeAsync(1100); // Opened after the 1ms retry backoff
+
+    expect(await result).toHaveLength(1);
+    expect(breaker.getState()[0]).toMatchObject({ endpoint: 'bulk', status: 'closed', opens: 1 });
+  });
+});
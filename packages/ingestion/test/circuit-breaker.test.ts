@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCircuitBreaker } from '../src/api/middleware/circuit-breaker.js';
+import { createMetrics } from '../src/core/metrics.js';
+import { CircuitOpenError, HttpError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const config = { circuitFailurePercent: 50, circuitMinRequests: 4, circuitOpenMs: 30_000 };
+
+const down = (): Promise<never> => Promise.reject(new HttpError('HTTP 503', 503, 'GET', 'http://api.test'));
+const up = (): Promise<string> => Promise.resolve('ok');
+
+async function trip(breaker: ReturnType<typeof createCircuitBreaker>, endpoint = 'stream'): Promise<void> {
+  for (let i = 0; i < config.circuitMinRequests; i++) {
+    await breaker.execute(endpoint, down).catch(() => {});
+  }
+}
+
+describe('createCircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens once the failure rate crosses the threshold', async () => {
+    const breaker = createCircuitBreaker(config, logger);
+    await breaker.execute('stream', up);
+    await breaker.execute('stream', down).catch(() => {});
+    await breaker.execute('stream', up);
+    expect(breaker.getState()[0]!.status).toBe('closed'); // Too few requests yet
+
+    await breaker.execute('stream', down).catch(() => {});
+    expect(breaker.getState()[0]).toMatchObject({ status: 'open', opens: 1, recentFailures: 2, recentRequests: 4 });
+  });
+
+  it('does not count responses that prove the endpoint is up', async () => {
+    const breaker = createCircuitBreaker(config, logger);
+    const expired = (): Promise<never> => Promise.reject(new HttpError('HTTP 400', 400, 'GET', 'http://api.test'));
+    for (let i = 0; i < 6; i++) await breaker.execute('stream', expired).catch(() => {});
+
+    expect(breaker.getState()[0]).toMatchObject({ status: 'closed', recentFailures: 0 });
+  });
+
+  it('rejects requests while open without calling the endpoint', async () => {
+    const breaker = createCircuitBreaker(config, logger);
+    await trip(breaker);
+
+    const fn = vi.fn(up);
+    await expect(breaker.execute('stream', fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+    expect(breaker.getState()[0]!.rejected).toBe(1);
+  });
+
+  it('keeps a circuit per endpoint', async () => {
+    const breaker = createCircuitBreaker(config, logger);
+    await trip(breaker, 'stream');
+
+    await expect(breaker.execute('events', up)).resolves.toBe('ok');
+    expect(breaker.getState().map((c) => [c.endpoint, c.status])).toEqual([['stream', 'open'], ['events', 'closed']]);
+  });
+
+  it('lets a single probe through when half-open and closes on success', async () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker(config, logger);
+    await trip(breaker);
+    vi.advanceTimersByTime(config.circuitOpenMs);
+    expect(breaker.getState()[0]!.status).toBe('half-open');
+
+    let finishProbe!: (value: string) => void;
+    const probe = breaker.execute('stream', () => new Promise<string>((resolve) => { finishProbe = resolve; }));
+    await expect(breaker.execute('stream', up)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe('ok');
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.getState()[0]).toMatchObject({ status: 'closed', recentRequests: 0 });
+  });
+
+  it('re-opens when the probe fails', async () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker(config, logger);
+    await trip(breaker);
+    vi.advanceTimersByTime(config.circuitOpenMs);
+
+    await expect(breaker.execute('stream', down)).rejects.toBeInstanceOf(HttpError);
+    expect(breaker.getState()[0]).toMatchObject({ status: 'open', opens: 2 });
+  });
+
+  it('wakes waiters when the circuit turns half-open', async () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker(config, logger);
+    await trip(breaker);
+
+    let ready = false;
+    void breaker.whenReady('stream').then(() => { ready = true; });
+    await vi.advanceTimersByTimeAsync(config.circuitOpenMs - 1);
+    expect(ready).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(ready).toBe(true);
+  });
+
+  it('shows a circuit turning half-open in metrics snapshots', async () => {
+    vi.useFakeTimers();
+    const metrics = createMetrics(1);
+    const breaker = createCircuitBreaker(config, logger, metrics);
+    await trip(breaker);
+    expect(metrics.getSnapshot().circuits).toEqual([expect.objectContaining({ status: 'open' })]);
+
+    // No request since: only the clock has moved
+    vi.advanceTimersByTime(config.circuitOpenMs);
+
+    expect(metrics.getSnapshot().circuits).toEqual([expect.objectContaining({ status: 'half-open' })]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createConcurrencyController, withConcurrencyLimit } from '../src/core/concurrency.js';
+import type { EventsSource } from '../src/api/events-source.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+function createSignals() {
+  const rl = { total429s: 0, totalTimeouts: 0 };
+  let latencyMs: number | null = null;
+  const rateLimiter = {
+    getState: () => ({ buckets: [], ...rl }),
+  };
+  const metrics = {
+    getFetchLatencyMs: () => latencyMs,
+    recordConcurrency: vi.fn(),
+  };
+  return {
+    rl,
+    rateLimiter,
+    metrics,
+    setLatency: (ms: number) => { latencyMs = ms; },
+  };
+}
+
+function controller(signals: ReturnType<typeof createSignals>, min = 1, max = 8) {
+  return createConcurrencyController({
+    rateLimiter: signals.rateLimiter,
+    metrics: signals.metrics,
+    logger,
+    min,
+    max,
+    intervalMs: 1000,
+  });
+}
+
+async function saturate(c: ReturnType<typeof controller>): Promise<void> {
+  for (let i = 0; i < c.getState().limit; i++) await c.acquire();
+}
+
+describe('createConcurrencyController', () => {
+  it('halves the limit on new 429s and never drops below min', () => {
+    const signals = createSignals();
+    const c = controller(signals, 3, 8);
+
+    signals.rl.total429s = 2;
+    expect(c.evaluate()).toMatchObject({ previousLimit: 8, limit: 4, reason: 'rate-limited', new429s: 2 });
+
+    signals.rl.total429s = 3;
+    expect(c.evaluate()?.limit).toBe(3);
+  });
+
+  it('cuts on timeouts', () => {
+    const signals = createSignals();
+    const c = controller(signals);
+
+    signals.rl.totalTimeouts = 1;
+    expect(c.evaluate()).toMatchObject({ limit: 4, reason: 'timeout' });
+  });
+
+  it('grows by one per healthy interval while saturated', async () => {
+    const signals = createSignals();
+    const c = controller(signals);
+    signals.rl.total429s = 1;
+    c.evaluate(); // 8 -> 4
+
+    await saturate(c);
+    expect(c.evaluate()).toMatchObject({ previousLimit: 4, limit: 5, reason: 'healthy' });
+  });
+
+  it('does not grow an idle limit', () => {
+    const signals = createSignals();
+    const c = controller(signals);
+    signals.rl.total429s = 1;
+    c.evaluate();
+
+    expect(c.evaluate()).toBeNull();
+    expect(c.getState().limit).toBe(4);
+  });
+
+  it('holds while latency is well above the best seen', async () => {
+    const signals = createSignals();
+    const c = controller(signals);
+    signals.setLatency(100);
+    signals.rl.total429s = 1;
+    c.evaluate();
+
+    signals.setLatency(250);
+    await saturate(c);
+    expect(c.evaluate()).toMatchObject({ limit: 4, reason: 'latency', fetchLatencyMs: 250 });
+  });
+
+  it('queues acquirers beyond the limit and admits them as permits free up', async () => {
+    const signals = createSignals();
+    const c = controller(signals, 1, 1);
+
+    const release = await c.acquire();
+    let admitted = false;
+    const pending = c.acquire().then(() => { admitted = true; });
+
+    await Promise.resolve();
+    expect(admitted).toBe(false);
+    expect(c.getState().waiting).toBe(1);
+
+    release();
+    await pending;
+    expect(admitted).toBe(true);
+    expect(c.getState().active).toBe(1);
+  });
+
+  it('publishes its state to metrics', () => {
+    const signals = createSignals();
+    const c = controller(signals);
+    signals.rl.total429s = 1;
+
+    c.evaluate();
+
+    const state = signals.metrics.recordConcurrency.mock.calls[0]![0];
+    expect(state.limit).toBe(4);
+    expect(state.decisions).toHaveLength(1);
+  });
+});
+
+describe('withConcurrencyLimit', () => {
+  it('records latency of successful fetches and always releases', async () => {
+    const release = vi.fn();
+    const gate = { acquire: vi.fn().mockResolvedValue(release) };
+    const metrics = { recordFetchLatency: vi.fn() };
+    const source: EventsSource = {
+      fetchPage: vi.fn()
+        .mockResolvedValueOnce({ events: [], hasMore: false, nextCursor: null, total: null })
+        .mockRejectedValueOnce(new Error('HTTP 500')),
+    };
+
+    const gated = withConcurrencyLimit(source, gate, metrics);
+    await gated.fetchPage({ limit: 10 });
+    await expect(gated.fetchPage({ limit: 10 })).rejects.toThrow('HTTP 500');
+
+    expect(metrics.recordFetchLatency).toHaveBeenCalledOnce();
+    expect(release).toHaveBeenCalledTimes(2);
+  });
+});
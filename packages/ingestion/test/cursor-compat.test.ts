@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { checkCursorCompatibility } from '../src/core/cursor-compat.js';
+import { decodeCursorTimestamp } from '../src/core/cursor-forge.js';
+import type { EventsSource } from '../src/api/events-source.js';
+import { createDatasetSource } from './support/dataset-source.js';
+import { HttpError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+function encode(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+}
+
+const dataset = Array.from({ length: 30 }, (_, i) => T - i * 1000);
+
+describe('checkCursorCompatibility', () => {
+  it('accepts cursors that match the forged shape and position', async () => {
+    const result = await checkCursorCompatibility(createDatasetSource(dataset), logger);
+    expect(result).toEqual({ compatible: true, verified: true, problems: [] });
+  });
+
+  it('reports unverified when the API has a single page', async () => {
+    const result = await checkCursorCompatibility(createDatasetSource([T, T - 1]), logger);
+    expect(result).toEqual({ compatible: true, verified: false, problems: [] });
+  });
+
+  it('flags a changed cursor version and field set', async () => {
+    const source = createDatasetSource(dataset, {
+      nextCursor: (ts) => encode({ id: 'x', ts, v: 3, exp: T, shard: 1 }),
+    });
+
+    const result = await checkCursorCompatibility(source, logger);
+
+    expect(result.compatible).toBe(false);
+    expect(result.problems).toEqual([
+      'nextCursor fields [exp, id, shard, ts, v] differ from forged [exp, id, ts, v]',
+      'nextCursor version 3 differs from forged 2',
+    ]);
+  });
+
+  it('flags cursors that are not JSON', async () => {
+    const source = createDatasetSource(dataset, { nextCursor: (ts) => `opaque-${ts}` });
+    const result = await checkCursorCompatibility(source, logger);
+    expect(result.problems).toContain('nextCursor is not base64url-encoded JSON');
+  });
+
+  it('flags forged cursors that position somewhere else', async () => {
+    // An API that ignores ts and starts from the newest event
+    const source = createDatasetSource(dataset, { position: () => Infinity });
+
+    const result = await checkCursorCompatibility(source, logger);
+
+    expect(result.compatible).toBe(false);
+    expect(result.problems).toEqual([`forged cursor at ${T} returned an event at ${T}, not an older one`]);
+  });
+
+  it('flags forged cursors that skip events', async () => {
+    const source = createDatasetSource(dataset, {
+      position: (cursor) => decodeCursorTimestamp(cursor)! - 5000,
+    });
+
+    const result = await checkCursorCompatibility(source, logger);
+
+    expect(result.problems).toEqual([
+      `forged cursor at ${T} returned an event at ${T - 6000}, expected ${T - 1000}`,
+    ]);
+  });
+
+  it('flags forged cursors the API rejects', async () => {
+    const inner = createDatasetSource(dataset);
+    const source: EventsSource = {
+      fetchPage: async (params) => {
+        if (params.cursor) throw new HttpError('HTTP 400', 400, 'GET', '/events');
+        return inner.fetchPage(params);
+      },
+    };
+
+    const result = await checkCursorCompatibility(source, logger);
+
+    expect(result.problems).toEqual(['API rejected a forged cursor: HTTP 400']);
+  });
+});
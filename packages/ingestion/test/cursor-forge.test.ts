@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { forgeCursor, decodeCursorTimestamp, createTimestampChunks } from '../src/core/cursor-forge.js';
+import {
+  forgeCursor,
+  decodeCursor,
+  decodeCursorTimestamp,
+  compareEventPositions,
+  boundaryPosition,
+  createTimestampChunks,
+} from '../src/core/cursor-forge.js';
 
 describe('forgeCursor', () => {
   it('creates a base64url-encoded cursor with the given timestamp', () => {
@@ -24,6 +31,36 @@ describe('forgeCursor', () => {
     expect(decoded.v).toBe(2);
     expect(decoded.exp).toBe(4102444800000);
   });
+
+  it('carries an event id to resume between events sharing a timestamp', () => {
+    const decoded = decodeCursor(forgeCursor(1768000000000, 'evt-42'));
+    expect(decoded).toMatchObject({ id: 'evt-42', ts: 1768000000000 });
+  });
+});
+
+describe('compareEventPositions', () => {
+  it('orders by timestamp, then by id', () => {
+    const positions = [
+      { ts: 2, id: 'a' },
+      { ts: 1, id: 'b' },
+      { ts: 2, id: '0' },
+      { ts: 1, id: 'a' },
+    ];
+    positions.sort(compareEventPositions);
+    expect(positions).toEqual([
+      { ts: 1, id: 'a' },
+      { ts: 1, id: 'b' },
+      { ts: 2, id: '0' },
+      { ts: 2, id: 'a' },
+    ]);
+    expect(compareEventPositions({ ts: 1, id: 'a' }, { ts: 1, id: 'a' })).toBe(0);
+  });
+
+  it('places a boundary below every event at its timestamp', () => {
+    const boundary = boundaryPosition(5);
+    expect(compareEventPositions({ ts: 5, id: '00000000-0000-0000-0000-000000000001' }, boundary)).toBeGreaterThan(0);
+    expect(compareEventPositions({ ts: 4, id: 'ffffffff-ffff-ffff-ffff-ffffffffffff' }, boundary)).toBeLessThan(0);
+  });
 });
 
 describe('decodeCursorTimestamp', () => {
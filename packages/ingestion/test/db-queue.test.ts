@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createDbQueue } from '../src/core/db-queue.js';
+import { runWorker } from '../src/core/worker.js';
+import type { EventsSource } from '../src/api/events-source.js';
+import type { Pool } from '../src/db/pool.js';
+import type { WorkerCheckpoint } from '../src/types.js';
+import { DbError, LeaseLostError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+const scope = { jobId: 'default', eventsTable: 'ingested_events', leaseOwner: 'me' };
+
+/**
+ * Pool whose event inserts fail while `failInserts` is set, and whose
+ * checkpoint updates match no row for workers in `lostLeases`.
+ */
+function createFakePool(options: { failInserts?: number; lostLeases?: number[] } = {}) {
+  let failInserts = options.failInserts ?? 0;
+  const statements: string[] = [];
+  const client = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      const text = sql.trim();
+      statements.push(text.split(/\s+/).slice(0, 2).join(' '));
+      if (text.includes('INSERT INTO ingested_events')) {
+        if (failInserts > 0) {
+          failInserts--;
+          throw new Error('connection reset');
+        }
+        return { rowCount: (params![0] as string[]).length };
+      }
+      if (text.includes('UPDATE worker_checkpoints')) {
+        return { rowCount: options.lostLeases?.includes(params![1] as number) ? 0 : 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+    release: vi.fn(),
+  };
+  const pool = { connect: vi.fn().mockResolvedValue(client) };
+  return { pool: pool as unknown as Pool, statements };
+}
+
+function task(workerId: number) {
+  return {
+    events: [{ eventId: `e${workerId}`, timestampMs: T, payload: '{}' }],
+    checkpoint: {
+      workerId,
+      cursor: null,
+      lastTs: T,
+      lastEventId: `e${workerId}`,
+      fetchedCount: 1,
+      insertedCount: 0,
+      status: 'running' as const,
+    },
+  };
+}
+
+function checkpoint(workerId: number): WorkerCheckpoint {
+  return {
+    workerId,
+    chunkStartTs: T - 1000,
+    chunkEndTs: T + 1000,
+    cursor: 'c1',
+    lastTs: null,
+    lastEventId: null,
+    fetchedCount: 0,
+    insertedCount: 0,
+    status: 'running',
+    splitFrom: null,
+  };
+}
+
+// One page holding a single event for the worker
+function createSource(workerId: number): EventsSource {
+  return {
+    fetchPage: vi.fn().mockResolvedValue({
+      events: [{ id: `e${workerId}`, timestamp: T }],
+      hasMore: false,
+      nextCursor: null,
+      total: null,
+    }),
+  };
+}
+
+describe('createDbQueue', () => {
+  it('rejects only the failed write and keeps accepting writes', async () => {
+    const { pool, statements } = createFakePool({ failInserts: 1 });
+    const queue = createDbQueue(pool, 1, 10, scope);
+
+    await expect(queue.enqueue(task(0))).rejects.toThrow(DbError);
+    await expect(queue.enqueue(task(1))).resolves.toBe(1);
+    await queue.drain();
+
+    expect(queue.pendingCount()).toBe(0);
+    expect(statements).toContain('ROLLBACK');
+  });
+
+  it('hands a lost lease to the worker while other workers keep writing', async () => {
+    const { pool } = createFakePool({ lostLeases: [0] });
+    const queue = createDbQueue(pool, 2, 10, scope);
+    const context = (workerId: number) => ({
+      source: createSource(workerId),
+      dbQueue: queue,
+      logger,
+      batchSize: 10,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+    });
+
+    // The orchestrator catches LeaseLostError and gives the range up
+    const lost = await runWorker(checkpoint(0), context(0)).catch((err: unknown) => err);
+    const other = await runWorker(checkpoint(1), context(1));
+
+    expect(lost).toBeInstanceOf(LeaseLostError);
+    expect(other).toMatchObject({ status: 'completed', insertedCount: 1 });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { sampleEventDensity, createDensityChunks } from '../src/core/density.js';
+import type { DensitySample } from '../src/types.js';
+import { createDatasetSource } from './support/dataset-source.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+function sample(segmentStartTs: number, probeTs: number, estimatedCount: number): DensitySample {
+  return { segmentStartTs, probeTs, returned: 0, spanMs: 0, estimatedCount, total: null };
+}
+
+describe('createDensityChunks', () => {
+  it('places boundaries at equal event counts', () => {
+    // 900 events in [0, 100), 100 events in [100, 1000]
+    const chunks = createDensityChunks(0, 1000, 2, [
+      sample(0, 100, 900),
+      sample(100, 1001, 100),
+    ]);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]!.startTs).toBe(0);
+    expect(chunks[0]!.endTs).toBe(55);
+    expect(chunks[1]!.startTs).toBe(chunks[0]!.endTs);
+    expect(chunks[1]!.endTs).toBe(1001);
+  });
+
+  it('covers the full range without gaps', () => {
+    const chunks = createDensityChunks(1000, 2000, 4, [
+      sample(1000, 1500, 10),
+      sample(1500, 2001, 0),
+    ]);
+
+    expect(chunks[0]!.startTs).toBe(1000);
+    expect(chunks[3]!.endTs).toBe(2001);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]!.startTs).toBe(chunks[i - 1]!.endTs);
+      expect(chunks[i]!.endTs).toBeGreaterThan(chunks[i]!.startTs);
+    }
+  });
+
+  it('falls back to equal-width chunks without events', () => {
+    const chunks = createDensityChunks(0, 3000, 3, [sample(0, 3001, 0)]);
+    expect(chunks.map((c) => c.startTs)).toEqual([0, 1000, 2000]);
+  });
+});
+
+describe('sampleEventDensity', () => {
+  it('counts sparse segments exactly and extrapolates dense ones', async () => {
+    // Dense burst near the top, sparse elsewhere
+    const timestamps = [100, 300, ...Array.from({ length: 400 }, (_, i) => 900 + i / 4)];
+    const source = createDatasetSource(timestamps);
+
+    const samples = await sampleEventDensity(source, 0, 999, 2, 50, logger);
+
+    expect(samples).toHaveLength(2);
+    expect(samples[0]!.estimatedCount).toBe(2);
+    expect(samples[1]!.estimatedCount).toBeGreaterThan(100);
+    expect(source.fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses meta.total deltas when totals are positional', async () => {
+    const timestamps = [10, 20, 30, 600, 700];
+    const source = createDatasetSource(timestamps, {
+      total: (before) => timestamps.filter((ts) => ts < before).length,
+    });
+
+    const samples = await sampleEventDensity(source, 0, 999, 2, 1, logger);
+
+    expect(samples.map((s) => s.estimatedCount)).toEqual([3, 2]);
+  });
+});
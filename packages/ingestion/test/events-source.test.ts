@@ -0,0 +1,364 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEventsSource } from '../src/api/events-source.js';
+import { registerSourceStrategy } from '../src/api/source-strategies.js';
+import { createRateLimiter } from '../src/api/middleware/rate-limit.js';
+import { createCircuitBreaker } from '../src/api/middleware/circuit-breaker.js';
+import type { HttpClient, HttpResponse } from '../src/api/http-client.js';
+import type { StreamAccessManager } from '../src/api/stream-access.js';
+import type { AppConfig } from '../src/types.js';
+import { HttpError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const config = {
+  apiBaseUrl: 'http://api.test/api/v1',
+  apiKey: 'key',
+  batchSize: 10,
+  maxRetries: 1,
+  retryBaseMs: 1,
+  retryMaxMs: 1,
+  sourceStrategies: ['stream', 'events'],
+  sourceBenchmarkRequests: 1,
+  sourceRecoveryMs: 0,
+} as unknown as AppConfig;
+
+function page(id: string): HttpResponse {
+  return {
+    status: 200,
+    headers: new Headers(),
+    body: { data: [{ id, timestamp: 1768000000000 }], hasMore: false, nextCursor: null },
+  };
+}
+
+type Handler = (url: string) => Promise<HttpResponse>;
+
+function createClient(handlers: { stream: Handler; events: Handler }): HttpClient {
+  return {
+    get: vi.fn().mockImplementation((url: string) => (
+      url.includes('/feed') ? handlers.stream(url) : handlers.events(url)
+    )),
+    post: vi.fn(),
+  };
+}
+
+function createStreamManager(): StreamAccessManager {
+  return {
+    get: vi.fn().mockResolvedValue({ endpoint: '/api/v1/events/d4ta/x7k9/feed', tokenHeader: 'X-Token', token: 't', expiresIn: 300 }),
+    invalidate: vi.fn(),
+  };
+}
+
+function fail(status: number): Handler {
+  return async (url) => { throw new HttpError(`HTTP ${status}`, status, 'GET', url); };
+}
+
+function delayed(ms: number, id: string): Handler {
+  return () => new Promise((resolve) => setTimeout(() => resolve(page(id)), ms));
+}
+
+describe('createEventsSource', () => {
+  it('uses the first strategy in preference order before any benchmark', async () => {
+    const client = createClient({ stream: async () => page('s'), events: async () => page('e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), config, logger);
+
+    const result = await source.fetchPage({ limit: 10 });
+
+    expect(result.events[0]!.id).toBe('s');
+    expect(source.getActiveStrategy()).toBe('stream');
+  });
+
+  it('tracks rate limits in a bucket per strategy', async () => {
+    const limited: HttpResponse = {
+      ...page('s'),
+      headers: new Headers({ 'x-ratelimit-remaining': '7', 'x-ratelimit-limit': '10', 'x-ratelimit-reset': '60' }),
+    };
+    const client = createClient({ stream: async () => limited, events: async () => page('e') });
+    const rateLimiter = createRateLimiter(logger);
+    const source = createEventsSource(client, createStreamManager(), rateLimiter, config, logger);
+
+    await source.fetchPage({ limit: 10 });
+
+    expect(rateLimiter.getState().buckets).toEqual([
+      expect.objectContaining({ endpoint: 'stream', limit: 10, remaining: 7 }),
+    ]);
+  });
+
+  it('activates the fastest working strategy after a benchmark', async () => {
+    const client = createClient({ stream: delayed(30, 's'), events: delayed(1, 'e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), config, logger);
+
+    const results = await source.benchmark();
+
+    expect(results.map((r) => r.ok)).toEqual([true, true]);
+    expect(source.getActiveStrategy()).toBe('events');
+  });
+
+  it('skips strategies that fail the benchmark', async () => {
+    const client = createClient({ stream: fail(500), events: delayed(20, 'e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), config, logger);
+
+    const results = await source.benchmark();
+
+    expect(results[0]).toMatchObject({ name: 'stream', ok: false, error: 'HTTP 500' });
+    expect(source.getActiveStrategy()).toBe('events');
+  });
+
+  it('refreshes auth once, then fails over and re-evaluates', async () => {
+    const streamManager = createStreamManager();
+    const client = createClient({ stream: fail(401), events: async () => page('e') });
+    const source = createEventsSource(client, streamManager, createRateLimiter(logger), config, logger);
+
+    const result = await source.fetchPage({ limit: 10, cursor: 'c1' });
+
+    expect(streamManager.invalidate).toHaveBeenCalledOnce();
+    expect(result.events[0]!.id).toBe('e');
+    expect(source.getActiveStrategy()).toBe('events');
+  });
+
+  it('passes expired cursors and rate limits through without switching', async () => {
+    const client = createClient({ stream: fail(400), events: async () => page('e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), config, logger);
+
+    await expect(source.fetchPage({ limit: 10, cursor: 'old' })).rejects.toThrow('HTTP 400');
+    expect(source.getActiveStrategy()).toBe('stream');
+  });
+
+  it('throws once every strategy has failed', async () => {
+    const client = createClient({ stream: fail(503), events: fail(503) });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), config, logger);
+
+    await expect(source.fetchPage({ limit: 10 })).rejects.toThrow('HTTP 503');
+  });
+
+  it('accepts registered strategies by name', async () => {
+    registerSourceStrategy('fixture', () => ({ name: 'fixture', fetch: async () => page('f') }));
+    const client = createClient({ stream: fail(500), events: fail(500) });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), {
+      ...config,
+      sourceStrategies: ['fixture'],
+    }, logger);
+
+    const result = await source.fetchPage({ limit: 10 });
+    expect(result.events[0]!.id).toBe('f');
+  });
+
+  it('counts schema anomalies in lenient mode', async () => {
+    const noCursor: HttpResponse = { ...page('s'), body: { data: [{ id: 's', timestamp: 1768000000000 }], hasMore: true } };
+    const client = createClient({ stream: async () => noCursor, events: async () => page('e') });
+    const metrics = { recordSource: vi.fn(), recordPageAnomalies: vi.fn() };
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), {
+      ...config,
+      pageValidation: 'lenient',
+    }, logger, metrics);
+
+    const result = await source.fetchPage({ limit: 10 });
+
+    expect(result.events[0]!.id).toBe('s');
+    expect(result.hasMore).toBe(true);
+    expect(metrics.recordPageAnomalies).toHaveBeenCalledWith(['cursor-mismatch']);
+    expect(source.getActiveStrategy()).toBe('stream');
+  });
+
+  it('fails over from a strategy serving invalid pages in strict mode', async () => {
+    const client = createClient({ stream: async () => ({ ...page('s'), body: { items: [] } }), events: async () => page('e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), {
+      ...config,
+      pageValidation: 'strict',
+    }, logger);
+
+    const result = await source.fetchPage({ limit: 10 });
+
+    expect(result.events[0]!.id).toBe('e');
+    expect(source.getState().disabled).toEqual(['stream']);
+  });
+
+  it('requests RESPONSE_FORMAT from the strategy and decodes it', async () => {
+    const ndjson: HttpResponse = {
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/x-ndjson', 'x-next-cursor': 'c2' }),
+      body: '{"id":"e1","timestamp":1768000000000}\n',
+    };
+    const client = createClient({ stream: async () => ndjson, events: async () => page('e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), {
+      ...config,
+      responseFormat: 'ndjson',
+    }, logger);
+
+    const result = await source.fetchPage({ limit: 10 });
+
+    const [url, headers] = (client.get as ReturnType<typeof vi.fn>).mock.calls[0]!;
+    expect(new URL(url).searchParams.get('format')).toBe('ndjson');
+    expect(headers).toMatchObject({ Accept: 'application/x-ndjson' });
+    expect(result).toMatchObject({ hasMore: true, nextCursor: 'c2' });
+    expect(result.events[0]!.id).toBe('e1');
+  });
+
+  it('rejects unknown strategy names', () => {
+    const client = createClient({ stream: fail(500), events: fail(500) });
+    expect(() => createEventsSource(client, createStreamManager(), createRateLimiter(logger), {
+      ...config,
+      sourceStrategies: ['carrier-pigeon'],
+    }, logger)).toThrow('Unknown source strategy "carrier-pigeon"');
+  });
+});
+
+describe('stream recovery', () => {
+  const T = 1768000000000;
+
+  // Let the background probe finish
+  const settle = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('probes a failed strategy after the cooldown and switches back', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T);
+    let streamUp = false;
+    const streamManager = createStreamManager();
+    const metrics = { recordSource: vi.fn(), recordPageAnomalies: vi.fn() };
+    const client = createClient({
+      stream: (url) => (streamUp ? Promise.resolve(page('s')) : fail(401)(url)),
+      events: async () => page('e'),
+    });
+    const source = createEventsSource(client, streamManager, createRateLimiter(logger), {
+      ...config,
+      sourceRecoveryMs: 60_000,
+    }, logger, metrics);
+
+    await source.fetchPage({ limit: 10 });
+    expect(source.getState()).toMatchObject({ active: 'events', disabled: ['stream'] });
+
+    // Still cooling down: no probe
+    streamUp = true;
+    vi.setSystemTime(T + 30_000);
+    await source.fetchPage({ limit: 10 });
+    expect(source.getState().probes).toBe(0);
+
+    vi.setSystemTime(T + 60_000);
+    await source.fetchPage({ limit: 10 });
+    await settle();
+
+    expect(source.getActiveStrategy()).toBe('stream');
+
+    expect(streamManager.invalidate).toHaveBeenCalledTimes(2); // Auth refresh, then the probe's fresh token
+    const state = metrics.recordSource.mock.lastCall![0];
+    expect(state).toMatchObject({ active: 'stream', disabled: [], probes: 1, recoveries: 1 });
+    expect(state.switches.map((s: { reason: string }) => s.reason)).toEqual(['failure', 'recovered']);
+  });
+
+  it('restarts the cooldown when the probe fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T);
+    const client = createClient({ stream: fail(503), events: async () => page('e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), {
+      ...config,
+      sourceRecoveryMs: 60_000,
+    }, logger);
+
+    await source.fetchPage({ limit: 10 });
+    vi.setSystemTime(T + 60_000);
+    await source.fetchPage({ limit: 10 });
+    await settle();
+    expect(source.getState().probes).toBe(1);
+
+    vi.setSystemTime(T + 90_000);
+    await source.fetchPage({ limit: 10 });
+    expect(source.getState()).toMatchObject({ active: 'events', disabled: ['stream'], probes: 1, recoveries: 0 });
+  });
+
+  it('keeps failed strategies disabled when recovery is off', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T);
+    const client = createClient({ stream: fail(503), events: async () => page('e') });
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), config, logger);
+
+    await source.fetchPage({ limit: 10 });
+    vi.setSystemTime(T + 3_600_000);
+    await source.fetchPage({ limit: 10 });
+
+    expect(source.getState().probes).toBe(0);
+  });
+});
+
+describe('circuit breaker', () => {
+  const breakerConfig = { circuitFailurePercent: 50, circuitMinRequests: 1, circuitOpenMs: 1000 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fails over when the active strategy\'s circuit opens', async () => {
+    const client = createClient({ stream: fail(503), events: async () => page('e') });
+    const breaker = createCircuitBreaker(breakerConfig, logger);
+    const source = createEventsSource(
+      client, createStreamManager(), createRateLimiter(logger), { ...config, maxRetries: 3 }, logger,
+      undefined, undefined, breaker,
+    );
+
+    const result = await source.fetchPage({ limit: 10 });
+
+    expect(result.events[0]!.id).toBe('e');
+    expect(client.get).toHaveBeenCalledTimes(3); // One stream attempt, then the benchmark and the retried page
+    expect(breaker.getState().find((c) => c.endpoint === 'stream')!.status).toBe('open');
+  });
+
+  it('waits for the half-open probe when every circuit is open', async () => {
+    vi.useFakeTimers();
+    let up = false;
+    const client = createClient({
+      stream: (url) => (up ? Promise.resolve(page('s')) : fail(503)(url)),
+      events: fail(500),
+    });
+    const breaker = createCircuitBreaker(breakerConfig, logger);
+    const source = createEventsSource(
+      client, createStreamManager(), createRateLimiter(logger), { ...config, sourceStrategies: ['stream'] }, logger,
+      undefined, undefined, breaker,
+    );
+
+    let result: Awaited<ReturnType<typeof source.fetchPage>> | null = null;
+    const pending = source.fetchPage({ limit: 10 }).then((r) => { result = r; });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(result).toBeNull();
+    expect(breaker.getState()[0]!.status).toBe('open');
+
+    up = true;
+    await vi.advanceTimersByTimeAsync(500);
+    await pending;
+    expect(result!.events[0]!.id).toBe('s');
+    expect(breaker.getState()[0]!.status).toBe('closed');
+  });
+});
+
+describe('rate limits', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the reset a 429 reports before retrying', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const client = createClient({
+      stream: async (url) => {
+        if (++calls > 1) return page('s');
+        const headers = new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-limit': '10', 'x-ratelimit-reset': '30' });
+        throw new HttpError('HTTP 429', 429, 'GET', url, headers);
+      },
+      events: async () => page('e'),
+    });
+    const retrying = { ...config, maxRetries: 2 };
+    const source = createEventsSource(client, createStreamManager(), createRateLimiter(logger), retrying, logger);
+
+    let settled = false;
+    const result = source.fetchPage({ limit: 10 }).finally(() => { settled = true; });
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(settled).toBe(false);
+    expect(calls).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect((await result).events[0]!.id).toBe('s');
+    expect(calls).toBe(2);
+  });
+});
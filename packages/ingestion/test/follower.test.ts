@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createFollower } from '../src/core/follower.js';
+import type { EventsSource } from '../src/api/events-source.js';
+import type { Pool } from '../src/db/pool.js';
+import type { AppConfig, NormalizedPage } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+const config = {
+  jobId: 'default',
+  eventsTable: 'ingested_events',
+  batchSize: 2,
+  maxTimestampMs: 0,
+  followPollIntervalMs: 1000,
+} as AppConfig;
+
+function createMockSource(pages: NormalizedPage[]): EventsSource {
+  let callCount = 0;
+  return {
+    fetchPage: vi.fn().mockImplementation(async () => {
+      const page = pages[callCount];
+      callCount++;
+      return page ?? { events: [], hasMore: false, nextCursor: null, total: null };
+    }),
+  };
+}
+
+function createMockPool(highWaterTs: number) {
+  const client = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => (
+      sql.includes('INSERT INTO ingested_events')
+        ? { rowCount: (params![0] as string[]).length }
+        : { rows: [], rowCount: 1 }
+    )),
+    release: vi.fn(),
+  };
+  const pool = {
+    query: vi.fn().mockResolvedValue({
+      rows: [{ high_water_ts: String(highWaterTs), inserted_count: '0' }],
+    }),
+    connect: vi.fn().mockResolvedValue(client),
+  };
+  return { pool: pool as unknown as Pool, client };
+}
+
+function savedCheckpoints(client: { query: ReturnType<typeof vi.fn> }): unknown[][] {
+  return client.query.mock.calls
+    .filter(([sql]) => String(sql).includes('follow_checkpoint'))
+    .map(([, params]) => params as unknown[]);
+}
+
+describe('createFollower', () => {
+  it('pages down to the high-water mark and advances it on the last page', async () => {
+    const source = createMockSource([
+      {
+        events: [{ id: 'n3', timestamp: T + 1300 }, { id: 'n2', timestamp: T + 1200 }],
+        hasMore: true,
+        nextCursor: 'c2',
+        total: null,
+      },
+      {
+        events: [{ id: 'n1', timestamp: T + 1100 }, { id: 'old', timestamp: T + 900 }],
+        hasMore: true,
+        nextCursor: 'c3',
+        total: null,
+      },
+    ]);
+    const { pool, client } = createMockPool(T + 1000);
+
+    const follower = createFollower({ pool, config, source, logger });
+    const inserted = await follower.pollOnce();
+
+    expect(inserted).toBe(3);
+    expect(source.fetchPage).toHaveBeenCalledTimes(2);
+    // First page keeps the old mark; the final page moves it to the newest event
+    expect(savedCheckpoints(client)).toEqual([
+      ['default', String(T + 1000), '2'],
+      ['default', String(T + 1300), '3'],
+    ]);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+
+  it('keeps the mark when nothing new arrived', async () => {
+    const source = createMockSource([
+      {
+        events: [{ id: 'old', timestamp: T + 900 }],
+        hasMore: true,
+        nextCursor: 'c2',
+        total: null,
+      },
+    ]);
+    const { pool, client } = createMockPool(T + 1000);
+
+    const follower = createFollower({ pool, config, source, logger });
+    const inserted = await follower.pollOnce();
+
+    expect(inserted).toBe(0);
+    expect(savedCheckpoints(client)).toEqual([['default', String(T + 1000), '0']]);
+  });
+
+  it('rolls back the batch when the insert fails', async () => {
+    const source = createMockSource([
+      {
+        events: [{ id: 'n1', timestamp: T + 1100 }],
+        hasMore: false,
+        nextCursor: null,
+        total: null,
+      },
+    ]);
+    const { pool, client } = createMockPool(T + 1000);
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO ingested_events')) throw new Error('disk full');
+      return { rows: [], rowCount: 0 };
+    });
+
+    const follower = createFollower({ pool, config, source, logger });
+
+    await expect(follower.pollOnce()).rejects.toThrow('Failed to insert');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createRecordingHttpClient,
+  createReplayHttpClient,
+  loadHttpFixtures,
+  requestKey,
+} from '../src/api/http-recording.js';
+import { createEventsSource } from '../src/api/events-source.js';
+import { createRateLimiter } from '../src/api/middleware/rate-limit.js';
+import { readJsonStream } from '../src/api/json-stream.js';
+import { toIngestionEvents } from '../src/mappers.js';
+import type { HttpClient, HttpResponse } from '../src/api/http-client.js';
+import type { StreamAccessManager } from '../src/api/stream-access.js';
+import type { AppConfig, RawEvent } from '../src/types.js';
+import { HttpError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+const config = {
+  apiBaseUrl: 'http://api.test/api/v1',
+  apiKey: 'key',
+  batchSize: 2,
+  maxRetries: 2,
+  retryBaseMs: 1,
+  retryMaxMs: 1,
+  sourceStrategies: ['events'],
+  sourceBenchmarkRequests: 1,
+  sourceRecoveryMs: 0,
+  responseFormat: 'json',
+} as unknown as AppConfig;
+
+const streamManager = { get: vi.fn(), invalidate: vi.fn() } as unknown as StreamAccessManager;
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'http-recording-test-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** The API: two pages, with one 503 before the first. */
+function createApi(): HttpClient {
+  let failed = false;
+  return {
+    get: vi.fn().mockImplementation(async (url: string): Promise<HttpResponse> => {
+      const cursor = new URL(url).searchParams.get('cursor');
+      if (!failed) {
+        failed = true;
+        throw new HttpError(`HTTP 503 GET ${url}`, 503, 'GET', url, new Headers({ 'retry-after': '0' }), 'down');
+      }
+      const page = cursor === null
+        ? { data: [{ id: 'e1', timestamp: T }, { id: 'e2', timestamp: T - 1 }], hasMore: true, nextCursor: 'c2' }
+        : { data: [{ id: 'e3', timestamp: T - 2 }], hasMore: false, nextCursor: null };
+      return { status: 200, headers: new Headers({ 'content-type': 'application/json' }), body: page };
+    }),
+    post: vi.fn(),
+  };
+}
+
+/** The API with `STREAM_JSON` on: pages are parsed event by event. */
+function createStreamingApi(events: readonly Record<string, unknown>[]): HttpClient {
+  return {
+    get: vi.fn().mockImplementation(async (): Promise<HttpResponse> => {
+      const text = JSON.stringify({ data: events, hasMore: false, nextCursor: null });
+      async function* chunks(): AsyncGenerator<Uint8Array> {
+        yield new TextEncoder().encode(text);
+      }
+      const body = await readJsonStream(chunks());
+      return { status: 200, headers: new Headers({ 'content-type': 'application/json' }), body };
+    }),
+    post: vi.fn(),
+  };
+}
+
+async function readPages(httpClient: HttpClient): Promise<RawEvent[]> {
+  const source = createEventsSource(httpClient, streamManager, createRateLimiter(logger), config, logger);
+  const events: RawEvent[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await source.fetchPage({ limit: 2, cursor });
+    events.push(...page.events);
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+  return events;
+}
+
+async function readAll(httpClient: HttpClient): Promise<string[]> {
+  return (await readPages(httpClient)).map((e) => e.id);
+}
+
+describe('HTTP record and replay', () => {
+  it('replays a recorded run without the API', async () => {
+    const api = createApi();
+    const recorded = await readAll(createRecordingHttpClient(api, dir, logger));
+    expect(recorded).toEqual(['e1', 'e2', 'e3']);
+    expect(await readdir(dir)).toHaveLength(3); // The 503, then both pages
+
+    const fixtures = await loadHttpFixtures(dir);
+    const replayed = await readAll(createReplayHttpClient(fixtures, logger));
+
+    expect(replayed).toEqual(recorded);
+    expect(api.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('records the full events of streamed pages', async () => {
+    const events = [
+      { id: 'e1', timestamp: T, type: 'click', properties: { path: '/a' } },
+      { id: 'e2', timestamp: T - 1, type: 'page_view', userId: 'u1' },
+    ];
+    const streamDir = join(dir, 'stream');
+    const recorded = await readPages(createRecordingHttpClient(createStreamingApi(events), streamDir, logger));
+
+    const replayed = await readPages(createReplayHttpClient(await loadHttpFixtures(streamDir), logger));
+
+    const payloads = (page: RawEvent[]) => toIngestionEvents(page).map((e) => JSON.parse(e.payload) as unknown);
+    expect(payloads(recorded)).toEqual(events);
+    expect(payloads(replayed)).toEqual(events);
+  });
+
+  it('replays recorded failures as HttpError', async () => {
+    const fixtures = await loadHttpFixtures(dir);
+    const client = createReplayHttpClient(fixtures, logger);
+
+    const err = await client.get('http://elsewhere.test/api/v1/events?limit=2').catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(HttpError);
+    expect(err).toMatchObject({ status: 503, body: 'down' });
+    expect((err as HttpError).headers!.get('retry-after')).toBe('0');
+  });
+
+  it('serves repeated requests in order, then the last response again', async () => {
+    const fixture = (seq: number, body: unknown) => ({
+      seq,
+      key: requestKey('POST', 'http://api.test/token', {}),
+      request: { method: 'POST', url: 'http://api.test/token', body: {} },
+      response: { status: 200, headers: [] as [string, string][], body },
+      error: null,
+    });
+    const client = createReplayHttpClient([fixture(1, 'a'), fixture(2, 'b')], logger);
+
+    const bodies = [];
+    for (let i = 0; i < 3; i++) bodies.push((await client.post('http://api.test/token', {})).body);
+
+    expect(bodies).toEqual(['a', 'b', 'b']);
+    await expect(client.get('http://api.test/token')).rejects.toThrow('No recorded response for GET /token');
+  });
+
+  it('matches requests regardless of origin and query order', () => {
+    expect(requestKey('GET', 'http://a.test/events?limit=2&cursor=c', undefined))
+      .toBe(requestKey('GET', 'https://b.test/events?cursor=c&limit=2', undefined));
+    expect(requestKey('POST', 'http://a.test/bulk', { ids: ['x'] }))
+      .not.toBe(requestKey('POST', 'http://a.test/bulk', { ids: ['y'] }));
+  });
+});
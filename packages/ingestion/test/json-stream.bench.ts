@@ -0,0 +1,86 @@
+import { bench, describe } from 'vitest';
+import { readJsonStream } from '../src/api/json-stream.js';
+import { normalizePage, toIngestionEvents } from '../src/mappers.js';
+import type { NormalizedPage, IngestionEvent } from '../src/types.js';
+
+// A full page as the API sends it: 5000 events, read in 64 KiB network chunks
+const EVENTS = 5000;
+const CHUNK_BYTES = 64 * 1024;
+const T = 1768000000000;
+
+const page = new TextEncoder().encode(JSON.stringify({
+  data: Array.from({ length: EVENTS }, (_, i) => ({
+    id: `evt-${String(i).padStart(8, '0')}`,
+    timestamp: T - i * 37,
+    type: i % 3 === 0 ? 'page_view' : 'click',
+    userId: `user-${i % 977}`,
+    sessionId: `sess-${(i * 7919) % 100000}`,
+    properties: { path: `/products/${i % 251}`, referrer: 'https://example.com/search?q=a%2Cb', value: i * 0.25 },
+  })),
+  hasMore: true,
+  nextCursor: 'eyJ0cyI6MTc2ODAwMDAwMDAwMCwiaWQiOiJldnQtMDAwMDQ5OTkifQ',
+}));
+
+let peakHeap = 0;
+
+async function* chunks(): AsyncGenerator<Uint8Array> {
+  for (let i = 0; i < page.length; i += CHUNK_BYTES) {
+    peakHeap = Math.max(peakHeap, process.memoryUsage().heapUsed);
+    yield page.subarray(i, i + CHUNK_BYTES);
+  }
+}
+
+// What a worker holds while its batch waits in the write queue
+interface Batch {
+  readonly page: NormalizedPage;
+  readonly rows: IngestionEvent[];
+}
+
+// Both paths go from response bytes to rows ready for insertEvents
+const paths = {
+  'buffered: response.json() + JSON.stringify per event': async (): Promise<Batch> => {
+    const parts: Uint8Array[] = [];
+    for await (const chunk of chunks()) parts.push(chunk);
+    const text = Buffer.concat(parts).toString('utf-8');
+    const normalized = normalizePage(JSON.parse(text));
+    return { page: normalized, rows: toIngestionEvents(normalized.events) };
+  },
+  'streaming: readJsonStream, payload from source text': async (): Promise<Batch> => {
+    const normalized = normalizePage(await readJsonStream(chunks()));
+    return { page: normalized, rows: toIngestionEvents(normalized.events) };
+  },
+};
+
+/**
+ * Heap used above the baseline at its peak while `path` runs (sampled per
+ * chunk and at the end, garbage included) and still retained by the batch
+ * after a full GC. Needs `--expose-gc`, which `npm run bench` sets.
+ */
+async function measureHeap(path: () => Promise<Batch>): Promise<{ peakKiB: number; retainedKiB: number }> {
+  const gc = globalThis.gc!;
+  gc();
+  const baseline = process.memoryUsage().heapUsed;
+  peakHeap = baseline;
+  const batch = await path();
+  peakHeap = Math.max(peakHeap, process.memoryUsage().heapUsed);
+  gc();
+  const retained = process.memoryUsage().heapUsed - baseline;
+  if (batch.rows.length !== EVENTS) throw new Error('Benchmark page did not map');
+  return { peakKiB: Math.round((peakHeap - baseline) / 1024), retainedKiB: Math.round(retained / 1024) };
+}
+
+if (typeof globalThis.gc === 'function') {
+  const heap: Record<string, { peakKiB: number; retainedKiB: number }> = {};
+  for (const [name, path] of Object.entries(paths)) heap[name] = await measureHeap(path);
+  console.table(heap);
+} else {
+  console.warn('Run with --expose-gc (npm run bench) to measure heap use');
+}
+
+describe(`page of ${EVENTS} events (${Math.round(page.length / 1024)} KiB)`, () => {
+  for (const [name, path] of Object.entries(paths)) {
+    bench(name, async () => {
+      await path();
+    });
+  }
+});
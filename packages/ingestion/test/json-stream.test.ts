@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonPageParser, readJsonStream } from '../src/api/json-stream.js';
+import { normalizePage, toIngestionEvents } from '../src/mappers.js';
+import type { RawEvent } from '../src/types.js';
+
+const T = 1768000000000;
+
+function parseInChunks(text: string, size: number): { body: unknown; items: string[] } {
+  const items: string[] = [];
+  const parser = createJsonPageParser((item) => {
+    items.push(item);
+    return JSON.parse(item);
+  });
+  for (let i = 0; i < text.length; i += size) parser.write(text.slice(i, i + size));
+  return { body: parser.end(), items };
+}
+
+async function* bytes(text: string, size: number): AsyncGenerator<Uint8Array> {
+  const encoded = new TextEncoder().encode(text);
+  for (let i = 0; i < encoded.length; i += size) yield encoded.slice(i, i + size);
+}
+
+const tricky = {
+  data: [
+    { id: 'e1', timestamp: T, note: 'comma, bracket ] brace } quote " backslash \\' },
+    { id: 'e2', timestamp: T - 1, nested: { list: [1, [2, 3], { a: '[' }] }, unicode: 'é ✓ 🚀' },
+    'not-an-event',
+    null,
+  ],
+  hasMore: true,
+  nextCursor: 'c-2',
+  meta: { total: 4, tags: ['x', 'y'] },
+};
+
+describe('createJsonPageParser', () => {
+  it('matches JSON.parse however the text is chunked', () => {
+    const text = JSON.stringify(tricky, null, 2);
+    for (const size of [1, 2, 3, 7, 64, text.length]) {
+      expect(parseInChunks(text, size).body).toEqual(tricky);
+    }
+  });
+
+  it('hands each event to the callback as its own JSON text', () => {
+    const { items } = parseInChunks(JSON.stringify(tricky), 5);
+
+    expect(items).toEqual(tricky.data.map((item) => JSON.stringify(item)));
+  });
+
+  it('streams the nested page shape', () => {
+    const nested = {
+      data: {
+        data: [{ id: 'e1', timestamp: T }, { id: 'e2', timestamp: T - 1 }],
+        pagination: { hasMore: false, nextCursor: null },
+      },
+    };
+    const { body, items } = parseInChunks(JSON.stringify(nested), 4);
+
+    expect(body).toEqual(nested);
+    expect(items).toHaveLength(2);
+  });
+
+  it('finds events arrays by decoded key and leaves other arrays alone', () => {
+    const text = '{"me\\u0074a":{"data":[1,2]},"items":[{"id":"x"}],"d\\u0061ta":[{"id":"e1"}],"hasMore":false}';
+    const { body, items } = parseInChunks(text, 3);
+
+    expect(body).toEqual(JSON.parse(text));
+    expect(items).toEqual(['{"id":"e1"}']);
+  });
+
+  it('parses bodies that are not objects', () => {
+    expect(parseInChunks('[{"id":"e1"},{"id":"e2"}]', 4).body).toEqual([{ id: 'e1' }, { id: 'e2' }]);
+    expect(parseInChunks('"ok"', 1).body).toBe('ok');
+  });
+
+  it('throws SyntaxError on malformed or truncated input', () => {
+    expect(() => parseInChunks('{"data":[{"id":"e1"},{"id":}],"hasMore":false}', 8)).toThrow(SyntaxError);
+    expect(() => parseInChunks('{"data":[{"id":"e1"}', 8)).toThrow(SyntaxError);
+    expect(() => parseInChunks('{"data":[],"hasMore":', 8)).toThrow(SyntaxError);
+  });
+});
+
+describe('readJsonStream', () => {
+  it('decodes multi-byte characters split across chunks', async () => {
+    const body = await readJsonStream(bytes(JSON.stringify(tricky), 3));
+
+    const events = toIngestionEvents(normalizePage(body).events);
+    expect(events.map((event) => JSON.parse(event.payload))).toEqual(tricky.data.slice(0, 2));
+    expect(body).toMatchObject({ hasMore: true, nextCursor: 'c-2', meta: tricky.meta });
+  });
+
+  it('keeps only id and timestamp of parsed events, and rejected items whole', async () => {
+    const text = JSON.stringify({ data: [...tricky.data, { id: 'e3', timestamp: 'soon', extra: 1 }] });
+    const body = await readJsonStream(bytes(text, 64)) as { data: unknown[] };
+
+    expect(body.data).toEqual([
+      { id: 'e1', timestamp: T },
+      { id: 'e2', timestamp: T - 1 },
+      'not-an-event',
+      null,
+      { id: 'e3', timestamp: 'soon', extra: 1 },
+    ]);
+  });
+
+  it('keeps each event\'s source text as its payload', async () => {
+    const text = '{"data":[{"id":"e1", "timestamp":1768000000000, "big":12345678901234567890}],"hasMore":false}';
+    const page = normalizePage(await readJsonStream(bytes(text, 16)));
+
+    const [event] = toIngestionEvents(page.events as RawEvent[]);
+
+    expect(event!.eventId).toBe('e1');
+    expect(event!.payload).toBe('{"id":"e1", "timestamp":1768000000000, "big":12345678901234567890}');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLeaseManager } from '../src/core/lease-manager.js';
+import type { Pool } from '../src/db/pool.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+const lease = { owner: 'host-1', ttlMs: 30000 };
+
+function row(workerId: number) {
+  return {
+    worker_id: workerId,
+    chunk_start_ts: '1000',
+    chunk_end_ts: '2000',
+    cursor: null,
+    last_ts: null,
+    fetched_count: '0',
+    inserted_count: '0',
+    status: 'running',
+    split_from: null,
+  };
+}
+
+function createMockPool(handlers: { claim?: unknown[]; renew?: unknown[] }) {
+  return {
+    query: vi.fn().mockImplementation(async (sql: string) => {
+      if (sql.includes('SKIP LOCKED')) return { rows: handlers.claim ?? [] };
+      if (sql.includes('RETURNING worker_id')) return { rows: handlers.renew ?? [] };
+      return { rows: [], rowCount: 1 };
+    }),
+  } as unknown as Pool & { query: ReturnType<typeof vi.fn> };
+}
+
+describe('createLeaseManager', () => {
+  it('holds claimed checkpoints', async () => {
+    const pool = createMockPool({ claim: [row(3)] });
+    const leases = createLeaseManager(pool, 'job-a', lease, logger);
+
+    const claimed = await leases.claim();
+
+    expect(claimed?.workerId).toBe(3);
+    expect(leases.isHeld(3)).toBe(true);
+  });
+
+  it('drops leases that another process took over', async () => {
+    const pool = createMockPool({ renew: [{ worker_id: 1 }] });
+    const leases = createLeaseManager(pool, 'job-a', lease, logger);
+    leases.adopt(1);
+    leases.adopt(2);
+
+    await leases.heartbeat();
+
+    expect(leases.isHeld(1)).toBe(true);
+    expect(leases.isHeld(2)).toBe(false);
+  });
+
+  it('never re-claims abandoned checkpoints', async () => {
+    const pool = createMockPool({ claim: [row(4)] });
+    const leases = createLeaseManager(pool, 'job-a', lease, logger);
+    await leases.claim();
+
+    await leases.release(4, { abandon: true });
+    await leases.claim();
+
+    const claimCalls = pool.query.mock.calls.filter(([sql]) => String(sql).includes('SKIP LOCKED'));
+    expect(claimCalls[1]![1]).toEqual(['job-a', 'host-1', 30000, [4]]);
+  });
+
+  it('releases every held lease on stop', async () => {
+    const pool = createMockPool({});
+    const leases = createLeaseManager(pool, 'job-a', lease, logger);
+    leases.adopt(1);
+    leases.adopt(2);
+
+    await leases.stop();
+
+    const releases = pool.query.mock.calls.filter(([sql]) => String(sql).includes('lease_owner = NULL'));
+    expect(releases).toHaveLength(2);
+    expect(leases.isHeld(1)).toBe(false);
+  });
+});
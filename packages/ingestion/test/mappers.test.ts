@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { normalizePage, toIngestionEvents } from '../src/mappers.js';
+import { mapRawEvents, normalizePage, toIngestionEvents } from '../src/mappers.js';
+import { ApiError } from '../src/types.js';
 
 describe('normalizePage', () => {
   it('handles flat response format', () => {
@@ -69,6 +70,67 @@ describe('normalizePage', () => {
 
     expect(page.events).toHaveLength(2);
   });
+
+  it('reports skipped items as rejected with a reason', () => {
+    const page = normalizePage({
+      data: {
+        data: [
+          { id: '1', timestamp: 100 },
+          { noId: true, timestamp: 200 },
+          'garbage',
+          null,
+        ],
+        pagination: { hasMore: false, nextCursor: null },
+      },
+    });
+
+    expect(page.events).toHaveLength(1);
+    expect(page.rejected).toEqual([
+      { raw: { noId: true, timestamp: 200 }, reason: 'missing-id' },
+      { raw: 'garbage', reason: 'not-a-record' },
+      { raw: null, reason: 'not-a-record' },
+    ]);
+  });
+});
+
+describe('normalizePage validation', () => {
+  const events = [{ id: '1', timestamp: 1768000000000 }];
+
+  function strictError(raw: unknown): ApiError {
+    try {
+      normalizePage(raw, 'strict');
+    } catch (err) {
+      return err as ApiError;
+    }
+    throw new Error('expected normalizePage to throw');
+  }
+
+  it('accepts well-formed pages in strict mode', () => {
+    const flat = normalizePage({ data: events, hasMore: true, nextCursor: 'c' }, 'strict');
+    const nested = normalizePage({ data: { data: events, pagination: { hasMore: false, nextCursor: null } } }, 'strict');
+
+    expect(flat.anomalies).toBeUndefined();
+    expect(nested.anomalies).toBeUndefined();
+  });
+
+  it('throws a typed ApiError in strict mode', () => {
+    expect(strictError('<html>')).toBeInstanceOf(ApiError);
+    expect(strictError({ items: events }).errorType).toBe('unknown-shape');
+    expect(strictError({ data: events }).errorType).toBe('missing-pagination');
+    expect(strictError({ data: { data: events } }).errorType).toBe('missing-pagination');
+    expect(strictError({ data: events, hasMore: 'yes', nextCursor: 'c' }).errorType).toBe('missing-pagination');
+    expect(strictError({ data: events, hasMore: true, nextCursor: null }).errorType).toBe('cursor-mismatch');
+    expect(strictError({ data: events, pagination: { hasMore: false, nextCursor: 'c' } }).errorType).toBe('cursor-mismatch');
+  });
+
+  it('reads what it can and lists anomalies in lenient mode', () => {
+    const unknown = normalizePage({ items: events });
+    const noCursor = normalizePage({ data: events, hasMore: true });
+
+    expect(unknown).toMatchObject({ events: [], hasMore: false, anomalies: ['unknown-shape'] });
+    expect(noCursor).toMatchObject({ hasMore: true, nextCursor: null, anomalies: ['cursor-mismatch'] });
+    expect(noCursor.events).toHaveLength(1);
+  });
 });
 
 describe('toIngestionEvents', () => {
@@ -104,3 +166,21 @@ describe('toIngestionEvents', () => {
     expect(events[0]!.eventId).toBe('b');
   });
 });
+
+describe('mapRawEvents', () => {
+  it('keeps events that do not map with the reason', () => {
+    const { events, rejected } = mapRawEvents([
+      { id: 'a', timestamp: 'not-a-date' },
+      { id: 'b', timestamp: 1768000000000 },
+      { id: '', timestamp: 1768000000000 },
+      42,
+    ]);
+
+    expect(events.map((e) => e.eventId)).toEqual(['b']);
+    expect(rejected).toEqual([
+      { raw: { id: 'a', timestamp: 'not-a-date' }, reason: 'invalid-timestamp' },
+      { raw: { id: '', timestamp: 1768000000000 }, reason: 'missing-id' },
+      { raw: 42, reason: 'not-a-record' },
+    ]);
+  });
+});
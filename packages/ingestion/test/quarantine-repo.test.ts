@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { insertQuarantined } from '../src/db/quarantine-repo.js';
+import type { PoolClient } from '../src/db/pool.js';
+import { DbError } from '../src/types.js';
+
+function createMockClient(): PoolClient {
+  return {
+    query: vi.fn().mockResolvedValue({ rowCount: 2 }),
+  } as unknown as PoolClient;
+}
+
+describe('insertQuarantined', () => {
+  it('returns 0 for empty array', async () => {
+    const client = createMockClient();
+    expect(await insertQuarantined(client, [], 'default')).toBe(0);
+    expect(client.query).not.toHaveBeenCalled();
+  });
+
+  it('stores raw items with a content hash for deduplication', async () => {
+    const client = createMockClient();
+
+    const result = await insertQuarantined(client, [
+      { raw: { noId: true }, reason: 'missing-id', workerId: 3, cursor: 'c1' },
+      { raw: undefined, reason: 'not-a-record', workerId: null, cursor: null },
+    ], 'job-a');
+
+    expect(result).toBe(2);
+    const [sql, params] = (client.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('ON CONFLICT (job_id, raw_hash) DO NOTHING');
+    expect(params[0]).toBe('job-a');
+    expect(params[1]).toEqual(['{"noId":true}', 'null']);
+    const hashes = params[2] as string[];
+    expect(hashes[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashes[0]).not.toBe(hashes[1]);
+    expect(params[3]).toEqual(['missing-id', 'not-a-record']);
+    expect(params[4]).toEqual([3, null]);
+    expect(params[5]).toEqual(['c1', null]);
+  });
+
+  it('wraps query failures in DbError', async () => {
+    const client = {
+      query: vi.fn().mockRejectedValue(new Error('connection reset')),
+    } as unknown as PoolClient;
+
+    await expect(insertQuarantined(client, [
+      { raw: 1, reason: 'not-a-record', workerId: 0, cursor: null },
+    ], 'default')).rejects.toBeInstanceOf(DbError);
+  });
+});
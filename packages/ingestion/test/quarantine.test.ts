@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { reprocessQuarantine } from '../src/core/quarantine.js';
+import type { Pool } from '../src/db/pool.js';
+import type { AppConfig } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+interface FakeRow {
+  quarantine_id: string;
+  raw: unknown;
+  reason: string;
+  reprocessed: boolean;
+}
+
+/** Quarantine table holding `raws`, plus the events and run history a re-process writes. */
+function createFakePool(raws: unknown[]) {
+  const rows: FakeRow[] = raws.map((raw, i) => ({
+    quarantine_id: String(i + 1),
+    raw,
+    reason: 'missing-id',
+    reprocessed: false,
+  }));
+  const inserted: string[] = [];
+  const runs: unknown[][] = [];
+
+  const client = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes('INSERT INTO')) {
+        const ids = params![0] as string[];
+        inserted.push(...ids);
+        return { rowCount: ids.length };
+      }
+      if (sql.includes('UPDATE quarantined_events')) {
+        const ids = params![0] as string[];
+        rows.filter((row) => ids.includes(row.quarantine_id)).forEach((row) => { row.reprocessed = true; });
+        return { rowCount: ids.length };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+    release: vi.fn(),
+  };
+
+  const pool = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes('INSERT INTO ingestion_runs')) return { rows: [{ run_id: '9' }] };
+      if (sql.includes('UPDATE ingestion_runs')) {
+        runs.push(params!);
+        return { rowCount: 1 };
+      }
+      if (sql.includes('GROUP BY reason')) return { rows: [{ reason: 'missing-id', count: String(rows.length) }] };
+      if (sql.includes('FROM quarantined_events')) {
+        const afterId = Number(params![1]);
+        return {
+          rows: rows
+            .filter((row) => !row.reprocessed && Number(row.quarantine_id) > afterId)
+            .slice(0, params![2] as number),
+        };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+    connect: vi.fn().mockResolvedValue(client),
+  };
+  return { pool: pool as unknown as Pool, client, rows, inserted, runs };
+}
+
+const config = { jobId: 'default', eventsTable: 'ingested_events' } as AppConfig;
+
+describe('reprocessQuarantine', () => {
+  it('ingests items that now map and leaves the rest quarantined', async () => {
+    const { pool, client, rows, inserted, runs } = createFakePool([
+      { id: 'e1', timestamp: T },
+      { noId: true },
+      { id: 'e2', timestamp: 'not-a-date' },
+      { id: 'e3', timestamp: T + 1 },
+    ]);
+
+    const report = await reprocessQuarantine({ pool, config, logger });
+
+    expect(report).toEqual({
+      examined: 4,
+      recovered: 2,
+      inserted: 2,
+      stillRejected: { 'missing-id': 1, 'invalid-timestamp': 1 },
+    });
+    expect(inserted).toEqual(['e1', 'e3']);
+    expect(rows.filter((row) => row.reprocessed).map((row) => row.quarantine_id)).toEqual(['1', '4']);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(runs[0]![1]).toBe('completed');
+  });
+
+  it('rolls back and records a failed run when the insert fails', async () => {
+    const { pool, client, rows, runs } = createFakePool([{ id: 'e1', timestamp: T }]);
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO')) throw new Error('disk full');
+      return { rows: [], rowCount: 0 };
+    });
+
+    await expect(reprocessQuarantine({ pool, config, logger })).rejects.toThrow();
+
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+    expect(rows[0]!.reprocessed).toBe(false);
+    expect(runs[0]![1]).toBe('failed');
+  });
+});
@@ -1,58 +1,156 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { createRateLimiter } from '../src/api/middleware/rate-limit.js';
 import pino from 'pino';
 
 const logger = pino({ level: 'silent' });
 
+function limitHeaders(remaining: number, limit: number, resetInSeconds: number): Headers {
+  return new Headers({
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-limit': String(limit),
+    'x-ratelimit-reset': String(resetInSeconds),
+  });
+}
+
+// Whether `promise` is still pending once due timers have run
+async function isPending(promise: Promise<unknown>): Promise<boolean> {
+  let settled = false;
+  void promise.then(() => { settled = true; });
+  await vi.advanceTimersByTimeAsync(0);
+  return !settled;
+}
+
 describe('createRateLimiter', () => {
-  it('returns 0 delay when no rate limit state', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not wait on an endpoint without rate limit state', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(logger);
+    expect(await isPending(limiter.acquire('stream'))).toBe(false);
+    expect(limiter.getState().buckets[0]).toMatchObject({ endpoint: 'stream', limit: null, tokens: null });
+  });
+
+  it('paces requests just under the advertised limit once tokens run out', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(logger);
+    // 10 requests per 10s → refills at 0.9 tokens per second
+    limiter.updateFromHeaders('stream', limitHeaders(2, 10, 10));
+
+    expect(await isPending(limiter.acquire('stream'))).toBe(false);
+    expect(await isPending(limiter.acquire('stream'))).toBe(false);
+
+    const third = limiter.acquire('stream');
+    expect(await isPending(third)).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await isPending(third)).toBe(true);
+    await vi.advanceTimersByTimeAsync(120);
+    expect(await isPending(third)).toBe(false);
+  });
+
+  it('queues concurrent callers behind each other', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(logger);
+    limiter.updateFromHeaders('stream', limitHeaders(0, 9, 10)); // 0.81 tokens/s, window spent
+    vi.advanceTimersByTime(10_200); // Past reset; tokens refilled to 8.26
+
+    const waits = Array.from({ length: 10 }, () => limiter.acquire('stream'));
+    await vi.advanceTimersByTimeAsync(0);
+    const pending = await Promise.all(waits.map(isPending));
+    // Eight tokens available now, the rest spaced by the refill rate
+    expect(pending.filter((p) => !p)).toHaveLength(8);
+    await vi.advanceTimersByTimeAsync(1250);
+    expect((await Promise.all(waits.map(isPending))).filter((p) => p)).toHaveLength(1);
+  });
+
+  it('waits for the reset when the server reports nothing remaining', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(logger);
+    limiter.updateFromHeaders('events', limitHeaders(0, 100, 5));
+
+    const next = limiter.acquire('events');
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(await isPending(next)).toBe(true);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(await isPending(next)).toBe(false);
+  });
+
+  it('keeps a separate bucket per endpoint', async () => {
+    vi.useFakeTimers();
     const limiter = createRateLimiter(logger);
-    expect(limiter.getPreRequestDelayMs()).toBe(0);
+    limiter.updateFromHeaders('stream', limitHeaders(0, 100, 5));
+
+    expect(await isPending(limiter.acquire('events'))).toBe(false);
+    expect(limiter.getState().buckets.map((b) => b.endpoint)).toEqual(['stream', 'events']);
   });
 
-  it('returns delay when remaining is low and reset is in the future', () => {
+  it('clamps tokens to the server-reported remaining', () => {
     const limiter = createRateLimiter(logger);
-    const futureReset = Math.floor((Date.now() + 5000) / 1000); // 5s from now, in epoch seconds
+    limiter.updateFromHeaders('stream', limitHeaders(100, 100, 60));
+    limiter.updateFromHeaders('stream', limitHeaders(3, 100, 60)); // Another client spent the rest
+
+    const [bucket] = limiter.getState().buckets;
+    expect(bucket).toMatchObject({ limit: 100, remaining: 3, tokens: 3, refillPerSecond: 1.5 });
+  });
 
-    limiter.updateFromHeaders(new Headers({
-      'x-ratelimit-remaining': '1',
-      'x-ratelimit-limit': '60',
-      'x-ratelimit-reset': String(futureReset),
-    }));
+  it('publishes bucket state to metrics', () => {
+    const metrics = { recordRateLimits: vi.fn() };
+    const limiter = createRateLimiter(logger, metrics);
+    limiter.updateFromHeaders('stream', limitHeaders(42, 60, 60));
 
-    const delay = limiter.getPreRequestDelayMs();
-    expect(delay).toBeGreaterThan(0);
-    expect(delay).toBeLessThan(10000);
+    expect(metrics.recordRateLimits).toHaveBeenLastCalledWith([
+      expect.objectContaining({ endpoint: 'stream', remaining: 42, limit: 60 }),
+    ]);
   });
 
   it('increases adaptive delay on 429', () => {
     const limiter = createRateLimiter(logger);
 
-    limiter.record429();
-    const state1 = limiter.getState();
-    expect(state1.adaptiveDelayMs).toBeGreaterThan(0);
-    expect(state1.consecutive429s).toBe(1);
+    limiter.record429('stream');
+    const [bucket] = limiter.getState().buckets;
+    expect(bucket!.adaptiveDelayMs).toBeGreaterThan(0);
+    expect(bucket!.consecutive429s).toBe(1);
+  });
+
+  it('backs off after 429s only on endpoints without rate limit headers', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(logger);
+    limiter.updateFromHeaders('stream', limitHeaders(50, 100, 60));
+    limiter.record429('stream');
+    limiter.record429('events');
+
+    expect(await isPending(limiter.acquire('stream'))).toBe(false); // Paced by its bucket instead
+    const headerless = limiter.acquire('events');
+    expect(await isPending(headerless)).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await isPending(headerless)).toBe(false);
   });
 
-  it('decays adaptive delay on success', () => {
+  it('decays adaptive delay and resets the consecutive count on success', () => {
     const limiter = createRateLimiter(logger);
 
-    limiter.record429();
-    const afterThrottle = limiter.getState().adaptiveDelayMs;
+    limiter.record429('stream');
+    const afterThrottle = limiter.getState().buckets[0]!.adaptiveDelayMs;
 
-    limiter.recordSuccess();
-    const afterSuccess = limiter.getState().adaptiveDelayMs;
+    limiter.recordSuccess('stream');
+    const afterSuccess = limiter.getState().buckets[0]!;
 
-    expect(afterSuccess).toBeLessThan(afterThrottle);
+    expect(afterSuccess.adaptiveDelayMs).toBeLessThan(afterThrottle);
+    expect(afterSuccess.consecutive429s).toBe(0);
   });
 
-  it('resets consecutive count on success', () => {
+  it('counts every 429 and timeout even inside the dedup window', () => {
     const limiter = createRateLimiter(logger);
 
-    limiter.record429();
-    expect(limiter.getState().consecutive429s).toBe(1);
+    limiter.record429('stream');
+    limiter.record429('stream');
+    limiter.record429('events');
+    limiter.recordTimeout();
 
-    limiter.recordSuccess();
-    expect(limiter.getState().consecutive429s).toBe(0);
+    const state = limiter.getState();
+    expect(state.total429s).toBe(3);
+    expect(state.buckets[0]).toMatchObject({ endpoint: 'stream', total429s: 2, consecutive429s: 1 }); // Burst deduplicated
+    expect(state.totalTimeouts).toBe(1);
   });
 });
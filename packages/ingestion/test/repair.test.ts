@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadRepairIds, runGapRepair } from '../src/core/repair.js';
+import type { BulkEventsClient } from '../src/api/bulk-events.js';
+import type { Pool } from '../src/db/pool.js';
+import type { AppConfig } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const T = 1768000000000;
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'repair-test-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function idsFile(name: string, content: string): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, content, 'utf-8');
+  return path;
+}
+
+/** Events table holding `present`, plus the quarantine and run history a repair writes. */
+function createFakePool(present: string[]) {
+  const table = new Set(present);
+  const quarantined: unknown[] = [];
+  const runs: unknown[][] = [];
+
+  const client = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes('INSERT INTO quarantined_events')) {
+        quarantined.push(...(params![1] as string[]).map((raw) => JSON.parse(raw) as unknown));
+        return { rowCount: (params![1] as string[]).length };
+      }
+      if (!sql.includes('ingested_events')) return { rows: [], rowCount: 0 };
+      const ids = params![0] as string[];
+      const before = table.size;
+      ids.forEach((id) => table.add(id));
+      return { rowCount: table.size - before };
+    }),
+    release: vi.fn(),
+  };
+
+  const pool = {
+    query: vi.fn().mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes('INSERT INTO ingestion_runs')) return { rows: [{ run_id: '7' }] };
+      if (sql.includes('UPDATE ingestion_runs')) {
+        runs.push(params!);
+        return { rowCount: 1 };
+      }
+      if (sql.includes('event_id = ANY')) {
+        const ids = params![0] as string[];
+        return { rows: ids.filter((id) => table.has(id)).map((id) => ({ event_id: id })) };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+    connect: vi.fn().mockResolvedValue(client),
+  };
+  return { pool: pool as unknown as Pool, table, quarantined, runs };
+}
+
+function createBulk(available: string[]): BulkEventsClient & { fetchByIds: ReturnType<typeof vi.fn> } {
+  return {
+    fetchByIds: vi.fn().mockImplementation(async (ids: string[]) => ids
+      .filter((id) => available.includes(id))
+      .map((id) => ({ id, timestamp: T }))),
+  };
+}
+
+function config(repairIdsFile: string): AppConfig {
+  return {
+    jobId: 'default',
+    eventsTable: 'ingested_events',
+    repairIdsFile,
+    repairBatchSize: 2,
+  } as AppConfig;
+}
+
+describe('loadRepairIds', () => {
+  it('reads one id per line, skipping blanks, comments and duplicates', async () => {
+    const path = await idsFile('ids.txt', '# reconciliation\ne1\n\n  e2  \ne1\n');
+    expect(await loadRepairIds(path)).toEqual(['e1', 'e2']);
+  });
+
+  it('reads JSON arrays and reports with an ids list', async () => {
+    expect(await loadRepairIds(await idsFile('ids.json', '["e1", "e2"]'))).toEqual(['e1', 'e2']);
+    expect(await loadRepairIds(await idsFile('report.json', '{"missingIds": ["e3"]}'))).toEqual(['e3']);
+  });
+
+  it('rejects JSON without ids and non-string ids', async () => {
+    await expect(loadRepairIds(await idsFile('bad.json', '{"count": 3}'))).rejects.toThrow('"ids" array');
+    await expect(loadRepairIds(await idsFile('num.json', '[1]'))).rejects.toThrow('invalid event id: 1');
+  });
+});
+
+describe('runGapRepair', () => {
+  it('fetches only missing ids in batches and inserts them', async () => {
+    const path = await idsFile('gaps.txt', 'e1\ne2\ne3\ne4\ne5\n');
+    const { pool, table } = createFakePool(['e1', 'e4']);
+    const bulk = createBulk(['e1', 'e2', 'e3', 'e4', 'e5']);
+
+    const report = await runGapRepair({ pool, config: config(path), bulk, logger });
+
+    expect(bulk.fetchByIds.mock.calls.map((c) => c[0])).toEqual([['e2'], ['e3'], ['e5']]);
+    expect(report).toEqual({
+      requested: 5,
+      alreadyPresent: 2,
+      fetched: 3,
+      inserted: 3,
+      rejected: 0,
+      notFound: 0,
+      notFoundSample: [],
+    });
+    expect([...table].sort()).toEqual(['e1', 'e2', 'e3', 'e4', 'e5']);
+  });
+
+  it('skips batches that are already complete', async () => {
+    const path = await idsFile('present.txt', 'e1\ne2\n');
+    const { pool } = createFakePool(['e1', 'e2']);
+    const bulk = createBulk(['e1', 'e2']);
+
+    const report = await runGapRepair({ pool, config: config(path), bulk, logger });
+
+    expect(bulk.fetchByIds).not.toHaveBeenCalled();
+    expect(report.alreadyPresent).toBe(2);
+  });
+
+  it('reports ids the API does not return and records the run', async () => {
+    const path = await idsFile('unknown.txt', 'e1\nghost\n');
+    const { pool, runs } = createFakePool([]);
+    const bulk = createBulk(['e1']);
+
+    const report = await runGapRepair({ pool, config: config(path), bulk, logger });
+
+    expect(report).toMatchObject({ inserted: 1, notFound: 1, notFoundSample: ['ghost'] });
+    const [runId, status, , , totalInserted, failureReasons] = runs[0]!;
+    expect(runId).toBe(7);
+    expect(status).toBe('completed');
+    expect(totalInserted).toBe('1');
+    expect(JSON.parse(failureReasons as string)).toEqual(['1 id(s) not returned by the bulk endpoint']);
+  });
+
+  it('quarantines returned events that do not map instead of reporting them missing', async () => {
+    const path = await idsFile('broken.txt', 'e1\nbad\n');
+    const { pool, table, quarantined, runs } = createFakePool([]);
+    const bulk = {
+      fetchByIds: vi.fn().mockResolvedValue([{ id: 'e1', timestamp: T }, { id: 'bad', timestamp: 'yesterday' }]),
+    };
+
+    const report = await runGapRepair({ pool, config: config(path), bulk, logger });
+
+    expect(report).toMatchObject({ fetched: 1, inserted: 1, rejected: 1, notFound: 0, notFoundSample: [] });
+    expect([...table]).toEqual(['e1']);
+    expect(quarantined).toEqual([{ id: 'bad', timestamp: 'yesterday' }]);
+    expect(JSON.parse(runs[0]![5] as string)).toEqual(['1 id(s) quarantined as unmappable']);
+  });
+
+  it('records a failed run when the bulk endpoint fails', async () => {
+    const path = await idsFile('fail.txt', 'e1\n');
+    const { pool, runs } = createFakePool([]);
+    const bulk = { fetchByIds: vi.fn().mockRejectedValue(new Error('HTTP 503')) };
+
+    await expect(runGapRepair({ pool, config: config(path), bulk, logger })).rejects.toThrow('HTTP 503');
+    expect(runs[0]![1]).toBe('failed');
+  });
+});
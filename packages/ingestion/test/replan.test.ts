@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { computeUncoveredRanges, planUncoveredChunks } from '../src/core/replan.js';
+import type { WorkerCheckpoint, WorkerStatus } from '../src/types.js';
+
+function checkpoint(
+  workerId: number,
+  chunkStartTs: number,
+  chunkEndTs: number,
+  status: WorkerStatus,
+  lastTs: number | null = null,
+): WorkerCheckpoint {
+  return {
+    workerId,
+    chunkStartTs,
+    chunkEndTs,
+    cursor: null,
+    lastTs,
+    lastEventId: null,
+    fetchedCount: 0,
+    insertedCount: 0,
+    status,
+    splitFrom: null,
+  };
+}
+
+describe('computeUncoveredRanges', () => {
+  it('keeps completed ranges and the covered tail of running ones', () => {
+    const uncovered = computeUncoveredRanges({ startTs: 0, endTs: 400 }, [
+      checkpoint(0, 0, 100, 'completed'),
+      checkpoint(1, 100, 200, 'running', 150),
+      checkpoint(2, 200, 300, 'running'),
+      checkpoint(3, 300, 400, 'failed', 390),
+    ]);
+
+    expect(uncovered).toEqual([
+      { startTs: 100, endTs: 151 }, // lastTs itself may have more events
+      { startTs: 200, endTs: 391 },
+    ]);
+  });
+
+  it('returns nothing when everything is completed', () => {
+    const uncovered = computeUncoveredRanges({ startTs: 0, endTs: 200 }, [
+      checkpoint(0, 0, 100, 'completed'),
+      checkpoint(1, 100, 200, 'completed'),
+    ]);
+    expect(uncovered).toEqual([]);
+  });
+
+  it('includes parts of the range no checkpoint ever owned', () => {
+    const uncovered = computeUncoveredRanges({ startTs: 0, endTs: 300 }, [
+      checkpoint(0, 100, 200, 'completed'),
+    ]);
+    expect(uncovered).toEqual([
+      { startTs: 0, endTs: 100 },
+      { startTs: 200, endTs: 300 },
+    ]);
+  });
+});
+
+describe('planUncoveredChunks', () => {
+  it('splits a single range into equal chunks', () => {
+    expect(planUncoveredChunks([{ startTs: 0, endTs: 300 }], 3)).toEqual([
+      { startTs: 0, endTs: 100 },
+      { startTs: 100, endTs: 200 },
+      { startTs: 200, endTs: 300 },
+    ]);
+  });
+
+  it('never spans a covered gap', () => {
+    const chunks = planUncoveredChunks([
+      { startTs: 0, endTs: 100 },
+      { startTs: 500, endTs: 600 },
+    ], 3);
+
+    const width = chunks.reduce((sum, c) => sum + (c.endTs - c.startTs), 0);
+    expect(width).toBe(200);
+    for (const c of chunks) {
+      const inFirst = c.startTs >= 0 && c.endTs <= 100;
+      const inSecond = c.startTs >= 500 && c.endTs <= 600;
+      expect(inFirst || inSecond).toBe(true);
+    }
+  });
+
+  it('keeps every range when ranges outnumber workers', () => {
+    const chunks = planUncoveredChunks([
+      { startTs: 0, endTs: 10 },
+      { startTs: 20, endTs: 30 },
+      { startTs: 40, endTs: 50 },
+    ], 2);
+    expect(chunks).toHaveLength(4);
+    expect(chunks[0]).toEqual({ startTs: 0, endTs: 10 });
+    expect(chunks[chunks.length - 1]).toEqual({ startTs: 40, endTs: 50 });
+  });
+});
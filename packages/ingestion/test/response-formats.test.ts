@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { acceptHeaders, decodePage } from '../src/api/response-formats.js';
+import type { HttpResponse } from '../src/api/http-client.js';
+import { toIngestionEvents } from '../src/mappers.js';
+import { ApiError } from '../src/types.js';
+
+const T = 1768000000000;
+
+function text(body: string, headers: Record<string, string> = {}): HttpResponse {
+  return { status: 200, headers: new Headers(headers), body };
+}
+
+describe('decodePage', () => {
+  it('decodes JSON bodies with normalizePage, whatever was requested', () => {
+    const response: HttpResponse = {
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      body: { data: [{ id: 'e1', timestamp: T }], hasMore: true, nextCursor: 'c2' },
+    };
+
+    const page = decodePage(response, 'csv', 'strict');
+
+    expect(page).toMatchObject({ hasMore: true, nextCursor: 'c2' });
+    expect(page.events[0]!.id).toBe('e1');
+  });
+
+  it('decodes NDJSON with pagination from a trailer line', () => {
+    const body = [
+      JSON.stringify({ id: 'e1', timestamp: T, data: { a: 1 } }),
+      '',
+      JSON.stringify({ id: 'e2', timestamp: T - 1 }),
+      JSON.stringify({ pagination: { hasMore: true, nextCursor: 'c2' }, meta: { total: 3000000 } }),
+    ].join('\n');
+
+    const page = decodePage(text(body, { 'content-type': 'application/x-ndjson' }), 'ndjson', 'strict');
+
+    expect(page.events).toEqual([{ id: 'e1', timestamp: T, data: { a: 1 } }, { id: 'e2', timestamp: T - 1 }]);
+    expect(page).toMatchObject({ hasMore: true, nextCursor: 'c2', total: 3000000 });
+  });
+
+  it('takes NDJSON pagination from headers and rejects unreadable lines', () => {
+    const body = `${JSON.stringify({ id: 'e1', timestamp: T })}\n{not json\n`;
+
+    const page = decodePage(text(body, {
+      'content-type': 'application/x-ndjson',
+      'x-has-more': 'false',
+      'x-total-count': '10',
+    }), 'ndjson', 'strict');
+
+    expect(page).toMatchObject({ hasMore: false, nextCursor: null, total: 10 });
+    expect(page.events).toHaveLength(1);
+    expect(page.rejected).toEqual([{ raw: '{not json', reason: 'not-a-record' }]);
+  });
+
+  it('decodes CSV with quoted fields, JSON columns and a trailer comment', () => {
+    const body = [
+      'id,timestamp,type,properties',
+      `e1,${T},click,"{""path"":""/a,b""}"`,
+      `"e2",${T - 1},"multi`,
+      `line",[]`,
+      '# hasMore=true nextCursor=abc%3D total=2',
+    ].join('\r\n');
+
+    const page = decodePage(text(body, { 'content-type': 'text/csv; charset=utf-8' }), 'csv', 'strict');
+
+    expect(page.events).toEqual([
+      { id: 'e1', timestamp: T, type: 'click', properties: { path: '/a,b' } },
+      { id: 'e2', timestamp: T - 1, type: 'multi\r\nline', properties: [] },
+    ]);
+    expect(page).toMatchObject({ hasMore: true, nextCursor: 'abc=', total: 2 });
+  });
+
+  it('maps a CSV page to the same events as the equivalent JSON page', () => {
+    const events = [
+      { id: '1001', timestamp: T, type: 'click', value: 2.5, count: -3, premium: false, referrer: null },
+      { id: 'e2', timestamp: T - 1, type: '007', value: 1e21, count: 0, premium: true, referrer: 'https://x/?a=1' },
+    ];
+    const columns = Object.keys(events[0]!) as Array<keyof typeof events[0]>;
+    const csv = [
+      columns.join(','),
+      ...events.map((event) => columns.map((column) => String(event[column])).join(',')),
+      '# hasMore=false',
+    ].join('\n');
+
+    const fromCsv = decodePage(text(csv, { 'content-type': 'text/csv' }), 'csv', 'strict');
+    const fromJson = decodePage({
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      body: { data: events, hasMore: false, nextCursor: null },
+    }, 'csv', 'strict');
+
+    expect(toIngestionEvents(fromCsv.events)).toEqual(toIngestionEvents(fromJson.events));
+    expect(toIngestionEvents(fromCsv.events)).toHaveLength(2);
+  });
+
+  it('keeps quoted numbers, booleans and null as strings', () => {
+    const body = [
+      'id,timestamp,code,flag,note,count',
+      `e1,${T},"123","true","null",7`,
+      '# hasMore=false',
+    ].join('\n');
+
+    const page = decodePage(text(body, { 'content-type': 'text/csv' }), 'csv', 'strict');
+
+    expect(page.events).toEqual([{ id: 'e1', timestamp: T, code: '123', flag: 'true', note: 'null', count: 7 }]);
+  });
+
+  it('infers hasMore from a next cursor header and rejects ragged CSV rows', () => {
+    const body = `id,timestamp\ne1,${T}\ne2\n`;
+
+    const page = decodePage(text(body, { 'x-next-cursor': 'c2' }), 'csv', 'lenient');
+
+    expect(page).toMatchObject({ hasMore: true, nextCursor: 'c2' });
+    expect(page.events.map((e) => e.id)).toEqual(['e1']);
+    expect(page.rejected).toEqual([{ raw: ['e2'], reason: 'not-a-record' }]);
+  });
+
+  it('validates pagination like JSON pages', () => {
+    const body = `id,timestamp\ne1,${T}\n`;
+
+    expect(() => decodePage(text(body, { 'content-type': 'text/csv' }), 'csv', 'strict')).toThrow(ApiError);
+    expect(decodePage(text(body, { 'content-type': 'text/csv' }), 'csv', 'lenient').anomalies)
+      .toEqual(['missing-pagination']);
+  });
+});
+
+describe('acceptHeaders', () => {
+  it('asks for alternate formats only', () => {
+    expect(acceptHeaders('json')).toEqual({});
+    expect(acceptHeaders(undefined)).toEqual({});
+    expect(acceptHeaders('csv')).toEqual({ Accept: 'text/csv' });
+    expect(acceptHeaders('ndjson')).toEqual({ Accept: 'application/x-ndjson' });
+  });
+});
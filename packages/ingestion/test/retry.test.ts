@@ -1,5 +1,23 @@
-import { describe, it, expect } from 'vitest';
-import { parseRetryAfter } from '../src/api/middleware/retry.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRetryBudget, parseRetryAfter, withRetry } from '../src/api/middleware/retry.js';
+import type { HttpResponse } from '../src/api/http-client.js';
+import type { AppConfig } from '../src/types.js';
+import { HttpError } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const config = {
+  maxRetries: 4,
+  retryBaseMs: 100,
+  retryMaxMs: 1000,
+} as unknown as AppConfig;
+
+const ok: HttpResponse = { status: 200, headers: new Headers(), body: {} };
+
+function httpError(status: number, headers: Record<string, string> = {}): HttpError {
+  return new HttpError(`HTTP ${status}`, status, 'GET', 'http://api.test', new Headers(headers), null);
+}
 
 describe('parseRetryAfter', () => {
   it('parses delta-seconds', () => {
@@ -31,3 +49,114 @@ describe('parseRetryAfter', () => {
     expect(parseRetryAfter(headers)).toBeNull();
   });
 });
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for Retry-After instead of backing off', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3' }))
+      .mockResolvedValueOnce(ok);
+
+    const result = withRetry(fn, { ...config, retryMaxMs: 5000 }, logger, 'test')();
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(fn).toHaveBeenCalledTimes(1); // Backoff alone would have retried after 100ms
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toBe(ok);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps Retry-After at retryMaxMs', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(503, { 'retry-after': '86400' }))
+      .mockResolvedValueOnce(ok);
+
+    const result = withRetry(fn, config, logger, 'test')();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe(ok);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs each retry decision with its reason', async () => {
+    vi.useFakeTimers();
+    const warn = vi.spyOn(logger, 'warn');
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(503, { 'retry-after': '1' }))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce(ok);
+
+    const result = withRetry(fn, config, logger, 'test')();
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(warn.mock.calls.map(([fields]) => (fields as { reason: string }).reason)).toEqual(['retry-after', 'server-error']);
+    warn.mockRestore();
+  });
+
+  it('does not retry client errors', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(400));
+
+    await expect(withRetry(fn, config, logger, 'test')()).rejects.toMatchObject({ status: 400 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying once the shared budget is spent', async () => {
+    vi.useFakeTimers();
+    const budget = createRetryBudget({ retryBudgetPercent: 0, retryBudgetMin: 1 });
+    const fn = vi.fn().mockRejectedValue(httpError(500));
+
+    const first = withRetry(fn, config, logger, 'a', budget)();
+    const second = withRetry(fn, config, logger, 'b', budget)();
+    const settled = Promise.allSettled([first, second]);
+    await vi.runAllTimersAsync();
+    await settled;
+
+    // One retry between both callers, instead of three each
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(budget.getState()).toMatchObject({ requests: 2, retries: 1, rejected: 2 });
+  });
+
+  it('keeps the budget for server errors through a run of 429s', async () => {
+    vi.useFakeTimers();
+    const budget = createRetryBudget({ retryBudgetPercent: 0, retryBudgetMin: 1 });
+    const limited = vi.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }))
+      .mockResolvedValueOnce(ok);
+    const failing = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce(ok);
+
+    const first = withRetry(limited, config, logger, 'a', budget)();
+    await vi.runAllTimersAsync();
+    await expect(first).resolves.toBe(ok);
+    const second = withRetry(failing, config, logger, 'b', budget)();
+    await vi.runAllTimersAsync();
+
+    await expect(second).resolves.toBe(ok);
+    expect(budget.getState()).toMatchObject({ retries: 1, rejected: 0 });
+  });
+
+  it('refills the budget as the window slides', () => {
+    vi.useFakeTimers();
+    const budget = createRetryBudget({ retryBudgetPercent: 50, retryBudgetMin: 0 });
+    for (let i = 0; i < 4; i++) budget.recordRequest();
+
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(false);
+
+    vi.advanceTimersByTime(10_000);
+    for (let i = 0; i < 2; i++) budget.recordRequest();
+    expect(budget.tryRetry()).toBe(true);
+  });
+});
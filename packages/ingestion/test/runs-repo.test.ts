@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { startIngestionRun, finishIngestionRun, listIngestionRuns } from '../src/db/runs-repo.js';
+import type { Pool } from '../src/db/pool.js';
+
+function createMockPool(rows: unknown[] = []): Pool {
+  return {
+    query: vi.fn().mockResolvedValue({ rows, rowCount: rows.length }),
+  } as unknown as Pool;
+}
+
+describe('startIngestionRun', () => {
+  it('inserts a run with its config snapshot and returns the id', async () => {
+    const pool = createMockPool([{ run_id: '42' }]);
+
+    const runId = await startIngestionRun(pool, {
+      jobId: 'default',
+      mode: 'ingest',
+      config: { partitionCount: 8 },
+    });
+
+    expect(runId).toBe(42);
+    const [sql, params] = (pool.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('INSERT INTO ingestion_runs');
+    expect(params).toEqual(['default', 'ingest', '{"partitionCount":8}']);
+  });
+});
+
+describe('finishIngestionRun', () => {
+  it('updates totals, failures and worker results', async () => {
+    const pool = createMockPool();
+
+    await finishIngestionRun(pool, 7, {
+      status: 'failed',
+      durationMs: 1500,
+      totalFetched: 10,
+      totalInserted: 9,
+      failureReasons: ['HTTP 500'],
+      workerResults: [{ workerId: 0, status: 'running', fetchedCount: 10, insertedCount: 9 }],
+    });
+
+    const [sql, params] = (pool.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('UPDATE ingestion_runs');
+    expect(params[0]).toBe(7);
+    expect(params[1]).toBe('failed');
+    expect(params[5]).toBe('["HTTP 500"]');
+  });
+
+  it('throws DbError on failure', async () => {
+    const pool = {
+      query: vi.fn().mockRejectedValue(new Error('connection lost')),
+    } as unknown as Pool;
+
+    await expect(finishIngestionRun(pool, 7, {
+      status: 'completed',
+      durationMs: 0,
+      totalFetched: 0,
+      totalInserted: 0,
+      failureReasons: [],
+      workerResults: [],
+    })).rejects.toThrow('Failed to record end of ingestion run 7');
+  });
+});
+
+describe('listIngestionRuns', () => {
+  it('maps rows and keeps unfinished runs nullable', async () => {
+    const startedAt = new Date('2026-01-10T00:00:00Z');
+    const pool = createMockPool([{
+      run_id: '3',
+      job_id: 'default',
+      mode: 'ingest',
+      status: 'running',
+      config: { partitionCount: 8 },
+      started_at: startedAt,
+      finished_at: null,
+      duration_ms: null,
+      total_fetched: null,
+      total_inserted: null,
+      failure_reasons: null,
+      worker_results: null,
+    }]);
+
+    const runs = await listIngestionRuns(pool, { jobId: 'default', limit: 5 });
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]!.runId).toBe(3);
+    expect(runs[0]!.startedAt).toBe(startedAt);
+    expect(runs[0]!.totalInserted).toBeNull();
+    const [, params] = (pool.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(params).toEqual(['default', 5]);
+  });
+});
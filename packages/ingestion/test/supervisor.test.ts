@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { superviseWorker, restartDelayMs } from '../src/core/supervisor.js';
+import type { SupervisorOptions } from '../src/core/supervisor.js';
+import { runWorker } from '../src/core/worker.js';
+import type { WorkerResult } from '../src/core/worker.js';
+import { createDbQueue } from '../src/core/db-queue.js';
+import type { Pool } from '../src/db/pool.js';
+import { WorkerFailedError } from '../src/types.js';
+import type { WorkerCheckpoint } from '../src/types.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+function checkpoint(overrides: Partial<WorkerCheckpoint> = {}): WorkerCheckpoint {
+  return {
+    workerId: 2,
+    chunkStartTs: 1000,
+    chunkEndTs: 2000,
+    cursor: null,
+    lastTs: null,
+    lastEventId: null,
+    fetchedCount: 0,
+    insertedCount: 0,
+    status: 'running',
+    splitFrom: null,
+    ...overrides,
+  };
+}
+
+function options(overrides: Partial<SupervisorOptions> = {}): SupervisorOptions {
+  return {
+    maxRestarts: 2,
+    restartBaseMs: 1,
+    restartMaxMs: 5,
+    logger,
+    shouldStop: () => false,
+    loadCheckpoint: vi.fn().mockResolvedValue(null),
+    markFailed: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+const completed: WorkerResult = { workerId: 2, fetchedCount: 10, insertedCount: 10, status: 'completed' };
+
+describe('superviseWorker', () => {
+  it('restarts from the reloaded checkpoint after a failure', async () => {
+    const resumed = checkpoint({ cursor: 'c5', lastTs: 1500, status: 'failed' });
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(completed);
+    const opts = options({ loadCheckpoint: vi.fn().mockResolvedValue(resumed) });
+
+    const result = await superviseWorker(checkpoint(), run, opts);
+
+    expect(result).toBe(completed);
+    expect(opts.markFailed).toHaveBeenCalledWith(2, 'socket hang up');
+    expect(run).toHaveBeenNthCalledWith(2, resumed);
+  });
+
+  it('gives up with WorkerFailedError once restarts are exhausted', async () => {
+    const run = vi.fn().mockRejectedValue(new Error('HTTP 500'));
+    const opts = options();
+
+    const err = await superviseWorker(checkpoint(), run, opts).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(WorkerFailedError);
+    expect((err as WorkerFailedError).attempts).toBe(3);
+    expect((err as WorkerFailedError).checkpoint.workerId).toBe(2);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(opts.markFailed).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not restart while the run is stopping', async () => {
+    const run = vi.fn().mockRejectedValue(new Error('HTTP 500'));
+    const opts = options({ shouldStop: () => true });
+
+    await expect(superviseWorker(checkpoint(), run, opts)).rejects.toBeInstanceOf(WorkerFailedError);
+    expect(run).toHaveBeenCalledOnce();
+  });
+
+  it('keeps restarting when the failure cannot be persisted', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('HTTP 500'))
+      .mockResolvedValueOnce(completed);
+    const opts = options({
+      markFailed: vi.fn().mockRejectedValue(new Error('db down')),
+      loadCheckpoint: vi.fn().mockRejectedValue(new Error('db down')),
+    });
+
+    await expect(superviseWorker(checkpoint(), run, opts)).resolves.toBe(completed);
+    expect(run).toHaveBeenNthCalledWith(2, checkpoint());
+  });
+
+  it('restarts a worker whose batch write failed in a real DbQueue', async () => {
+    let failInserts = 1;
+    const client = {
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO ingested_events') && failInserts-- > 0) throw new Error('connection reset');
+        return { rows: [], rowCount: 1 };
+      }),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+    const dbQueue = createDbQueue(pool, 1, 10, { jobId: 'default', eventsTable: 'ingested_events', leaseOwner: null });
+    const source = {
+      fetchPage: vi.fn().mockResolvedValue({
+        events: [{ id: 'e1', timestamp: 1768000000000 }],
+        hasMore: false,
+        nextCursor: null,
+        total: null,
+      }),
+    };
+    const opts = options();
+    const range = checkpoint({ chunkStartTs: 1767000000000, chunkEndTs: 1769000000000 });
+
+    const result = await superviseWorker(range, (cp) => runWorker(cp, {
+      source,
+      dbQueue,
+      logger,
+      batchSize: 10,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+    }), opts);
+
+    expect(result.status).toBe('completed');
+    expect(opts.markFailed).toHaveBeenCalledWith(2, expect.stringContaining('Failed to insert 1 events'));
+    expect(source.fetchPage).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('restartDelayMs', () => {
+  it('doubles per attempt up to the cap', () => {
+    expect(restartDelayMs(1, 1000, 30000)).toBe(1000);
+    expect(restartDelayMs(3, 1000, 30000)).toBe(4000);
+    expect(restartDelayMs(10, 1000, 30000)).toBe(30000);
+  });
+});
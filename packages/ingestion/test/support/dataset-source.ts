@@ -0,0 +1,40 @@
+import { vi } from 'vitest';
+import { decodeCursorTimestamp, forgeCursor } from '../../src/core/cursor-forge.js';
+import type { EventsSource, FetchPageParams } from '../../src/api/events-source.js';
+
+export interface DatasetOptions {
+  // Builds the API's nextCursor from the last event on a page
+  readonly nextCursor?: (lastTs: number) => string;
+  // Where a cursor really positions (defaults to its ts)
+  readonly position?: (cursor: string) => number;
+  // `meta.total` for a page read from `before` (defaults to none)
+  readonly total?: (before: number) => number | null;
+}
+
+/**
+ * An `EventsSource` over events at `timestamps`, served DESC. A cursor
+ * returns the events strictly older than where it positions, so forged
+ * cursors work as they do against the API.
+ */
+export function createDatasetSource(timestamps: readonly number[], options: DatasetOptions = {}): EventsSource {
+  const sorted = [...timestamps].sort((a, b) => b - a);
+  const nextCursor = options.nextCursor ?? forgeCursor;
+  const position = options.position ?? ((cursor: string) => decodeCursorTimestamp(cursor)!);
+  const total = options.total ?? (() => null);
+  return {
+    fetchPage: vi.fn().mockImplementation(async (params: FetchPageParams) => {
+      const before = params.cursor ? position(params.cursor) : Infinity;
+      const remaining = sorted.filter((ts) => ts < before);
+      const events = remaining
+        .slice(0, params.limit)
+        .map((ts) => ({ id: `e-${ts}`, timestamp: ts }));
+      const hasMore = remaining.length > events.length;
+      return {
+        events,
+        hasMore,
+        nextCursor: hasMore ? nextCursor(events[events.length - 1]!.timestamp) : null,
+        total: total(before),
+      };
+    }),
+  };
+}
@@ -0,0 +1,314 @@
+import type { Pool } from '../../src/db/pool.js';
+
+/**
+ * Just enough Postgres for a full ingest run: the statements the runs,
+ * layout, worker state, events and quarantine repositories issue, matched
+ * on their SQL text and applied to in-memory tables. Statements apply
+ * immediately; inside a client's transaction each one also records how to
+ * undo it, and ROLLBACK undoes that client's statements newest first.
+ * Transactions are not isolated from each other, and locks are no-ops.
+ * Checkpoint leases expire by `Date.now()`.
+ * Anything unrecognised throws so a changed query fails loudly instead of
+ * silently doing nothing.
+ */
+
+interface CheckpointRow {
+  job_id: string;
+  worker_id: number;
+  chunk_start_ts: string;
+  chunk_end_ts: string;
+  cursor: string | null;
+  last_ts: string | null;
+  last_event_id: string | null;
+  fetched_count: string;
+  inserted_count: string;
+  status: string;
+  split_from: number | null;
+  last_error: string | null;
+  lease_owner: string | null;
+  lease_expires_at: number | null; // Epoch ms
+}
+
+export interface MemoryDb {
+  readonly events: Map<string, { timestampMs: number; payload: unknown }>;
+  readonly checkpoints: CheckpointRow[];
+  readonly layouts: Map<string, Record<string, unknown>>;
+  readonly runs: Map<number, { jobId: string; mode: string; status: string | null }>;
+  readonly quarantined: unknown[];
+}
+
+interface Result {
+  rows: Record<string, unknown>[];
+  rowCount: number;
+}
+
+function result(rows: Record<string, unknown>[] = [], rowCount = rows.length): Result {
+  return { rows, rowCount };
+}
+
+// Registers how to undo a change if the transaction making it rolls back
+type OnRollback = (undo: () => void) => void;
+
+const autocommit: OnRollback = () => {};
+
+export function createMemoryPool(): { pool: Pool; db: MemoryDb } {
+  const db: MemoryDb = {
+    events: new Map(),
+    checkpoints: [],
+    layouts: new Map(),
+    runs: new Map(),
+    quarantined: [],
+  };
+
+  function checkpoint(jobId: unknown, workerId: unknown): CheckpointRow | undefined {
+    return db.checkpoints.find((row) => row.job_id === jobId && row.worker_id === Number(workerId));
+  }
+
+  function insertCheckpoint(
+    row: Partial<CheckpointRow> & Pick<CheckpointRow, 'job_id' | 'worker_id'>,
+    onRollback: OnRollback,
+  ): void {
+    const inserted: CheckpointRow = {
+      chunk_start_ts: '0',
+      chunk_end_ts: '0',
+      cursor: null,
+      last_ts: null,
+      last_event_id: null,
+      fetched_count: '0',
+      inserted_count: '0',
+      status: 'running',
+      split_from: null,
+      last_error: null,
+      lease_owner: null,
+      lease_expires_at: null,
+      ...row,
+    };
+    db.checkpoints.push(inserted);
+    onRollback(() => {
+      const index = db.checkpoints.indexOf(inserted);
+      if (index !== -1) db.checkpoints.splice(index, 1);
+    });
+  }
+
+  function leaseLive(row: CheckpointRow): boolean {
+    return row.lease_owner !== null && row.lease_expires_at! >= Date.now();
+  }
+
+  // A fenced write applies when no owner is given or `owner` holds the row
+  function fenced(row: CheckpointRow | undefined, owner: unknown): row is CheckpointRow {
+    return row !== undefined && (owner === null || row.lease_owner === owner);
+  }
+
+  // Keep a copy of `row` to put back on rollback before changing it
+  function updateCheckpoint(row: CheckpointRow, onRollback: OnRollback): CheckpointRow {
+    const before = { ...row };
+    onRollback(() => Object.assign(row, before));
+    return row;
+  }
+
+  async function query(sql: string, params: unknown[] = [], onRollback = autocommit): Promise<Result> {
+    const text = sql.trim();
+    if (text.includes('pg_advisory')) return result();
+
+    // Run history
+    if (text.startsWith('INSERT INTO ingestion_runs')) {
+      const runId = db.runs.size + 1;
+      db.runs.set(runId, { jobId: params[0] as string, mode: params[1] as string, status: null });
+      onRollback(() => db.runs.delete(runId));
+      return result([{ run_id: String(runId) }]);
+    }
+    if (text.startsWith('UPDATE ingestion_runs')) {
+      const run = db.runs.get(Number(params[0]));
+      if (run) {
+        const status = run.status;
+        onRollback(() => { run.status = status; });
+        run.status = params[1] as string;
+      }
+      return result([], run ? 1 : 0);
+    }
+
+    // Partition layout
+    if (text.includes('FROM partition_layout')) {
+      const layout = db.layouts.get(params[0] as string);
+      return result(layout ? [layout] : []);
+    }
+    if (text.startsWith('INSERT INTO partition_layout')) {
+      const jobId = params[0] as string;
+      const before = db.layouts.get(jobId);
+      onRollback(() => (before ? db.layouts.set(jobId, before) : db.layouts.delete(jobId)));
+      db.layouts.set(jobId, {
+        strategy: params[1],
+        range_start_ts: params[2],
+        range_end_ts: params[3],
+        partition_count: params[4],
+        chunks: JSON.parse(params[5] as string),
+        samples: JSON.parse(params[6] as string),
+      });
+      return result([], 1);
+    }
+
+    // Checkpoint leases
+    if (text.includes('FOR UPDATE SKIP LOCKED')) {
+      const [jobId, owner, ttlMs, excluded] = params as [string, string, number, number[]];
+      const found = db.checkpoints
+        .filter((row) => row.job_id === jobId && row.status !== 'completed')
+        .filter((row) => !leaseLive(row) && !excluded.includes(row.worker_id))
+        .sort((a, b) => a.worker_id - b.worker_id)[0];
+      if (!found) return result();
+      const row = updateCheckpoint(found, onRollback);
+      row.lease_owner = owner;
+      row.lease_expires_at = Date.now() + ttlMs;
+      return result([{ ...row }]);
+    }
+    if (text.includes('SET lease_expires_at = NOW()')) {
+      const [jobId, owner, ttlMs, workerIds] = params as [string, string, number, number[]];
+      const renewed = db.checkpoints.filter((row) => (
+        row.job_id === jobId && row.lease_owner === owner && workerIds.includes(row.worker_id)
+      ));
+      for (const row of renewed) updateCheckpoint(row, onRollback).lease_expires_at = Date.now() + ttlMs;
+      return result(renewed.map((row) => ({ worker_id: row.worker_id })));
+    }
+    if (text.includes('SET lease_owner = NULL')) {
+      const row = checkpoint(params[0], params[1]);
+      if (!fenced(row, params[2])) return result([], 0);
+      const released = updateCheckpoint(row, onRollback);
+      released.lease_owner = null;
+      released.lease_expires_at = null;
+      return result([], 1);
+    }
+    if (text.startsWith('SELECT COUNT(*) AS count FROM worker_checkpoints')) {
+      const count = db.checkpoints.filter((row) => (
+        row.job_id === params[0] && row.status !== 'completed' && leaseLive(row) && row.lease_owner !== params[1]
+      )).length;
+      return result([{ count: String(count) }]);
+    }
+
+    // Worker checkpoints
+    if (text.includes('FROM worker_checkpoints') && text.includes('ORDER BY worker_id')) {
+      return result(db.checkpoints
+        .filter((row) => row.job_id === params[0])
+        .sort((a, b) => a.worker_id - b.worker_id)
+        .map((row) => ({ ...row })));
+    }
+    if (text.startsWith('SELECT worker_id') && text.includes('FROM worker_checkpoints')) {
+      const row = checkpoint(params[0], params[1]);
+      return result(row ? [{ ...row }] : []);
+    }
+    if (text.includes('FROM unnest') && text.includes('INTO worker_checkpoints')) {
+      const [jobId, workerIds, starts, ends] = params as [string, number[], string[], string[]];
+      workerIds.forEach((workerId, i) => {
+        if (checkpoint(jobId, workerId)) return;
+        insertCheckpoint(
+          { job_id: jobId, worker_id: workerId, chunk_start_ts: starts[i]!, chunk_end_ts: ends[i]! },
+          onRollback,
+        );
+      });
+      return result([], workerIds.length);
+    }
+    if (text.startsWith('DELETE FROM worker_checkpoints')) {
+      const before = [...db.checkpoints];
+      onRollback(() => db.checkpoints.splice(0, db.checkpoints.length, ...before));
+      db.checkpoints.splice(0, before.length, ...before.filter((row) => row.job_id !== params[0]));
+      return result([], before.length - db.checkpoints.length);
+    }
+    if (text.startsWith('SELECT chunk_start_ts FROM worker_checkpoints')) {
+      const row = checkpoint(params[0], params[1]);
+      const held = row !== undefined && (params[2] === null || (row.lease_owner === params[2] && leaseLive(row)));
+      return result(held ? [{ chunk_start_ts: row.chunk_start_ts }] : []);
+    }
+    if (text.includes('COALESCE(MAX(worker_id), -1) + 1')) {
+      const ids = db.checkpoints.filter((row) => row.job_id === params[0]).map((row) => row.worker_id);
+      return result([{ worker_id: Math.max(-1, ...ids) + 1 }]);
+    }
+    if (text.includes('SET chunk_start_ts = $3')) {
+      const row = checkpoint(params[0], params[1]);
+      if (!fenced(row, params[3])) return result([], 0);
+      updateCheckpoint(row, onRollback).chunk_start_ts = params[2] as string;
+      return result([], 1);
+    }
+    if (text.startsWith('INSERT INTO worker_checkpoints') && text.includes('split_from')) {
+      insertCheckpoint({
+        job_id: params[0] as string,
+        worker_id: params[1] as number,
+        chunk_start_ts: params[2] as string,
+        chunk_end_ts: params[3] as string,
+        split_from: params[4] as number,
+        lease_owner: params[5] as string | null,
+        lease_expires_at: params[5] === null ? null : Date.now() + (params[6] as number),
+      }, onRollback);
+      return result([], 1);
+    }
+    if (text.includes('SET cursor = $3')) {
+      const found = checkpoint(params[0], params[1]);
+      if (!fenced(found, params[8])) return result([], 0);
+      const row = updateCheckpoint(found, onRollback);
+      row.cursor = params[2] as string | null;
+      row.last_ts = params[3] as string | null;
+      row.last_event_id = params[4] as string | null;
+      row.fetched_count = params[5] as string;
+      row.inserted_count = params[6] as string;
+      row.status = params[7] as string;
+      return result([], 1);
+    }
+    if (text.includes("SET status = 'failed'")) {
+      const found = checkpoint(params[0], params[1]);
+      if (!fenced(found, params[3])) return result([], 0);
+      const row = updateCheckpoint(found, onRollback);
+      row.status = 'failed';
+      row.last_error = params[2] as string;
+      return result([], 1);
+    }
+
+    // Events and quarantine
+    if (text.includes('(event_id, timestamp_ms, payload)')) {
+      const [ids, timestamps, payloads] = params as [string[], string[], string[]];
+      let inserted = 0;
+      ids.forEach((id, i) => {
+        if (db.events.has(id)) return;
+        db.events.set(id, { timestampMs: Number(timestamps[i]), payload: JSON.parse(payloads[i]!) });
+        onRollback(() => db.events.delete(id));
+        inserted++;
+      });
+      return result([], inserted);
+    }
+    if (text.startsWith('INSERT INTO quarantined_events')) {
+      const raws = params[1] as string[];
+      const count = db.quarantined.length;
+      onRollback(() => db.quarantined.splice(count, raws.length));
+      db.quarantined.push(...raws.map((raw) => JSON.parse(raw) as unknown));
+      return result([], raws.length);
+    }
+
+    throw new Error(`Unexpected query: ${text.slice(0, 80)}`);
+  }
+
+  // Each client runs its own transaction
+  function connect() {
+    let undoLog: (() => void)[] | null = null;
+    const onRollback: OnRollback = (undo) => {
+      undoLog?.push(undo);
+    };
+    return {
+      query: async (sql: string, params?: unknown[]): Promise<Result> => {
+        switch (sql.trim()) {
+          case 'BEGIN':
+            undoLog = [];
+            return result();
+          case 'COMMIT':
+            undoLog = null;
+            return result();
+          case 'ROLLBACK':
+            for (const undo of (undoLog ?? []).reverse()) undo();
+            undoLog = null;
+            return result();
+          default:
+            return query(sql, params, onRollback);
+        }
+      },
+      release: () => {},
+    };
+  }
+
+  const pool = { query: (sql: string, params?: unknown[]) => query(sql, params), connect: async () => connect() };
+  return { pool: pool as unknown as Pool, db };
+}
@@ -0,0 +1,394 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * A local stand-in for the DataSync API, for tests and offline runs.
+ *
+ * Serves a deterministic dataset from the documented `/api/v1/events`
+ * endpoint and the dashboard stream feed, paging DESC by `(ts, id)` with
+ * base64url JSON cursors. Any cursor is resolved by its `ts` and `id`, so
+ * forged cursors work like issued ones. Issued cursors and stream tokens
+ * expire on the server's clock, which tests can move forward. Data
+ * requests share a fixed-window rate limit advertised in `X-RateLimit-*`
+ * headers, and 5xx faults can be queued or drawn at random.
+ */
+
+export const FEED_PATH = '/api/v1/events/d4ta/x7k9/feed';
+const STREAM_ACCESS_PATH = '/internal/dashboard/stream-access';
+const EVENTS_PATH = '/api/v1/events';
+const TOKEN_HEADER = 'X-Stream-Token';
+const EVENT_TYPES = ['page_view', 'click', 'purchase', 'signup'] as const;
+
+export interface MockApiOptions {
+  readonly port?: number; // 0 picks a free port
+  readonly apiKey?: string;
+  readonly eventCount?: number;
+  readonly startTs?: number; // Oldest possible event timestamp
+  readonly endTs?: number; // Exclusive
+  readonly seed?: number;
+  readonly maxLimit?: number;
+  readonly cursorTtlMs?: number;
+  readonly cursorVersion?: number; // Forged cursors carry 2; others are rejected
+  readonly tokenTtlS?: number;
+  readonly rateLimit?: { readonly limit: number; readonly windowMs: number } | null;
+  readonly faultRate?: number; // Share of requests answered with a random 5xx
+}
+
+export interface MockEvent {
+  readonly ts: number;
+  readonly id: string;
+  readonly body: Record<string, unknown>; // As served
+}
+
+export interface MockApiStats {
+  requests: number;
+  pages: number;
+  tokensIssued: number;
+  faults: number;
+  rateLimited: number;
+  expiredCursors: number;
+  expiredTokens: number;
+  forgedCursors: number; // Valid cursors this server never issued
+}
+
+export interface MockApi {
+  readonly url: string; // Origin, e.g. http://127.0.0.1:41234
+  readonly apiKey: string;
+  readonly events: readonly MockEvent[]; // Newest first
+  readonly stats: Readonly<MockApiStats>;
+  // Answer the next requests with these statuses, one each
+  readonly injectFaults: (...statuses: number[]) => void;
+  // Move the server clock forward, expiring cursors and tokens
+  readonly advanceClock: (ms: number) => void;
+  // Spend the rest of the current rate limit window (starting one if needed)
+  readonly exhaustRateLimit: () => void;
+  readonly close: () => Promise<void>;
+}
+
+class RequestError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// ── Dataset ──
+
+// mulberry32: small, fast and the same on every platform
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomUuid(random: () => number): string {
+  let hex = '';
+  for (let i = 0; i < 32; i++) hex += Math.floor(random() * 16).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * The same `seed` always gives the same events. Every tenth event shares
+ * its predecessor's timestamp, so pages split ties and only the `id` in a
+ * cursor tells them apart; every seventh carries an ISO timestamp.
+ */
+export function generateEvents(count: number, startTs: number, endTs: number, seed: number): MockEvent[] {
+  const random = createRandom(seed);
+  const events: MockEvent[] = [];
+  for (let i = 0; i < count; i++) {
+    const ts = i % 10 === 9 ? events[i - 1]!.ts : startTs + Math.floor(random() * (endTs - startTs));
+    const id = randomUuid(random);
+    events.push({
+      ts,
+      id,
+      body: {
+        id,
+        timestamp: i % 7 === 6 ? new Date(ts).toISOString() : ts,
+        type: EVENT_TYPES[Math.floor(random() * EVENT_TYPES.length)],
+        userId: `user-${Math.floor(random() * 1000)}`,
+        properties: { path: `/products/${Math.floor(random() * 250)}`, value: Math.floor(random() * 10000) / 100 },
+      },
+    });
+  }
+  return events.sort((a, b) => comparePositions(b, a));
+}
+
+// Ascending (ts, id), the reverse of the paging order
+function comparePositions(a: { ts: number; id: string }, b: { ts: number; id: string }): number {
+  if (a.ts !== b.ts) return a.ts - b.ts;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? -1 : 1;
+}
+
+// Index of the first event strictly older than `position`
+function indexAfter(events: readonly MockEvent[], position: { ts: number; id: string }): number {
+  let lo = 0;
+  let hi = events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (comparePositions(events[mid]!, position) < 0) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+// ── Cursors ──
+
+interface Cursor {
+  readonly id: string;
+  readonly ts: number;
+  readonly v: number;
+  readonly exp: number;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+function decodeCursor(raw: string, version: number): Cursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+  } catch {
+    throw new RequestError(400, 'Invalid cursor');
+  }
+  const cursor = parsed as Partial<Cursor> | null;
+  if (
+    cursor === null || typeof cursor !== 'object' ||
+    typeof cursor.id !== 'string' || typeof cursor.ts !== 'number' ||
+    typeof cursor.exp !== 'number' || cursor.v !== version
+  ) {
+    throw new RequestError(400, 'Invalid cursor');
+  }
+  return cursor as Cursor;
+}
+
+// ── Server ──
+
+/**
+ * Start the mock API on `127.0.0.1`. Routes:
+ *
+ * - `POST /internal/dashboard/stream-access` issues a stream token valid
+ *   for `tokenTtlS` seconds.
+ * - `GET /api/v1/events` needs `X-API-Key`.
+ * - `GET /api/v1/events/d4ta/x7k9/feed` also needs a live stream token;
+ *   an expired or unknown token is a 403.
+ *
+ * Both GET routes take `limit`, `cursor`, and `since`/`until` bounds on the
+ * event timestamp, and answer `{ data, pagination, meta }`. A malformed or
+ * expired cursor is a 400, a spent rate limit window a 429 with
+ * `Retry-After`.
+ */
+export async function startMockApi(options: MockApiOptions = {}): Promise<MockApi> {
+  const apiKey = options.apiKey ?? 'mock-key';
+  const maxLimit = options.maxLimit ?? 5000;
+  const cursorTtlMs = options.cursorTtlMs ?? 5 * 60_000;
+  const cursorVersion = options.cursorVersion ?? 2;
+  const tokenTtlS = options.tokenTtlS ?? 300;
+  const rateLimit = options.rateLimit === undefined ? { limit: 600, windowMs: 60_000 } : options.rateLimit;
+  const faultRate = options.faultRate ?? 0;
+  const seed = options.seed ?? 1;
+  const endTs = options.endTs ?? 1769900000000;
+  const startTs = options.startTs ?? endTs - 30 * 24 * 60 * 60 * 1000;
+  const events = generateEvents(options.eventCount ?? 10_000, startTs, endTs, seed);
+
+  const faultRandom = createRandom(seed + 1);
+  const faults: number[] = [];
+  const tokens = new Map<string, number>(); // Token -> expires at (server clock)
+  const issuedCursors = new Set<string>();
+  const stats: MockApiStats = {
+    requests: 0,
+    pages: 0,
+    tokensIssued: 0,
+    faults: 0,
+    rateLimited: 0,
+    expiredCursors: 0,
+    expiredTokens: 0,
+    forgedCursors: 0,
+  };
+  let clockOffsetMs = 0;
+  let windowStartMs = 0;
+  let windowCount = 0;
+
+  function now(): number {
+    return Date.now() + clockOffsetMs;
+  }
+
+  function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  // Fixed window shared by every data request; returns the headers to send
+  function takeRateLimit(): Record<string, string> {
+    if (rateLimit === null) return {};
+    const at = now();
+    if (at - windowStartMs >= rateLimit.windowMs) {
+      windowStartMs = at;
+      windowCount = 0;
+    }
+    const resetS = Math.max(1, Math.ceil((windowStartMs + rateLimit.windowMs - at) / 1000));
+    const headers = {
+      'X-RateLimit-Limit': String(rateLimit.limit),
+      'X-RateLimit-Remaining': String(Math.max(0, rateLimit.limit - windowCount - 1)),
+      'X-RateLimit-Reset': String(resetS),
+    };
+    if (windowCount >= rateLimit.limit) {
+      stats.rateLimited++;
+      throw new RequestError(429, 'Rate limit exceeded', { ...headers, 'Retry-After': String(resetS) });
+    }
+    windowCount++;
+    return headers;
+  }
+
+  function nextFault(): number | null {
+    const queued = faults.shift();
+    if (queued !== undefined) return queued;
+    if (faultRate > 0 && faultRandom() < faultRate) return [500, 502, 503][Math.floor(faultRandom() * 3)]!;
+    return null;
+  }
+
+  function checkApiKey(req: IncomingMessage): void {
+    if (req.headers['x-api-key'] !== apiKey) throw new RequestError(401, 'Invalid API key');
+  }
+
+  function checkStreamToken(req: IncomingMessage): void {
+    const token = req.headers[TOKEN_HEADER.toLowerCase()];
+    const expiresAt = typeof token === 'string' ? tokens.get(token) : undefined;
+    if (expiresAt === undefined) throw new RequestError(403, 'Invalid stream token');
+    if (expiresAt <= now()) {
+      tokens.delete(token as string);
+      stats.expiredTokens++;
+      throw new RequestError(403, 'Stream token expired');
+    }
+  }
+
+  function issueStreamAccess(): unknown {
+    const token = randomUUID();
+    tokens.set(token, now() + tokenTtlS * 1000);
+    stats.tokensIssued++;
+    return {
+      streamAccess: { endpoint: FEED_PATH, tokenHeader: TOKEN_HEADER, token, expiresIn: tokenTtlS },
+    };
+  }
+
+  function intParam(params: URLSearchParams, name: string): number | null {
+    const raw = params.get(name);
+    if (raw === null) return null;
+    const value = Number(raw);
+    if (!Number.isInteger(value)) throw new RequestError(400, `Invalid ${name}`);
+    return value;
+  }
+
+  function page(params: URLSearchParams): unknown {
+    const limit = intParam(params, 'limit') ?? 100;
+    if (limit < 1 || limit > maxLimit) throw new RequestError(400, `limit must be between 1 and ${maxLimit}`);
+    const since = intParam(params, 'since');
+    const until = intParam(params, 'until');
+
+    let start = 0;
+    const rawCursor = params.get('cursor');
+    if (rawCursor !== null && rawCursor !== '') {
+      const cursor = decodeCursor(rawCursor, cursorVersion);
+      if (cursor.exp <= now()) {
+        stats.expiredCursors++;
+        throw new RequestError(400, 'Cursor expired');
+      }
+      if (!issuedCursors.has(rawCursor)) stats.forgedCursors++;
+      start = indexAfter(events, cursor);
+    }
+    if (until !== null) start = Math.max(start, indexAfter(events, { ts: until, id: '' }));
+
+    const data: MockEvent[] = [];
+    let i = start;
+    for (; i < events.length && data.length < limit; i++) {
+      if (since !== null && events[i]!.ts < since) break;
+      data.push(events[i]!);
+    }
+    const hasMore = i < events.length && (since === null || events[i]!.ts >= since);
+
+    let nextCursor: string | null = null;
+    if (hasMore) {
+      const last = data[data.length - 1]!;
+      nextCursor = encodeCursor({ id: last.id, ts: last.ts, v: cursorVersion, exp: now() + cursorTtlMs });
+      issuedCursors.add(nextCursor);
+    }
+    stats.pages++;
+    return {
+      data: data.map((event) => event.body),
+      pagination: { hasMore, nextCursor },
+      meta: { total: events.length },
+    };
+  }
+
+  function handle(req: IncomingMessage, res: ServerResponse): void {
+    stats.requests++;
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      const fault = nextFault();
+      if (fault !== null) {
+        stats.faults++;
+        throw new RequestError(fault, 'Injected fault');
+      }
+
+      if (req.method === 'POST' && url.pathname === STREAM_ACCESS_PATH) {
+        checkApiKey(req);
+        send(res, 200, issueStreamAccess());
+        return;
+      }
+      if (req.method === 'GET' && (url.pathname === EVENTS_PATH || url.pathname === FEED_PATH)) {
+        checkApiKey(req);
+        if (url.pathname === FEED_PATH) checkStreamToken(req);
+        const headers = takeRateLimit();
+        send(res, 200, page(url.searchParams), headers);
+        return;
+      }
+      throw new RequestError(404, `No route for ${req.method} ${url.pathname}`);
+    } catch (err) {
+      if (!(err instanceof RequestError)) throw err;
+      send(res, err.status, { error: err.message }, err.headers);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    // Drain the body (stream-access posts `{}`) before answering
+    req.resume();
+    req.on('end', () => handle(req, res));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    apiKey,
+    events,
+    stats,
+    injectFaults: (...statuses) => {
+      faults.push(...statuses);
+    },
+    advanceClock: (ms) => {
+      clockOffsetMs += ms;
+    },
+    exhaustRateLimit: () => {
+      if (rateLimit === null) return;
+      if (now() - windowStartMs >= rateLimit.windowMs) windowStartMs = now();
+      windowCount = rateLimit.limit;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      // Keep-alive sockets would hold close() open
+      server.closeAllConnections();
+      server.close((err) => (err ? reject(err) : resolve()));
+    }),
+  };
+}
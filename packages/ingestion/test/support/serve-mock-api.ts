@@ -0,0 +1,25 @@
+import { startMockApi } from './mock-api.js';
+
+// `npm run mock-api`: serve the mock API for local runs against API_BASE_URL
+
+function intEnv(key: string, fallback: number): number {
+  const raw = process.env[key];
+  return raw ? parseInt(raw, 10) : fallback;
+}
+
+const api = await startMockApi({
+  port: intEnv('MOCK_API_PORT', 4010),
+  apiKey: process.env['MOCK_API_KEY'] || 'mock-key',
+  eventCount: intEnv('MOCK_API_EVENTS', 100_000),
+  seed: intEnv('MOCK_API_SEED', 1),
+  faultRate: Number(process.env['MOCK_API_FAULT_RATE'] ?? 0),
+});
+
+console.log(`Mock DataSync API on ${api.url} (TARGET_API_KEY=${api.apiKey}, ${api.events.length} events)`);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    console.log(JSON.stringify(api.stats));
+    void api.close().then(() => process.exit(0));
+  });
+}
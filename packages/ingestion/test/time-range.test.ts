@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { discoverTimeRange } from '../src/core/time-range.js';
+import { createDatasetSource } from './support/dataset-source.js';
+import pino from 'pino';
+
+const logger = pino({ level: 'silent' });
+
+const HOUR = 60 * 60 * 1000;
+
+describe('discoverTimeRange', () => {
+  const min = 1766700000000;
+  const max = 1769900000000;
+
+  it('returns the configured range without probing when off', async () => {
+    const source = createDatasetSource([min + 1]);
+    const range = await discoverTimeRange(source, min, max, logger, 'off');
+    expect(range).toEqual({ startTs: min, endTs: max });
+    expect(source.fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('tightens the range to the data within configured bounds', async () => {
+    const oldest = min + 100 * HOUR + 12345;
+    const newest = max - 50 * HOUR;
+    const source = createDatasetSource([oldest, oldest + HOUR, newest]);
+
+    const range = await discoverTimeRange(source, min, max, logger);
+
+    expect(range.endTs).toBe(newest);
+    expect(range.startTs).toBeLessThanOrEqual(oldest);
+    expect(oldest - range.startTs).toBeLessThanOrEqual(HOUR);
+    expect((source.fetchPage as ReturnType<typeof vi.fn>).mock.calls.length).toBeLessThan(20);
+  });
+
+  it('widens the range to cover events outside the configured bounds', async () => {
+    const oldest = min - 30 * 24 * HOUR;
+    const newest = max + 5 * HOUR;
+    const source = createDatasetSource([oldest, min + HOUR, newest]);
+
+    const range = await discoverTimeRange(source, min, max, logger, 'warn');
+
+    expect(range.endTs).toBe(newest);
+    expect(range.startTs).toBeLessThanOrEqual(oldest);
+  });
+
+  it('throws when data lies outside the bounds in fail mode', async () => {
+    const source = createDatasetSource([min - HOUR, min + HOUR]);
+    await expect(discoverTimeRange(source, min, max, logger, 'fail'))
+      .rejects.toThrow('outside MIN_TIMESTAMP_MS');
+  });
+
+  it('falls back to the configured range when the API has no events', async () => {
+    const source = createDatasetSource([]);
+    const range = await discoverTimeRange(source, min, max, logger);
+    expect(range).toEqual({ startTs: min, endTs: max });
+  });
+});
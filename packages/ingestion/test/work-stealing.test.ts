@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createPartitionTracker } from '../src/core/work-stealing.js';
+import type { WorkerCheckpoint } from '../src/types.js';
+
+function checkpoint(workerId: number, chunkStartTs: number, chunkEndTs: number): WorkerCheckpoint {
+  return {
+    workerId,
+    chunkStartTs,
+    chunkEndTs,
+    cursor: null,
+    lastTs: null,
+    lastEventId: null,
+    fetchedCount: 0,
+    insertedCount: 0,
+    status: 'running',
+    splitFrom: null,
+  };
+}
+
+describe('createPartitionTracker', () => {
+  it('splits the partition with the largest remaining range', () => {
+    const tracker = createPartitionTracker(10);
+    tracker.register(checkpoint(0, 0, 1000));
+    tracker.register(checkpoint(1, 1000, 2000));
+    tracker.reportLastTs(0, 900); // 900ms left
+    tracker.reportLastTs(1, 1200); // 200ms left
+
+    const plan = tracker.planSplit();
+    expect(plan).toEqual({ victimWorkerId: 0, chunkStartTs: 0, splitTs: 450 });
+  });
+
+  it('moves the victim lower bound up on commit', () => {
+    const tracker = createPartitionTracker(10);
+    tracker.register(checkpoint(0, 0, 1000));
+
+    const plan = tracker.planSplit()!;
+    tracker.commitSplit(plan, 5);
+
+    expect(tracker.getStartTs(0)).toBe(500);
+    expect(tracker.getStartTs(5)).toBe(0);
+  });
+
+  it('never plans two splits of the same victim concurrently', () => {
+    const tracker = createPartitionTracker(10);
+    tracker.register(checkpoint(0, 0, 1000));
+
+    expect(tracker.planSplit()).not.toBeNull();
+    expect(tracker.planSplit()).toBeNull();
+  });
+
+  it('releases the victim when a split is aborted', () => {
+    const tracker = createPartitionTracker(10);
+    tracker.register(checkpoint(0, 0, 1000));
+
+    const plan = tracker.planSplit()!;
+    tracker.abortSplit(plan);
+
+    expect(tracker.getStartTs(0)).toBe(0);
+    expect(tracker.planSplit()).not.toBeNull();
+  });
+
+  it('skips finished partitions and ranges below the minimum', () => {
+    const tracker = createPartitionTracker(100);
+    tracker.register(checkpoint(0, 0, 1000));
+    tracker.register(checkpoint(1, 1000, 2000));
+    tracker.markFinished(0);
+    tracker.reportLastTs(1, 1150); // 150ms left < 2 * 100ms
+
+    expect(tracker.planSplit()).toBeNull();
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect, vi } from 'vitest';
-import { upsertWorkerCheckpoint } from '../src/db/worker-state-repo.js';
-import type { PoolClient } from '../src/db/pool.js';
+import {
+  upsertWorkerCheckpoint,
+  splitWorkerCheckpoint,
+  markWorkerFailed,
+  claimWorkerCheckpoint,
+  renewLeases,
+} from '../src/db/worker-state-repo.js';
+import { LeaseLostError } from '../src/types.js';
+import type { Pool, PoolClient } from '../src/db/pool.js';
 
 function createMockClient(): PoolClient {
   return {
@@ -16,18 +23,21 @@ describe('upsertWorkerCheckpoint', () => {
       workerId: 3,
       cursor: 'cursor-abc',
       lastTs: 1768000000000,
+      lastEventId: 'evt-9',
       fetchedCount: 5000,
       insertedCount: 4999,
       status: 'running',
-    });
+    }, 'job-a');
 
     expect(client.query).toHaveBeenCalledOnce();
     const [sql, params] = (client.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
     expect(sql).toContain('UPDATE worker_checkpoints');
-    expect(params[0]).toBe(3); // workerId
-    expect(params[1]).toBe('cursor-abc'); // cursor
-    expect(params[2]).toBe('1768000000000'); // lastTs
-    expect(params[5]).toBe('running'); // status
+    expect(params[0]).toBe('job-a'); // jobId
+    expect(params[1]).toBe(3); // workerId
+    expect(params[2]).toBe('cursor-abc'); // cursor
+    expect(params[3]).toBe('1768000000000'); // lastTs
+    expect(params[4]).toBe('evt-9'); // lastEventId
+    expect(params[7]).toBe('running'); // status
   });
 
   it('handles null cursor and lastTs', async () => {
@@ -37,14 +47,15 @@ describe('upsertWorkerCheckpoint', () => {
       workerId: 0,
       cursor: null,
       lastTs: null,
+      lastEventId: null,
       fetchedCount: 0,
       insertedCount: 0,
       status: 'running',
-    });
+    }, 'default');
 
     const [, params] = (client.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
-    expect(params[1]).toBeNull(); // cursor
-    expect(params[2]).toBeNull(); // lastTs
+    expect(params[2]).toBeNull(); // cursor
+    expect(params[3]).toBeNull(); // lastTs
   });
 
   it('throws DbError on failure', async () => {
@@ -56,9 +67,213 @@ describe('upsertWorkerCheckpoint', () => {
       workerId: 0,
       cursor: null,
       lastTs: null,
+      lastEventId: null,
       fetchedCount: 0,
       insertedCount: 0,
       status: 'running',
-    })).rejects.toThrow('Failed to upsert');
+    }, 'default')).rejects.toThrow('Failed to upsert');
+  });
+});
+
+describe('upsertWorkerCheckpoint with a lease', () => {
+  const checkpoint = {
+    workerId: 3,
+    cursor: 'c',
+    lastTs: 1768000000000,
+    lastEventId: null,
+    fetchedCount: 10,
+    insertedCount: 10,
+    status: 'running',
+  } as const;
+
+  it('only updates rows held by the lease owner', async () => {
+    const client = createMockClient();
+
+    await upsertWorkerCheckpoint(client, checkpoint, 'job-a', 'host-1');
+
+    const [sql, params] = (client.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('lease_owner = $9');
+    expect(params[8]).toBe('host-1');
+  });
+
+  it('throws LeaseLostError when another process owns the row', async () => {
+    const client = {
+      query: vi.fn().mockResolvedValue({ rowCount: 0 }),
+    } as unknown as PoolClient;
+
+    await expect(upsertWorkerCheckpoint(client, checkpoint, 'job-a', 'host-1'))
+      .rejects.toBeInstanceOf(LeaseLostError);
+  });
+});
+
+describe('splitWorkerCheckpoint', () => {
+  function createSplitClient() {
+    return {
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.includes('MAX(worker_id)')) return { rows: [{ worker_id: 8 }] };
+        if (sql.startsWith('SELECT chunk_start_ts')) return { rows: [{ chunk_start_ts: '1000' }] };
+        return { rows: [], rowCount: 1 };
+      }),
+      release: vi.fn(),
+    };
+  }
+
+  it('moves the victim boundary and inserts the stolen chunk in one transaction', async () => {
+    const client = createSplitClient();
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+
+    const newWorkerId = await splitWorkerCheckpoint(pool, 2, 1500, 'job-a');
+
+    expect(newWorkerId).toBe(8);
+    const calls = client.query.mock.calls as Array<[string, unknown[]?]>;
+    expect(calls[0]![0]).toBe('BEGIN');
+    expect(calls[1]![0]).toContain('pg_advisory_xact_lock');
+    expect(calls[1]![1]).toEqual(['ingest:job-a']);
+    expect(calls[4]![0]).toContain('UPDATE worker_checkpoints');
+    expect(calls[4]![1]).toEqual(['job-a', 2, '1500', null]);
+    expect(calls[5]![0]).toContain('INSERT INTO worker_checkpoints');
+    expect(calls[5]![1]).toEqual(['job-a', 8, '1000', '1500', 2, null, 0]);
+    expect(calls[6]![0]).toBe('COMMIT');
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it('fences the victim on the lease owner and leases the new chunk to it', async () => {
+    const client = createSplitClient();
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+
+    await splitWorkerCheckpoint(pool, 2, 1500, 'job-a', { owner: 'host-1', ttlMs: 30000 });
+
+    const calls = client.query.mock.calls as Array<[string, unknown[]?]>;
+    expect(calls[2]![1]).toEqual(['job-a', 2, 'host-1']);
+    expect(calls[5]![1]).toEqual(['job-a', 8, '1000', '1500', 2, 'host-1', 30000]);
+  });
+
+  it('rolls back and returns null when the victim is missing or no longer leased to us', async () => {
+    const client = {
+      query: vi.fn().mockResolvedValue({ rows: [] }),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+
+    await expect(splitWorkerCheckpoint(pool, 2, 1500, 'job-a', { owner: 'host-1', ttlMs: 30000 }))
+      .resolves.toBeNull();
+    expect(client.query.mock.calls[2]![0]).toContain('lease_expires_at >= NOW()');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT'), expect.anything());
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it('rolls back and returns null when the victim update matches no row', async () => {
+    const client = createSplitClient();
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('MAX(worker_id)')) return { rows: [{ worker_id: 8 }] };
+      if (sql.startsWith('SELECT chunk_start_ts')) return { rows: [{ chunk_start_ts: '1000' }] };
+      if (sql.includes('SET chunk_start_ts')) return { rows: [], rowCount: 0 };
+      return { rows: [], rowCount: 1 };
+    });
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+
+    await expect(splitWorkerCheckpoint(pool, 2, 1500, 'job-a', { owner: 'host-1', ttlMs: 30000 }))
+      .resolves.toBeNull();
+    const calls = client.query.mock.calls as Array<[string, unknown[]?]>;
+    expect(calls[4]![1]).toEqual(['job-a', 2, '1500', 'host-1']);
+    expect(calls[5]![0]).toBe('ROLLBACK');
+    expect(calls).toHaveLength(6);
+  });
+
+  it('rolls back and throws DbError when a statement fails', async () => {
+    const client = {
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.startsWith('SELECT chunk_start_ts')) throw new Error('deadlock detected');
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+
+    await expect(splitWorkerCheckpoint(pool, 2, 1500, 'job-a')).rejects.toThrow('Failed to split');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+});
+
+describe('markWorkerFailed', () => {
+  it('records the error and keeps progress columns untouched', async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rowCount: 1 }) } as unknown as Pool;
+
+    await markWorkerFailed(pool, 4, 'socket hang up', 'job-a');
+
+    const [sql, params] = (pool.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain("status = 'failed'");
+    expect(sql).toContain('failure_count = failure_count + 1');
+    expect(sql).not.toContain('cursor');
+    expect(params).toEqual(['job-a', 4, 'socket hang up', null]);
+  });
+
+  it('only marks a row still leased to the given owner', async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rowCount: 0 }) } as unknown as Pool;
+
+    await markWorkerFailed(pool, 4, 'socket hang up', 'job-a', 'host-1');
+
+    const [sql, params] = (pool.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('lease_owner = $4');
+    expect(params).toEqual(['job-a', 4, 'socket hang up', 'host-1']);
+  });
+
+  it('throws DbError on failure', async () => {
+    const pool = { query: vi.fn().mockRejectedValue(new Error('connection lost')) } as unknown as Pool;
+
+    await expect(markWorkerFailed(pool, 4, 'boom', 'default')).rejects.toThrow('Failed to mark worker 4');
+  });
+});
+
+describe('claimWorkerCheckpoint', () => {
+  it('claims an unleased or expired checkpoint with SKIP LOCKED', async () => {
+    const pool = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{
+          worker_id: 5,
+          chunk_start_ts: '1000',
+          chunk_end_ts: '2000',
+          cursor: null,
+          last_ts: '1500',
+          fetched_count: '20',
+          inserted_count: '20',
+          status: 'failed',
+          split_from: null,
+        }],
+      }),
+    } as unknown as Pool;
+
+    const claimed = await claimWorkerCheckpoint(pool, 'job-a', { owner: 'host-1', ttlMs: 30000 }, [2]);
+
+    const [sql, params] = (pool.query as ReturnType<typeof vi.fn>).mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(sql).toContain('lease_expires_at < NOW()');
+    expect(params).toEqual(['job-a', 'host-1', 30000, [2]]);
+    expect(claimed).toMatchObject({ workerId: 5, lastTs: 1500, status: 'failed' });
+  });
+
+  it('returns null when nothing is claimable', async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rows: [] }) } as unknown as Pool;
+
+    expect(await claimWorkerCheckpoint(pool, 'job-a', { owner: 'host-1', ttlMs: 30000 }, [])).toBeNull();
+  });
+});
+
+describe('renewLeases', () => {
+  it('returns the worker ids still held by the owner', async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rows: [{ worker_id: 1 }] }) } as unknown as Pool;
+
+    const renewed = await renewLeases(pool, 'job-a', { owner: 'host-1', ttlMs: 30000 }, [1, 2]);
+
+    expect(renewed).toEqual([1]);
+  });
+
+  it('skips the query when nothing is held', async () => {
+    const pool = { query: vi.fn() } as unknown as Pool;
+
+    expect(await renewLeases(pool, 'job-a', { owner: 'host-1', ttlMs: 30000 }, [])).toEqual([]);
+    expect(pool.query).not.toHaveBeenCalled();
   });
 });
@@ -1,8 +1,12 @@
 import { describe, it, expect, vi } from 'vitest';
 import { runWorker, type WorkerContext } from '../src/core/worker.js';
 import type { WorkerCheckpoint, NormalizedPage } from '../src/types.js';
+import { HttpError } from '../src/types.js';
 import type { EventsSource } from '../src/api/events-source.js';
 import type { DbQueue } from '../src/core/db-queue.js';
+import { createPartitionTracker } from '../src/core/work-stealing.js';
+import { compareEventPositions, decodeCursor, forgeCursor } from '../src/core/cursor-forge.js';
+import type { FetchPageParams } from '../src/api/events-source.js';
 import pino from 'pino';
 
 const logger = pino({ level: 'silent' });
@@ -56,9 +60,11 @@ describe('runWorker', () => {
       chunkEndTs: 1769000000000,
       cursor: null,
       lastTs: null,
+      lastEventId: null,
       fetchedCount: 0,
       insertedCount: 0,
       status: 'running',
+      splitFrom: null,
     };
 
     const ctx: WorkerContext = {
@@ -102,9 +108,11 @@ describe('runWorker', () => {
       chunkEndTs: 1769000000000,
       cursor: null,
       lastTs: null,
+      lastEventId: null,
       fetchedCount: 0,
       insertedCount: 0,
       status: 'running',
+      splitFrom: null,
     };
 
     const ctx: WorkerContext = {
@@ -146,9 +154,11 @@ describe('runWorker', () => {
       chunkEndTs: 1769000000000,
       cursor: null,
       lastTs: null,
+      lastEventId: null,
       fetchedCount: 0,
       insertedCount: 0,
       status: 'running',
+      splitFrom: null,
     };
 
     const ctx: WorkerContext = {
@@ -172,6 +182,67 @@ describe('runWorker', () => {
     }
   });
 
+  it('quarantines rejected items with the page they came from', async () => {
+    const source = createMockSource([
+      {
+        events: [{ id: 'ok', timestamp: 1768500000000 }],
+        hasMore: true,
+        nextCursor: 'cursor-2',
+        total: null,
+      },
+      {
+        events: [
+          { id: 'bad-ts', timestamp: 'not-a-date' },
+          { id: 'ok-2', timestamp: 1768400000000 },
+        ],
+        hasMore: false,
+        nextCursor: null,
+        total: null,
+        rejected: [{ raw: { noId: true }, reason: 'missing-id' }],
+      },
+    ]);
+
+    const dbQueue = createMockDbQueue();
+    const onQuarantine = vi.fn();
+
+    const checkpoint: WorkerCheckpoint = {
+      workerId: 2,
+      chunkStartTs: 1768000000000,
+      chunkEndTs: 1769000000000,
+      cursor: null,
+      lastTs: null,
+      lastEventId: null,
+      fetchedCount: 0,
+      insertedCount: 0,
+      status: 'running',
+      splitFrom: null,
+    };
+
+    const ctx: WorkerContext = {
+      source,
+      dbQueue,
+      logger,
+      batchSize: 5000,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+      onQuarantine,
+    };
+
+    await runWorker(checkpoint, ctx);
+
+    const expected = [
+      { raw: { noId: true }, reason: 'missing-id', workerId: 2, cursor: 'cursor-2' },
+      { raw: { id: 'bad-ts', timestamp: 'not-a-date' }, reason: 'invalid-timestamp', workerId: 2, cursor: 'cursor-2' },
+    ];
+    expect(onQuarantine).toHaveBeenCalledOnce();
+    expect(onQuarantine).toHaveBeenCalledWith(expected);
+
+    const tasks = (dbQueue.enqueue as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0]);
+    expect(tasks[0].quarantined).toEqual([]);
+    expect(tasks[1].quarantined).toEqual(expected);
+    expect(tasks[1].events.map((e: { eventId: string }) => e.eventId)).toEqual(['ok-2']);
+  });
+
   it('skips already completed workers', async () => {
     const source = createMockSource([]);
     const dbQueue = createMockDbQueue();
@@ -182,9 +253,11 @@ describe('runWorker', () => {
       chunkEndTs: 1769000000000,
       cursor: null,
       lastTs: null,
+      lastEventId: null,
       fetchedCount: 5000,
       insertedCount: 5000,
       status: 'completed',
+      splitFrom: null,
     };
 
     const ctx: WorkerContext = {
@@ -201,4 +274,259 @@ describe('runWorker', () => {
     expect(result.status).toBe('completed');
     expect(source.fetchPage).not.toHaveBeenCalled();
   });
+
+  it('stops at a lower bound raised by work stealing', async () => {
+    const source = createMockSource([
+      {
+        events: [
+          { id: 'kept', timestamp: 1768600000000 },
+          { id: 'stolen', timestamp: 1768200000000 },
+        ],
+        hasMore: true,
+        nextCursor: 'cursor-2',
+        total: null,
+      },
+    ]);
+
+    const dbQueue = createMockDbQueue();
+
+    const checkpoint: WorkerCheckpoint = {
+      workerId: 0,
+      chunkStartTs: 1768000000000,
+      chunkEndTs: 1769000000000,
+      cursor: null,
+      lastTs: null,
+      lastEventId: null,
+      fetchedCount: 0,
+      insertedCount: 0,
+      status: 'running',
+      splitFrom: null,
+    };
+
+    const partitions = createPartitionTracker(1);
+    partitions.register(checkpoint);
+    partitions.commitSplit(
+      { victimWorkerId: 0, chunkStartTs: 1768000000000, splitTs: 1768500000000 },
+      1,
+    );
+
+    const ctx: WorkerContext = {
+      source,
+      dbQueue,
+      logger,
+      batchSize: 5000,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+      partitions,
+    };
+
+    const result = await runWorker(checkpoint, ctx);
+
+    expect(result.status).toBe('completed');
+    expect(source.fetchPage).toHaveBeenCalledOnce();
+    const task = (dbQueue.enqueue as ReturnType<typeof vi.fn>).mock.calls[0]![0] as {
+      events: Array<{ eventId: string }>;
+    };
+    expect(task.events.map((e) => e.eventId)).toEqual(['kept']);
+  });
+
+  it('persists completed status when the partition is exhausted', async () => {
+    const source = createMockSource([
+      {
+        events: [{ id: 'e1', timestamp: 1768500000000 }],
+        hasMore: false,
+        nextCursor: null,
+        total: null,
+      },
+    ]);
+
+    const dbQueue = createMockDbQueue();
+
+    const checkpoint: WorkerCheckpoint = {
+      workerId: 4,
+      chunkStartTs: 1768000000000,
+      chunkEndTs: 1769000000000,
+      cursor: null,
+      lastTs: null,
+      lastEventId: null,
+      fetchedCount: 0,
+      insertedCount: 0,
+      status: 'running',
+      splitFrom: null,
+    };
+
+    await runWorker(checkpoint, {
+      source,
+      dbQueue,
+      logger,
+      batchSize: 5000,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+    });
+
+    const calls = (dbQueue.enqueue as ReturnType<typeof vi.fn>).mock.calls;
+    const last = calls[calls.length - 1]![0] as { events: unknown[]; checkpoint: { status: string } };
+    expect(last.events).toHaveLength(0);
+    expect(last.checkpoint.status).toBe('completed');
+  });
+
+  it('starts from the newest page and re-reads it on expiry without forging', async () => {
+    let calls = 0;
+    const source: EventsSource = {
+      fetchPage: vi.fn().mockImplementation(async () => {
+        calls++;
+        if (calls === 1) {
+          return {
+            events: [{ id: 'e1', timestamp: 1768500000000 }],
+            hasMore: true,
+            nextCursor: 'real-cursor',
+            total: null,
+          };
+        }
+        if (calls === 2) throw new HttpError('HTTP 400', 400, 'GET', '/events');
+        return { events: [], hasMore: false, nextCursor: null, total: null };
+      }),
+    };
+
+    const checkpoint: WorkerCheckpoint = {
+      workerId: 0,
+      chunkStartTs: 0,
+      chunkEndTs: Number.MAX_SAFE_INTEGER,
+      cursor: null,
+      lastTs: null,
+      lastEventId: null,
+      fetchedCount: 0,
+      insertedCount: 0,
+      status: 'running',
+      splitFrom: null,
+    };
+
+    const result = await runWorker(checkpoint, {
+      source,
+      dbQueue: createMockDbQueue(),
+      logger,
+      batchSize: 5000,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+      forgeCursors: false,
+    });
+
+    const cursors = (source.fetchPage as ReturnType<typeof vi.fn>).mock.calls.map((c) => c[0].cursor);
+    expect(cursors).toEqual([null, 'real-cursor', null]);
+    expect(result.status).toBe('completed');
+  });
+});
+
+describe('runWorker with dense timestamps', () => {
+  const T = 1768000000000;
+
+  interface Event { readonly id: string; readonly timestamp: number }
+
+  function events(ts: number, count: number, prefix: string): Event[] {
+    return Array.from({ length: count }, (_, i) => ({ id: `${prefix}-${String(i).padStart(3, '0')}`, timestamp: ts }));
+  }
+
+  // Serves events DESC by (ts, id); a cursor returns the events strictly
+  // after its (ts, id). The cursor handed out on `expireOnCalls` is rejected.
+  function createOrderedSource(dataset: Event[], expireOnCalls: number[] = []): EventsSource {
+    const position = (e: Event) => ({ ts: e.timestamp, id: e.id });
+    const sorted = [...dataset].sort((a, b) => compareEventPositions(position(b), position(a)));
+    let calls = 0;
+    return {
+      fetchPage: vi.fn().mockImplementation(async (params: FetchPageParams) => {
+        calls++;
+        if (expireOnCalls.includes(calls)) throw new HttpError('HTTP 400', 400, 'GET', '/events');
+        const decoded = params.cursor ? decodeCursor(params.cursor) : null;
+        const after = decoded ? { ts: decoded['ts'] as number, id: decoded['id'] as string } : null;
+        const remaining = after
+          ? sorted.filter((e) => compareEventPositions(position(e), after) < 0)
+          : sorted;
+        const page = remaining.slice(0, params.limit);
+        const hasMore = remaining.length > page.length;
+        const last = page[page.length - 1];
+        return {
+          events: page,
+          hasMore,
+          nextCursor: hasMore && last ? forgeCursor(last.timestamp, last.id) : null,
+          total: null,
+        };
+      }),
+    };
+  }
+
+  function createRecordingDbQueue(): DbQueue & { readonly inserted: string[] } {
+    const inserted: string[] = [];
+    return {
+      inserted,
+      enqueue: vi.fn().mockImplementation(async (task: { events: { eventId: string }[] }) => {
+        inserted.push(...task.events.map((e) => e.eventId));
+        return task.events.length;
+      }),
+      drain: vi.fn().mockResolvedValue(undefined),
+      pendingCount: vi.fn().mockReturnValue(0),
+    };
+  }
+
+  function chunk(workerId: number, chunkStartTs: number, chunkEndTs: number): WorkerCheckpoint {
+    return {
+      workerId,
+      chunkStartTs,
+      chunkEndTs,
+      cursor: null,
+      lastTs: null,
+      lastEventId: null,
+      fetchedCount: 0,
+      insertedCount: 0,
+      status: 'running',
+      splitFrom: null,
+    };
+  }
+
+  function run(checkpoint: WorkerCheckpoint, source: EventsSource, dbQueue: DbQueue, batchSize: number) {
+    return runWorker(checkpoint, {
+      source,
+      dbQueue,
+      logger,
+      batchSize,
+      shouldStop: () => false,
+      onProgress: vi.fn(),
+    });
+  }
+
+  it('re-forges an expired cursor after the last (ts, id) without skipping ties', async () => {
+    const dataset = [...events(T, 25, 'a'), ...events(T - 1, 5, 'b')];
+    const source = createOrderedSource(dataset, [2, 4]);
+    const dbQueue = createRecordingDbQueue();
+
+    await run(chunk(0, T - 1, T + 1), source, dbQueue, 10);
+
+    expect(dbQueue.inserted).toHaveLength(dataset.length);
+    expect(new Set(dbQueue.inserted)).toEqual(new Set(dataset.map((e) => e.id)));
+  });
+
+  it('splits dense data at a partition boundary exactly once', async () => {
+    const dataset = [...events(T + 1, 12, 'c'), ...events(T, 20, 'a'), ...events(T - 1, 20, 'b')];
+    const upperQueue = createRecordingDbQueue();
+    const lowerQueue = createRecordingDbQueue();
+
+    await run(chunk(0, T, T + 10), createOrderedSource(dataset, [3]), upperQueue, 7);
+    await run(chunk(1, T - 10, T), createOrderedSource(dataset, [3]), lowerQueue, 7);
+
+    expect(new Set(upperQueue.inserted)).toEqual(new Set([...events(T + 1, 12, 'c'), ...events(T, 20, 'a')].map((e) => e.id)));
+    expect(new Set(lowerQueue.inserted)).toEqual(new Set(events(T - 1, 20, 'b').map((e) => e.id)));
+    expect(upperQueue.inserted.length + lowerQueue.inserted.length).toBe(dataset.length);
+  });
+
+  it('re-reads the last millisecond for checkpoints without an event id', async () => {
+    const dataset = events(T, 15, 'a');
+    const source = createOrderedSource(dataset, [1]);
+    const dbQueue = createRecordingDbQueue();
+
+    // Older checkpoints only know lastTs; the stored cursor has expired
+    await run({ ...chunk(0, T - 10, T + 10), cursor: 'expired', lastTs: T }, source, dbQueue, 10);
+
+    const cursor = decodeCursor((source.fetchPage as ReturnType<typeof vi.fn>).mock.calls[1]![0].cursor);
+    expect(cursor).toMatchObject({ ts: T + 1 });
+    expect(new Set(dbQueue.inserted)).toEqual(new Set(dataset.map((e) => e.id)));
+  });
 });